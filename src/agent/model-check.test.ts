@@ -0,0 +1,81 @@
+import { afterAll, beforeAll, describe, expect, test } from "bun:test";
+import { ModelRegistry, type ModelConfig } from "../models.js";
+import { ModelChecker, isHealthy } from "./model-check.js";
+import { startOpenAIStub, type OpenAIStub } from "./openai-stub.js";
+
+const stubModel = (key: string, baseUrl: string, extra: Partial<ModelConfig> = {}): ModelConfig => ({
+  key,
+  label: key,
+  provider: `stub-${key}`,
+  id: "stub-model",
+  apiFormat: "openai-completions",
+  baseUrl,
+  apiKey: "sk-stub",
+  ...extra,
+});
+
+describe("ModelChecker against a local OpenAI-compatible stub", () => {
+  let stub: OpenAIStub;
+  let slow: OpenAIStub;
+  let closedUrl: string;
+  let checker: ModelChecker;
+
+  beforeAll(async () => {
+    stub = await startOpenAIStub({ apiKey: "sk-stub" });
+    slow = await startOpenAIStub({ apiKey: "sk-stub", chunkDelayMs: 150 });
+    const closed = await startOpenAIStub();
+    closedUrl = closed.baseUrl;
+    await closed.close();
+
+    const registry = new ModelRegistry({
+      defaultModel: "stub",
+      models: [
+        stubModel("stub", stub.baseUrl, { thinkingLevel: "low" }),
+        stubModel("plain", stub.baseUrl),
+        stubModel("wrongkey", stub.baseUrl, { apiKey: "sk-wrong" }),
+        stubModel("down", closedUrl, { timeoutMs: 5_000 }),
+        stubModel("slow", slow.baseUrl, { timeoutMs: 400 }),
+      ],
+    });
+    checker = new ModelChecker(() => registry);
+  });
+
+  afterAll(async () => {
+    await stub?.close();
+    await slow?.close();
+  });
+
+  test("passes every check on a working model", async () => {
+    const result = await checker.check("stub");
+    expect(result).toMatchObject({ reachable: true, auth: true, streaming: true, image: true, reasoning: true });
+    expect(result.notes).toEqual([]);
+    expect(isHealthy(result)).toBe(true);
+    expect(checker.get("stub")).toBe(result);
+  });
+
+  test("skips the reasoning check when thinking is off", async () => {
+    const result = await checker.check("plain");
+    expect(result).toMatchObject({ reachable: true, auth: true, streaming: true, image: true, reasoning: null });
+  });
+
+  test("reports rejected credentials", async () => {
+    const result = await checker.check("wrongkey");
+    expect(result).toMatchObject({ reachable: true, auth: false, streaming: null, image: null });
+    expect(result.error).toContain("401");
+    expect(isHealthy(result)).toBe(false);
+  });
+
+  test("reports an unreachable endpoint", async () => {
+    const result = await checker.check("down");
+    expect(result.reachable).toBe(false);
+    expect(result.auth).toBeNull();
+    expect(isHealthy(result)).toBe(false);
+  }, 20_000);
+
+  test("lets an answer stream for longer than timeoutMs", async () => {
+    const result = await checker.check("slow");
+    expect(result.error).toBeUndefined();
+    expect(result.latencyMs).toBeGreaterThan(400);
+    expect(result).toMatchObject({ reachable: true, auth: true, streaming: true });
+  }, 20_000);
+});
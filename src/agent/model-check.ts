@@ -0,0 +1,186 @@
+/**
+ * Model health checks for `/models check`.
+ *
+ * Each check resolves the SDK model the same way sessions do and sends a
+ * few tiny requests outside any session: a short text prompt (reachability,
+ * credentials, latency and whether the reply streams), then an image and a
+ * reasoning prompt when the model is configured for them. Results are kept
+ * in memory so `/model` can mark models that failed their last check.
+ */
+
+import { streamSimple, type Context, type Model, type Api, type SimpleStreamOptions, type UserMessage } from "@mariozechner/pi-ai";
+import { AuthStorage } from "@mariozechner/pi-coding-agent";
+import { ModelStore, streamWithRequestOptions, type ModelConfig, type ModelRegistry } from "../models.js";
+
+/** Per request; a check makes up to three */
+const REQUEST_TIMEOUT_MS = 30_000;
+
+/** 16×16 solid red PNG */
+const TEST_IMAGE_PNG =
+  "iVBORw0KGgoAAAANSUhEUgAAABAAAAAQCAIAAACQkWg2AAAAFklEQVR42mP4z8BAEmIY1TCqYfhqAACQ+f8B8u7oVwAAAABJRU5ErkJggg==";
+
+export interface ModelCheckResult {
+  key: string;
+  checkedAt: number;
+  /** The endpoint answered, even if with an error */
+  reachable: boolean;
+  /** false when the credentials were rejected or missing, null when the outcome says nothing about them */
+  auth: boolean | null;
+  /** Duration of the text request */
+  latencyMs?: number;
+  /** The text reply arrived in more than one delta; null when it failed */
+  streaming: boolean | null;
+  /** null when the model doesn't take images or the text request failed */
+  image: boolean | null;
+  /** Thinking came back with reasoning on; null when thinking is off or the text request failed */
+  reasoning: boolean | null;
+  /** Why the text request failed */
+  error?: string;
+  /** Why the image or reasoning request failed */
+  notes: string[];
+}
+
+/** Whether the model answered its last text request */
+export function isHealthy(result: ModelCheckResult): boolean {
+  return result.reachable && result.auth !== false && !result.error;
+}
+
+function isNetworkError(error: string): boolean {
+  return /fetch failed|connection.?error|ECONNREFUSED|ECONNRESET|ENOTFOUND|EAI_AGAIN|socket hang up|timed? ?out|aborted/i.test(error);
+}
+
+function isAuthError(error: string): boolean {
+  return /401|403|unauthori[sz]ed|forbidden|authentication|invalid.{0,20}api.?key|no api key/i.test(error);
+}
+
+interface RequestOutcome {
+  ok: boolean;
+  error?: string;
+  latencyMs: number;
+  textDeltas: number;
+  thinking: boolean;
+}
+
+export class ModelChecker {
+  private results = new Map<string, ModelCheckResult>();
+  private readonly authStorage = AuthStorage.create();
+  private readonly registry: () => ModelRegistry;
+  private readonly modelStore: ModelStore;
+
+  constructor(registry: () => ModelRegistry) {
+    this.registry = registry;
+    this.modelStore = new ModelStore(registry, this.authStorage);
+    this.modelStore.registerApiKeys();
+  }
+
+  /** Last result for a model, if it has been checked */
+  get(key: string): ModelCheckResult | undefined {
+    return this.results.get(key);
+  }
+
+  /** Check models in parallel and cache the results */
+  async checkAll(keys: string[]): Promise<ModelCheckResult[]> {
+    return Promise.all(keys.map((key) => this.check(key)));
+  }
+
+  async check(key: string): Promise<ModelCheckResult> {
+    const result: ModelCheckResult = {
+      key,
+      checkedAt: Date.now(),
+      reachable: false,
+      auth: null,
+      streaming: null,
+      image: null,
+      reasoning: null,
+      notes: [],
+    };
+
+    let model: Model<Api>;
+    try {
+      model = this.modelStore.getSdkModel(key);
+    } catch (e: unknown) {
+      result.error = e instanceof Error ? e.message : String(e);
+      return this.store(result);
+    }
+
+    const config = this.registry().get(key);
+    const apiKey = await this.authStorage.getApiKey(model.provider);
+
+    const text = await this.request(model, config, apiKey, "Count from 1 to 5, separated by spaces. Reply with the numbers only.");
+    result.latencyMs = text.latencyMs;
+    if (!text.ok) {
+      result.error = text.error;
+      result.reachable = !isNetworkError(text.error ?? "");
+      if (isAuthError(text.error ?? "")) result.auth = false;
+      return this.store(result);
+    }
+    result.reachable = true;
+    result.auth = true;
+    result.streaming = text.textDeltas > 1;
+
+    if (model.input.includes("image")) {
+      const image = await this.request(model, config, apiKey, "What color is this image? Reply with one word.", { image: true });
+      result.image = image.ok;
+      if (!image.ok) result.notes.push(`image: ${image.error}`);
+    }
+
+    if (model.reasoning) {
+      const reasoning = await this.request(model, config, apiKey, "Is 91 a prime number? Reply yes or no.", { reasoning: true });
+      result.reasoning = reasoning.ok && reasoning.thinking;
+      if (!reasoning.ok) result.notes.push(`reasoning: ${reasoning.error}`);
+      else if (!reasoning.thinking) result.notes.push("reasoning: no thinking returned");
+    }
+
+    return this.store(result);
+  }
+
+  private store(result: ModelCheckResult): ModelCheckResult {
+    this.results.set(result.key, result);
+    return result;
+  }
+
+  private async request(
+    model: Model<Api>,
+    config: ModelConfig | undefined,
+    apiKey: string | undefined,
+    prompt: string,
+    opts: { image?: boolean; reasoning?: boolean } = {},
+  ): Promise<RequestOutcome> {
+    const message: UserMessage = {
+      role: "user",
+      content: opts.image
+        ? [{ type: "image", data: TEST_IMAGE_PNG, mimeType: "image/png" }, { type: "text", text: prompt }]
+        : prompt,
+      timestamp: Date.now(),
+    };
+    const context: Context = { messages: [message] };
+    const options: SimpleStreamOptions = {
+      apiKey,
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      // Thinking needs room beyond the answer; the provider picks its budget
+      ...(opts.reasoning ? { reasoning: "low" } : { maxTokens: 32 }),
+    };
+
+    const started = Date.now();
+    let textDeltas = 0;
+    let thinking = false;
+    try {
+      for await (const event of await streamWithRequestOptions(streamSimple, model, context, config, options)) {
+        if (event.type === "text_delta") textDeltas++;
+        else if (event.type === "thinking_delta") thinking = true;
+        else if (event.type === "error") {
+          return {
+            ok: false,
+            error: event.error.errorMessage ?? event.reason,
+            latencyMs: Date.now() - started,
+            textDeltas,
+            thinking,
+          };
+        }
+      }
+    } catch (e: unknown) {
+      return { ok: false, error: e instanceof Error ? e.message : String(e), latencyMs: Date.now() - started, textDeltas, thinking };
+    }
+    return { ok: true, latencyMs: Date.now() - started, textDeltas, thinking };
+  }
+}
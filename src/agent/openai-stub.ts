@@ -0,0 +1,151 @@
+/**
+ * Minimal OpenAI-compatible chat completions server for `/models check`.
+ *
+ * Answers `POST …/chat/completions` with a streamed `chat.completion.chunk`
+ * reply: a few text deltas, `reasoning_content` when `reasoning_effort` is
+ * set, and "Red" when the prompt carries an image. A wrong bearer token
+ * gets a 401. Used by the model check tests, and runnable on its own to
+ * try `/models check` without a real provider:
+ *
+ *   PORT=8787 bun run stub:openai
+ */
+
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import type { AddressInfo } from "node:net";
+
+export interface OpenAIStubOptions {
+  /** Port to listen on; 0 picks a free one */
+  port?: number;
+  /** Bearer token to require; any token is accepted when unset */
+  apiKey?: string;
+  /** Pause before each streamed chunk, to simulate a slow answer */
+  chunkDelayMs?: number;
+}
+
+export interface OpenAIStub {
+  /** Base URL for `models.json`, ending in `/v1` */
+  baseUrl: string;
+  close(): Promise<void>;
+}
+
+interface ChatRequest {
+  model?: string;
+  messages?: { content?: unknown }[];
+  reasoning_effort?: string;
+}
+
+function hasImage(request: ChatRequest): boolean {
+  return (request.messages ?? []).some(
+    (m) => Array.isArray(m.content) && m.content.some((part: { type?: string }) => part?.type === "image_url"),
+  );
+}
+
+function readBody(req: IncomingMessage): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let body = "";
+    req.setEncoding("utf8");
+    req.on("data", (chunk: string) => (body += chunk));
+    req.on("end", () => resolve(body));
+    req.on("error", reject);
+  });
+}
+
+function sendError(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { "content-type": "application/json" });
+  res.end(JSON.stringify({ error: { message, type: "invalid_request_error" } }));
+}
+
+async function handle(req: IncomingMessage, res: ServerResponse, options: OpenAIStubOptions): Promise<void> {
+  if (req.method !== "POST" || !req.url?.endsWith("/chat/completions")) {
+    sendError(res, 404, `Unknown route ${req.method} ${req.url}`);
+    return;
+  }
+  if (options.apiKey && req.headers.authorization !== `Bearer ${options.apiKey}`) {
+    sendError(res, 401, "Incorrect API key provided");
+    return;
+  }
+
+  let request: ChatRequest;
+  try {
+    request = JSON.parse(await readBody(req)) as ChatRequest;
+  } catch {
+    sendError(res, 400, "Invalid JSON body");
+    return;
+  }
+
+  const id = `chatcmpl-stub-${Date.now()}`;
+  const model = request.model ?? "stub";
+  const chunk = (delta: Record<string, string>, finishReason: string | null = null) => ({
+    id,
+    object: "chat.completion.chunk",
+    created: Math.floor(Date.now() / 1000),
+    model,
+    choices: [{ index: 0, delta, finish_reason: finishReason }],
+  });
+
+  const deltas: Record<string, string>[] = [];
+  if (request.reasoning_effort && request.reasoning_effort !== "none") {
+    deltas.push({ reasoning_content: "91 = 7 × 13." });
+  }
+  if (hasImage(request)) deltas.push({ role: "assistant", content: "Red" });
+  else for (const [i, n] of ["1", "2", "3", "4", "5"].entries()) deltas.push({ content: i ? ` ${n}` : n });
+
+  res.writeHead(200, { "content-type": "text/event-stream", "cache-control": "no-cache" });
+  for (const delta of deltas) {
+    if (options.chunkDelayMs) await new Promise((resolve) => setTimeout(resolve, options.chunkDelayMs));
+    res.write(`data: ${JSON.stringify(chunk(delta))}\n\n`);
+  }
+  res.write(
+    `data: ${JSON.stringify({
+      ...chunk({}, "stop"),
+      usage: { prompt_tokens: 12, completion_tokens: deltas.length, total_tokens: 12 + deltas.length },
+    })}\n\n`,
+  );
+  res.end("data: [DONE]\n\n");
+}
+
+export function startOpenAIStub(options: OpenAIStubOptions = {}): Promise<OpenAIStub> {
+  const server = createServer((req, res) => {
+    handle(req, res, options).catch((e: unknown) => {
+      if (!res.headersSent) sendError(res, 500, e instanceof Error ? e.message : String(e));
+      else res.end();
+    });
+  });
+  return new Promise((resolve, reject) => {
+    server.once("error", reject);
+    server.listen(options.port ?? 0, "127.0.0.1", () => {
+      const { port } = server.address() as AddressInfo;
+      resolve({
+        baseUrl: `http://127.0.0.1:${port}/v1`,
+        close: () => new Promise((done) => server.close(() => done())),
+      });
+    });
+  });
+}
+
+if (import.meta.main) {
+  const apiKey = process.env.STUB_API_KEY;
+  const stub = await startOpenAIStub({
+    port: Number(process.env.PORT ?? 8787),
+    apiKey,
+    chunkDelayMs: Number(process.env.CHUNK_DELAY_MS ?? 0),
+  });
+  console.log(`OpenAI-compatible stub listening on ${stub.baseUrl}`);
+  console.log("Add to models.json:");
+  console.log(
+    JSON.stringify(
+      {
+        key: "stub",
+        label: "Local stub",
+        provider: "stub-openai",
+        id: "stub-model",
+        apiFormat: "openai-completions",
+        baseUrl: stub.baseUrl,
+        apiKey: apiKey ?? "stub",
+        thinkingLevel: "low",
+      },
+      null,
+      2,
+    ),
+  );
+}
@@ -0,0 +1,82 @@
+import { describe, expect, test } from "bun:test";
+import type { ModelConfig } from "../models.js";
+import { ProviderHealth, isProviderError, providerKey } from "./provider-health.js";
+
+const model = (key: string, extra: Partial<ModelConfig> = {}): ModelConfig => ({
+  key,
+  label: key,
+  provider: "openai",
+  id: key,
+  ...extra,
+});
+
+describe("isProviderError", () => {
+  test("matches rate limits, server and network errors", () => {
+    expect(isProviderError("429 status code (no body)")).toBe(true);
+    expect(isProviderError("503 Service Unavailable")).toBe(true);
+    expect(isProviderError("Error: 529 {\"type\":\"overloaded_error\"}")).toBe(true);
+    expect(isProviderError("Rate limit reached for requests")).toBe(true);
+    expect(isProviderError("fetch failed")).toBe(true);
+    expect(isProviderError("connect ECONNREFUSED 127.0.0.1:8080")).toBe(true);
+    expect(isProviderError("Request timed out.")).toBe(true);
+  });
+
+  test("doesn't match bad requests", () => {
+    expect(isProviderError("400 prompt is too long: 205000 tokens > 200000 maximum")).toBe(false);
+    expect(isProviderError("invalid model id claude-4290")).toBe(false);
+    expect(isProviderError("401 Incorrect API key provided")).toBe(false);
+    expect(isProviderError("context length 15000 exceeded")).toBe(false);
+  });
+});
+
+describe("ProviderHealth", () => {
+  test("cools an endpoint down after repeated failures and doubles the cooldown", () => {
+    const health = new ProviderHealth();
+    const m = model("gpt");
+    expect(health.recordFailure(m, "503", 0)).toBe(false);
+    expect(health.recordFailure(m, "503", 0)).toBe(false);
+    expect(health.recordFailure(m, "503", 0)).toBe(true);
+    expect(health.isCoolingDown(m, 59_999)).toBe(true);
+    expect(health.isCoolingDown(m, 60_000)).toBe(false);
+
+    // Failing again during the cooldown doesn't extend it
+    expect(health.recordFailure(m, "503", 30_000)).toBe(false);
+    expect(health.get(m)?.cooldownUntil).toBe(60_000);
+
+    expect(health.recordFailure(m, "503", 60_000)).toBe(true);
+    expect(health.get(m)?.cooldownUntil).toBe(60_000 + 240_000);
+    expect(health.get(m)?.lastError).toBe("503");
+  });
+
+  test("caps the cooldown", () => {
+    const health = new ProviderHealth();
+    const m = model("gpt");
+    let now = 0;
+    for (let i = 0; i < 20; i++) {
+      health.recordFailure(m, "503", now);
+      now = Math.max(now, health.get(m)!.cooldownUntil);
+    }
+    expect(health.get(m)!.cooldownUntil - health.get(m)!.lastFailureAt!).toBe(15 * 60_000);
+  });
+
+  test("resets an endpoint on success", () => {
+    const health = new ProviderHealth();
+    const m = model("gpt");
+    for (let i = 0; i < 3; i++) health.recordFailure(m, "503", 0);
+    health.recordSuccess(m, 1_000);
+    expect(health.isCoolingDown(m, 1_000)).toBe(false);
+    expect(health.get(m)).toMatchObject({ failures: 0, cooldownUntil: 0, lastSuccessAt: 1_000 });
+  });
+
+  test("shares health between models on the same endpoint", () => {
+    const health = new ProviderHealth();
+    const a = model("a");
+    const b = model("b");
+    const local = model("local", { baseUrl: "http://localhost:8080/v1" });
+    for (let i = 0; i < 3; i++) health.recordFailure(a, "503", 0);
+    expect(health.isCoolingDown(b, 0)).toBe(true);
+    expect(health.isCoolingDown(local, 0)).toBe(false);
+    expect(providerKey(local)).toBe("openai@http://localhost:8080/v1");
+    expect(health.get(local)).toBeUndefined();
+  });
+});
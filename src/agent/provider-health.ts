@@ -0,0 +1,85 @@
+/**
+ * Provider health tracking for model fallback.
+ *
+ * Failures are counted per provider endpoint (provider + base URL), shared
+ * by every session in the process. After a run of consecutive rate-limit,
+ * server or network errors the endpoint is put in cooldown and skipped when
+ * choosing a model; each further failure after the cooldown doubles it. A
+ * successful answer resets the endpoint.
+ */
+
+import type { ModelConfig } from "../models.js";
+
+/** Consecutive failures before an endpoint is put in cooldown */
+const FAILURE_THRESHOLD = 3;
+const BASE_COOLDOWN_MS = 60_000;
+const MAX_COOLDOWN_MS = 15 * 60_000;
+
+export interface ProviderStatus {
+  /** Consecutive failures since the last success */
+  failures: number;
+  /** Epoch ms until which the endpoint is skipped, 0 when not cooling down */
+  cooldownUntil: number;
+  lastError?: string;
+  lastFailureAt?: number;
+  lastSuccessAt?: number;
+}
+
+/**
+ * Errors that say the endpoint is unavailable rather than the request being
+ * wrong. Status codes only count as whole numbers, so a message such as
+ * "prompt is too long: 205000 tokens" is not mistaken for a 500.
+ */
+export function isProviderError(error: string): boolean {
+  return /\b(429|5\d\d)\b|overloaded|rate.?limit|too many requests|service.?unavailable|timeout|timed out|ECONNREFUSED|ECONNRESET|ENOTFOUND|fetch failed|socket hang up/i.test(error);
+}
+
+/** Models sharing a provider and endpoint share health */
+export function providerKey(model: ModelConfig): string {
+  return model.baseUrl ? `${model.provider}@${model.baseUrl}` : model.provider;
+}
+
+export class ProviderHealth {
+  private entries = new Map<string, ProviderStatus>();
+
+  private entry(key: string): ProviderStatus {
+    let status = this.entries.get(key);
+    if (!status) {
+      status = { failures: 0, cooldownUntil: 0 };
+      this.entries.set(key, status);
+    }
+    return status;
+  }
+
+  /** Count a failed request. Returns true if the endpoint went into cooldown. */
+  recordFailure(model: ModelConfig, error: string, now = Date.now()): boolean {
+    const status = this.entry(providerKey(model));
+    status.failures++;
+    status.lastError = error;
+    status.lastFailureAt = now;
+    if (status.failures < FAILURE_THRESHOLD || status.cooldownUntil > now) return false;
+
+    const trips = status.failures - FAILURE_THRESHOLD;
+    status.cooldownUntil = now + Math.min(BASE_COOLDOWN_MS * 2 ** trips, MAX_COOLDOWN_MS);
+    return true;
+  }
+
+  recordSuccess(model: ModelConfig, now = Date.now()): void {
+    const status = this.entry(providerKey(model));
+    status.failures = 0;
+    status.cooldownUntil = 0;
+    status.lastSuccessAt = now;
+  }
+
+  isCoolingDown(model: ModelConfig, now = Date.now()): boolean {
+    return (this.entries.get(providerKey(model))?.cooldownUntil ?? 0) > now;
+  }
+
+  /** Current status of a model's endpoint, or undefined if it hasn't been used */
+  get(model: ModelConfig): Readonly<ProviderStatus> | undefined {
+    return this.entries.get(providerKey(model));
+  }
+}
+
+/** Shared by all sessions so one chat's failures steer the others away too */
+export const providerHealth = new ProviderHealth();
@@ -1,41 +1,63 @@
 /**
  * Pi Agent SDK session management.
  * Creates and manages the agent session, bridging events to callbacks.
- * Handles model fallback and session-safe model switching.
+ * Handles model fallback chains and session-safe model switching.
  */
 
-import type { Model, Api } from "@mariozechner/pi-ai";
+import type { Context, Model, Api, Usage, SimpleStreamOptions } from "@mariozechner/pi-ai";
 import {
   AuthStorage,
   createAgentSession,
   DefaultResourceLoader,
   ModelRegistry as SdkModelRegistry,
   SessionManager,
+  estimateTokens,
   type AgentSession,
   type ToolDefinition,
 } from "@mariozechner/pi-coding-agent";
 import { homedir } from "node:os";
 import { resolve } from "node:path";
 import type { Config } from "../config.js";
-import { ModelStore, type ThinkingLevel } from "../models.js";
+import { ModelStore, streamWithRequestOptions, type RouteNeed, type RouteReason, type ThinkingLevel } from "../models.js";
 import { rootLogger, type Logger } from "../logger.js";
+import { providerHealth, providerKey, isProviderError } from "./provider-health.js";
 
 export interface AgentEventCallbacks {
   onTextDelta: (delta: string) => void;
   onThinkingDelta: (delta: string) => void;
-  onToolStart: (toolName: string, args: any) => void;
-  onToolEnd: (toolName: string, result: any, isError: boolean) => void;
+  onToolStart: (toolName: string, args: any, toolCallId?: string) => void;
+  onToolEnd: (toolName: string, result: any, isError: boolean, toolCallId?: string) => void;
   onAgentStart: () => void;
   onAgentEnd: (errorMessage?: string) => void;
   onError: (error: string) => void;
-  onModelFallback?: (fromLabel: string, toLabel: string, error: string) => void;
+  /**
+   * A model failed (or is cooling down) and the prompt is being retried on
+   * the next one; the retry waits for it, so output of the failed attempt can
+   * be settled first
+   */
+  onModelFallback?: (fromLabel: string, toLabel: string, error: string) => void | Promise<void>;
+  /**
+   * A model other than the chosen one answered (a fallback, or auto routing
+   * picked it), or auto routing is on; called just before onAgentEnd
+   */
+  onAnsweredBy?: (label: string, reason?: AnswerReason) => void;
+  /** Tokens and cost of each assistant message, with the key of the model that produced it */
+  onUsage?: (modelKey: string, usage: Usage) => void;
 }
 
+/** Why the answer came from a model other than the chosen one */
+export type AnswerReason = "fallback" | RouteReason;
+
+/** Rough token cost of one image in the prompt, for routing estimates */
+const IMAGE_TOKEN_ESTIMATE = 1600;
+
 export interface ManagedSession {
   session: AgentSession;
   modelStore: ModelStore;
   activeModelKey: string;
   activeThinkingLevel: ThinkingLevel;
+  /** Route prompts the chosen model can't take to one that can (see ModelStore.route) */
+  readonly autoRouting: boolean;
 
   prompt: (text: string, options?: { images?: Array<{ type: string; source: { type: string; media_type: string; data: string } }> }) => Promise<void>;
   abort: () => Promise<void>;
@@ -44,6 +66,7 @@ export interface ManagedSession {
 
   setModelByKey: (key: string) => Promise<void>;
   setThinkingLevel: (level: ThinkingLevel) => void;
+  setAutoRouting: (on: boolean) => void;
   switchSession: (sessionPath: string) => Promise<void>;
 }
 
@@ -52,6 +75,8 @@ export interface CreateSessionOptions {
   tmuxTools: ToolDefinition[];
   callbacks: AgentEventCallbacks;
   sessionDir: string;
+  /** Working directory of the agent's tools, skills and session files; defaults to `config.cwd` */
+  cwd?: string;
   modelKey: string;
   thinkingLevel: ThinkingLevel;
   /**
@@ -67,11 +92,12 @@ export interface CreateSessionOptions {
 
 export async function createManagedSession(opts: CreateSessionOptions): Promise<ManagedSession> {
   const { config, tmuxTools, callbacks, sessionDir, modelKey, thinkingLevel, wrapTools, logger: customLogger } = opts;
+  const cwd = opts.cwd ?? config.cwd;
 
   const logger = customLogger ?? rootLogger.child({ component: "session" });
 
   const authStorage = new AuthStorage();
-  const modelStore = new ModelStore(config.modelRegistry, authStorage);
+  const modelStore = new ModelStore(() => config.modelRegistry, authStorage);
   modelStore.registerApiKeys();
 
   const sdkModelRegistry = new SdkModelRegistry(authStorage);
@@ -84,23 +110,23 @@ export async function createManagedSession(opts: CreateSessionOptions): Promise<
   logger.info({ thinkingLevel }, "Thinking level set");
 
   const skillPaths = [
-    resolve(config.cwd, ".agents", "skills"),
+    resolve(cwd, ".agents", "skills"),
     resolve(homedir(), ".agents", "skills"),
   ];
   logger.debug({ skillPaths }, "Skill paths configured");
 
   const resourceLoader = new DefaultResourceLoader({
-    cwd: config.cwd,
+    cwd,
     noSkills: true,
     additionalSkillPaths: skillPaths,
   });
   await (resourceLoader as any).reload();
 
   const { session } = await createAgentSession({
-    cwd: config.cwd,
+    cwd,
     model: sdkModel,
     thinkingLevel: thinkingLevel as "off" | "minimal" | "low" | "medium" | "high" | "xhigh",
-    sessionManager: SessionManager.create(config.cwd, sessionDir),
+    sessionManager: SessionManager.create(cwd, sessionDir),
     authStorage,
     modelRegistry: sdkModelRegistry,
     customTools: tmuxTools,
@@ -124,6 +150,15 @@ export async function createManagedSession(opts: CreateSessionOptions): Promise<
   }
   applyToolWrapping();
 
+  // Temperature, topP and timeoutMs from models.json apply to every request of the active model
+  function applyModelRequestOptions(): void {
+    const agent = (session as any).agent;
+    const sdkStreamFn = agent.streamFn;
+    agent.streamFn = (model: Model<Api>, context: Context, options?: SimpleStreamOptions) =>
+      streamWithRequestOptions(sdkStreamFn, model, context, config.modelRegistry.get(activeModelKey), options);
+  }
+  applyModelRequestOptions();
+
   session.subscribe((event) => {
     switch (event.type) {
       case "message_update": {
@@ -137,11 +172,11 @@ export async function createManagedSession(opts: CreateSessionOptions): Promise<
       }
 
       case "tool_execution_start":
-        callbacks.onToolStart(event.toolName, event.args);
+        callbacks.onToolStart(event.toolName, event.args, event.toolCallId);
         break;
 
       case "tool_execution_end":
-        callbacks.onToolEnd(event.toolName, event.result, event.isError);
+        callbacks.onToolEnd(event.toolName, event.result, event.isError, event.toolCallId);
         break;
 
       case "agent_start":
@@ -158,10 +193,25 @@ export async function createManagedSession(opts: CreateSessionOptions): Promise<
             }
           }
         }
+        deferredError = undefined;
+        const endedModel = config.modelRegistry.get(activeModelKey);
         if (errorMessage) {
+          recordFailure(errorMessage);
+          // Hold the error back; prompt() replays the turn on the next model
+          if (isRecoverable(errorMessage) && nextFallback()) {
+            logger.warn({ errorMessage }, "Agent ended with error, falling back");
+            deferredError = errorMessage;
+            break;
+          }
           logger.error({ errorMessage }, "Agent ended with error");
         } else {
+          if (endedModel) providerHealth.recordSuccess(endedModel);
           logger.info({ messageCount: msgs?.length }, "Agent ended");
+          if (attempt && endedModel && (autoRouting || activeModelKey !== attempt.preferredKey)) {
+            const reason = activeModelKey === attempt.routedKey ? attempt.routeReason
+              : activeModelKey !== attempt.preferredKey ? "fallback" : undefined;
+            callbacks.onAnsweredBy?.(endedModel.label, reason);
+          }
         }
         callbacks.onAgentEnd(errorMessage);
         break;
@@ -181,6 +231,9 @@ export async function createManagedSession(opts: CreateSessionOptions): Promise<
         const m = (event as any).message;
         const role = m?.role ?? "?";
         logger.debug({ role, stopReason: m?.stopReason, errorMessage: m?.errorMessage }, "Message end");
+        if (role === "assistant" && m.usage) {
+          callbacks.onUsage?.(activeModelKey, m.usage);
+        }
         break;
       }
 
@@ -199,31 +252,138 @@ export async function createManagedSession(opts: CreateSessionOptions): Promise<
     }
   }
 
-  function tryFallbackToDefault(error: string): boolean {
-    const defaultKey = config.modelRegistry.defaultKey;
-    if (activeModelKey === defaultKey) return false;
+  // Registry the agent's model was last taken from; models.json reloads replace it
+  let appliedRegistry = config.modelRegistry;
+
+  /** Pick up models.json changes: re-read the active model, or use the default if it was removed */
+  function syncRegistry(): void {
+    const registry = config.modelRegistry;
+    if (registry === appliedRegistry) return;
+    appliedRegistry = registry;
+    if (!registry.get(activeModelKey)) {
+      logger.warn({ model: activeModelKey, to: registry.defaultKey }, "Active model removed from models.json, using default");
+      activeModelKey = registry.defaultKey;
+      activeThinkingLevel = registry.getDefault().thinkingLevel ?? config.defaultThinkingLevel;
+      (session as any).agent.setThinkingLevel(activeThinkingLevel);
+    }
+    reapplyModel();
+  }
+
+  let autoRouting = false;
+
+  // Set while prompt() runs: the model the user chose, the one auto routing
+  // picked instead (if any) and the models tried so far
+  let attempt: {
+    preferredKey: string;
+    preferredThinkingLevel: ThinkingLevel;
+    tried: Set<string>;
+    need?: RouteNeed;
+    routedKey?: string;
+    routeReason?: RouteReason;
+  } | null = null;
+  // Error of the last agent run, when agent_end held it back for a fallback
+  let deferredError: string | undefined;
+
+  function isRecoverable(error: string): boolean {
+    return /\b(401|403)\b/.test(error) || isProviderError(error);
+  }
+
+  function recordFailure(error: string): void {
+    const model = config.modelRegistry.get(activeModelKey);
+    if (!model || !isProviderError(error)) return;
+    if (providerHealth.recordFailure(model, error)) {
+      logger.warn({ provider: providerKey(model), error }, "Provider cooling down after repeated errors");
+    }
+  }
+
+  /**
+   * The next model in the chosen model's chain that this prompt hasn't tried
+   * and isn't cooling down; with auto routing, also one that fits the prompt
+   */
+  function nextFallback(): string | undefined {
+    if (!attempt) return undefined;
+    const { tried, need } = attempt;
+    return config.modelRegistry.fallbacksFor(attempt.preferredKey).find((key) => {
+      const model = config.modelRegistry.get(key);
+      return model && !tried.has(key) && !providerHealth.isCoolingDown(model) && (!need || modelStore.fits(key, need));
+    });
+  }
+
+  /** Context the prompt will fill: the last reported usage (or an estimate of the history) plus the new message */
+  function estimatePromptTokens(text: string, imageCount: number): number {
+    const history = session.getContextUsage()?.tokens
+      ?? session.messages.reduce((sum, m) => sum + estimateTokens(m), 0);
+    return history + Math.ceil(text.length / 4) + imageCount * IMAGE_TOKEN_ESTIMATE;
+  }
+
+  /** With auto routing on, switch to a model that fits the prompt if the chosen one doesn't */
+  function routePrompt(text: string, imageCount: number): void {
+    if (!attempt || !autoRouting) return;
+    const need: RouteNeed = { images: imageCount > 0, tokens: estimatePromptTokens(text, imageCount) };
+    attempt.need = need;
+    const route = modelStore.route(activeModelKey, need, (key) => {
+      const model = config.modelRegistry.get(key);
+      return !!model && !providerHealth.isCoolingDown(model);
+    });
+    if (!route) return;
+    const routed = config.modelRegistry.get(route.key)!;
+    try {
+      applyModel(route.key, routed.thinkingLevel ?? config.defaultThinkingLevel);
+    } catch (e) {
+      logger.error({ err: e }, "Failed to set routed model");
+      return;
+    }
+    attempt.tried.add(route.key);
+    attempt.routedKey = route.key;
+    attempt.routeReason = route.reason;
+    logger.info({ from: attempt.preferredKey, to: route.key, reason: route.reason, tokens: need.tokens }, "Auto-routed prompt");
+  }
+
+  function applyModel(key: string, level: ThinkingLevel): void {
+    (session as any).agent.setModel(modelStore.getSdkModel(key));
+    (session as any).agent.setThinkingLevel(level);
+    activeModelKey = key;
+    activeThinkingLevel = level;
+  }
 
+  async function switchToFallback(key: string, error: string): Promise<boolean> {
+    attempt?.tried.add(key);
     const fromConfig = config.modelRegistry.get(activeModelKey);
-    const toConfig = config.modelRegistry.get(defaultKey);
+    const toConfig = config.modelRegistry.get(key);
     if (!fromConfig || !toConfig) return false;
 
-    logger.info({ from: fromConfig.label, to: toConfig.label }, "Falling back to default model");
-    activeModelKey = defaultKey;
-    activeThinkingLevel = toConfig.thinkingLevel ?? config.defaultThinkingLevel;
-
-    const defaultModel = modelStore.getSdkModel(defaultKey);
     try {
-      (session as any).agent.setModel(defaultModel);
-      (session as any).agent.setThinkingLevel(activeThinkingLevel);
+      applyModel(key, toConfig.thinkingLevel ?? config.defaultThinkingLevel);
     } catch (e) {
       logger.error({ err: e }, "Failed to set fallback model");
       return false;
     }
 
-    callbacks.onModelFallback?.(fromConfig.label, toConfig.label, error);
+    logger.info({ from: fromConfig.label, to: toConfig.label }, "Falling back to next model");
+    try {
+      await callbacks.onModelFallback?.(fromConfig.label, toConfig.label, error);
+    } catch (e) {
+      logger.warn({ err: e }, "Model fallback callback failed");
+    }
     return true;
   }
 
+  /** Drop the failed assistant message and run the turn again on the current model */
+  async function replayTurn(): Promise<void> {
+    const agent = (session as any).agent;
+    const messages = agent.state.messages;
+    if (messages.length > 0 && messages[messages.length - 1].role === "assistant") {
+      agent.state.messages = messages.slice(0, -1);
+    }
+    await agent.continue();
+    await (session as any).waitForRetry();
+  }
+
+  // The SDK hands events to subscribers through a queue that can lag behind prompt()
+  async function settleEvents(): Promise<void> {
+    await (session as any)._agentEventQueue;
+  }
+
   const managed: ManagedSession = {
     session,
     modelStore,
@@ -231,8 +391,10 @@ export async function createManagedSession(opts: CreateSessionOptions): Promise<
     set activeModelKey(_: string) { /* read via setModelByKey */ },
     get activeThinkingLevel() { return activeThinkingLevel; },
     set activeThinkingLevel(_: ThinkingLevel) { /* read via setThinkingLevel */ },
+    get autoRouting() { return autoRouting; },
 
     async prompt(text: string, options?: { images?: Array<{ type: string; source: { type: string; media_type: string; data: string } }> }) {
+      syncRegistry();
       const model = session.model;
       const msgCount = session.messages?.length ?? 0;
       logger.info({
@@ -242,17 +404,57 @@ export async function createManagedSession(opts: CreateSessionOptions): Promise<
         thinkingLevel: session.thinkingLevel,
         imageCount: options?.images?.length ?? 0,
       }, "Prompting agent");
+      const preferred = config.modelRegistry.get(activeModelKey);
+      attempt = { preferredKey: activeModelKey, preferredThinkingLevel: activeThinkingLevel, tried: new Set([activeModelKey]) };
+      deferredError = undefined;
       try {
-        await session.prompt(text, options?.images ? { images: options.images } : undefined);
+        routePrompt(text, options?.images?.length ?? 0);
+        if (!attempt.routedKey && preferred && providerHealth.isCoolingDown(preferred)) {
+          const next = nextFallback();
+          if (next) await switchToFallback(next, providerHealth.get(preferred)?.lastError ?? "cooling down");
+        }
+
+        let replay = false;
+        for (;;) {
+          try {
+            if (replay) {
+              await replayTurn();
+            } else {
+              await session.prompt(text, options?.images ? { images: options.images } : undefined);
+            }
+            await settleEvents();
+          } catch (e: unknown) {
+            const errMsg = e instanceof Error ? e.message : String(e);
+            recordFailure(errMsg);
+            const next = isRecoverable(errMsg) ? nextFallback() : undefined;
+            if (next && (await switchToFallback(next, errMsg))) continue;
+            logger.error({ err: e }, "Prompt error");
+            callbacks.onError(errMsg);
+            return;
+          }
+
+          if (!deferredError) break;
+          const error = deferredError;
+          deferredError = undefined;
+          const next = nextFallback();
+          if (!next || !(await switchToFallback(next, error))) {
+            callbacks.onAgentEnd(error);
+            break;
+          }
+          replay = true;
+        }
         logger.info("Prompt completed");
-      } catch (e: unknown) {
-        const errMsg = e instanceof Error ? e.message : String(e);
-        const isRecoverable = /403|401|429|5\d\d|timeout|ECONNREFUSED|ENOTFOUND|fetch failed/i.test(errMsg);
-        if (isRecoverable && tryFallbackToDefault(errMsg)) {
-          return;
+      } finally {
+        // Routing and fallbacks only last for this prompt; the next one starts from the chosen model
+        const { preferredKey, preferredThinkingLevel } = attempt;
+        attempt = null;
+        if (activeModelKey !== preferredKey) {
+          try {
+            applyModel(preferredKey, preferredThinkingLevel);
+          } catch (e) {
+            logger.error({ err: e }, "Failed to restore model after fallback");
+          }
         }
-        logger.error({ err: e }, "Prompt error");
-        callbacks.onError(errMsg);
       }
     },
 
@@ -284,10 +486,16 @@ export async function createManagedSession(opts: CreateSessionOptions): Promise<
 
     setThinkingLevel(level: ThinkingLevel) {
       activeThinkingLevel = level;
+      if (attempt) attempt.preferredThinkingLevel = level;
       session.setThinkingLevel(level);
       logger.info({ thinkingLevel: level }, "Thinking level set");
     },
 
+    setAutoRouting(on: boolean) {
+      autoRouting = on;
+      logger.info({ autoRouting: on }, "Auto routing set");
+    },
+
     async switchSession(sessionPath: string) {
       await session.switchSession(sessionPath);
       reapplyModel();
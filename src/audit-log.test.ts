@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, test } from "bun:test";
+import { appendFileSync, mkdtempSync, readFileSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { AuditLog, type AuditEntry } from "./audit-log.js";
+
+const entry = (tool: string): AuditEntry => ({
+  conversation: "1:0",
+  user: "alice",
+  tool,
+  args: { command: "ls" },
+  verdict: "allow",
+  decision: "auto",
+  approver: null,
+  status: "ok",
+  durationMs: 5,
+});
+
+describe("AuditLog", () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), "audit-"));
+    file = join(dir, "audit.jsonl");
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test("continues the chain across restarts and detects edits", () => {
+    new AuditLog(file).append(entry("bash"));
+    const log = new AuditLog(file);
+    expect(log.append(entry("read")).seq).toBe(2);
+    expect(log.verify()).toEqual({ records: 2, brokenAt: null, unreadable: false });
+
+    writeFileSync(file, readFileSync(file, "utf-8").replace('"tool":"bash"', '"tool":"edit"'));
+    expect(log.verify()).toMatchObject({ brokenAt: 1, unreadable: false });
+  });
+
+  test("continues from the last intact record after a write cut short", () => {
+    const log = new AuditLog(file);
+    log.append(entry("bash"));
+    const second = log.append(entry("read"));
+    appendFileSync(file, '{"seq":3,"ts":"2026-');
+
+    const reopened = new AuditLog(file);
+    const next = reopened.append(entry("write"));
+    expect(next.seq).toBe(3);
+    expect(next.prevHash).toBe(second.hash);
+
+    // The new record starts its own line, and the damaged one is reported rather than hidden
+    expect(readFileSync(file, "utf-8").split("\n").at(-2)).toBe(JSON.stringify(next));
+    expect(reopened.readAll().map((r) => r.seq)).toEqual([1, 2, 3]);
+    expect(reopened.verify()).toEqual({ records: 3, brokenAt: 3, unreadable: true });
+  });
+});
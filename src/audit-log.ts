@@ -0,0 +1,221 @@
+/**
+ * Append-only audit log of agent tool calls.
+ *
+ * One JSONL record per tool call. Every record carries the hash of the
+ * previous one and its own hash over (previous hash + record), so editing,
+ * reordering or deleting a line breaks the chain from that point on.
+ */
+
+import { appendFileSync, existsSync, mkdirSync, readFileSync } from "node:fs";
+import { createHash } from "node:crypto";
+import { dirname } from "node:path";
+
+export type AuditDecision =
+  /** Allowed by a rule or the default mode, no prompt */
+  | "auto"
+  | "approved"
+  | "approved-edited"
+  | "denied"
+  | "timeout"
+  /** Session ended while the prompt was open */
+  | "cancelled"
+  /** Blocked by a deny rule or the default mode, no prompt */
+  | "blocked";
+
+export type AuditStatus = "ok" | "error" | "not-run";
+
+export interface AuditEntry {
+  /** Conversation key (`chatId:threadId`) */
+  conversation: string;
+  /** User whose message started the agent turn */
+  user: string | null;
+  tool: string;
+  /** Arguments with secrets redacted and long values truncated */
+  args: unknown;
+  /** Permission evaluation result before any prompt */
+  verdict: "allow" | "ask" | "deny";
+  decision: AuditDecision;
+  /** User who answered the authorization prompt */
+  approver: string | null;
+  status: AuditStatus;
+  durationMs: number;
+  error?: string;
+}
+
+export interface AuditRecord extends AuditEntry {
+  seq: number;
+  ts: string;
+  prevHash: string;
+  hash: string;
+}
+
+const GENESIS_HASH = "0".repeat(64);
+
+const SECRET_KEY_RE = /token|secret|passw(or)?d|api[_-]?key|authorization|cookie|credential|private[_-]?key/i;
+
+const SECRET_VALUE_PATTERNS: Array<[RegExp, string]> = [
+  [/\b(sk|rk|pk)-[A-Za-z0-9_-]{16,}/g, "$1-[REDACTED]"],
+  [/\b(ghp|gho|ghu|ghs|github_pat)_[A-Za-z0-9_]{16,}/g, "$1_[REDACTED]"],
+  [/\bAKIA[0-9A-Z]{16}\b/g, "AKIA[REDACTED]"],
+  [/\b(Bearer|Basic)\s+[A-Za-z0-9._~+/=-]{8,}/gi, "$1 [REDACTED]"],
+  [/\b([A-Z0-9_]*(?:TOKEN|SECRET|PASSWORD|PASSWD|API_KEY|APIKEY)[A-Z0-9_]*)=("[^"]*"|'[^']*'|\S+)/gi, "$1=[REDACTED]"],
+  [/(--?(?:password|passwd|token|secret|api-key)[= ])("[^"]*"|'[^']*'|\S+)/gi, "$1[REDACTED]"],
+  [/(:\/\/[^:/\s]+:)[^@\s]+@/g, "$1[REDACTED]@"],
+];
+
+const MAX_VALUE_CHARS = 500;
+
+function redactString(value: string): string {
+  let out = value;
+  for (const [pattern, replacement] of SECRET_VALUE_PATTERNS) {
+    out = out.replace(pattern, replacement);
+  }
+  if (out.length > MAX_VALUE_CHARS) {
+    out = `${out.slice(0, MAX_VALUE_CHARS)}… (${value.length} chars)`;
+  }
+  return out;
+}
+
+/**
+ * Copy tool arguments with secret-looking keys and values redacted
+ */
+export function redactArgs(value: unknown, depth = 0): unknown {
+  if (typeof value === "string") return redactString(value);
+  if (depth > 5 || value === null || typeof value !== "object") return value;
+  if (Array.isArray(value)) return value.map((v) => redactArgs(v, depth + 1));
+
+  const out: Record<string, unknown> = {};
+  for (const [key, v] of Object.entries(value)) {
+    out[key] = SECRET_KEY_RE.test(key) ? "[REDACTED]" : redactArgs(v, depth + 1);
+  }
+  return out;
+}
+
+function hashRecord(prevHash: string, record: Omit<AuditRecord, "hash">): string {
+  return createHash("sha256").update(prevHash).update("\n").update(JSON.stringify(record)).digest("hex");
+}
+
+/** A parsed line, or null when it isn't a record (e.g. a write cut short by a crash) */
+function parseRecord(line: string): AuditRecord | null {
+  try {
+    const record = JSON.parse(line) as AuditRecord;
+    return typeof record?.seq === "number" && typeof record.hash === "string" ? record : null;
+  } catch {
+    return null;
+  }
+}
+
+export class AuditLog {
+  private filePath: string;
+  private lastSeq = 0;
+  private lastHash = GENESIS_HASH;
+  /** The file doesn't end in a newline, so the next record must start a new line */
+  private unterminated = false;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.loadTail();
+  }
+
+  /**
+   * Pick up the chain where the file left off. Unreadable lines at the end
+   * are skipped, so the chain continues from the last intact record and
+   * `verify()` reports the damage.
+   */
+  private loadTail(): void {
+    try {
+      if (!existsSync(this.filePath)) return;
+      const text = readFileSync(this.filePath, "utf-8");
+      this.unterminated = text.length > 0 && !text.endsWith("\n");
+      const lines = this.parseLines(text);
+      let last = lines.length - 1;
+      while (last >= 0 && !lines[last]) last--;
+      const record = lines[last];
+      if (last < lines.length - 1) {
+        console.error(
+          `Audit log ${this.filePath} ends with ${lines.length - 1 - last} unreadable line(s); ` +
+            (record ? `continuing the chain from #${record.seq}` : "no intact record, starting a new chain"),
+        );
+      }
+      if (!record) return;
+      this.lastSeq = record.seq;
+      this.lastHash = record.hash;
+    } catch (e) {
+      console.error(`Failed to read audit log ${this.filePath}:`, e);
+    }
+  }
+
+  private parseLines(text: string): Array<AuditRecord | null> {
+    return text
+      .split("\n")
+      .filter((line) => line.trim())
+      .map(parseRecord);
+  }
+
+  /** Append a record, chained to the previous one */
+  append(entry: AuditEntry): AuditRecord {
+    const unsigned: Omit<AuditRecord, "hash"> = {
+      seq: this.lastSeq + 1,
+      ts: new Date().toISOString(),
+      ...entry,
+      args: redactArgs(entry.args),
+      prevHash: this.lastHash,
+    };
+    const record: AuditRecord = { ...unsigned, hash: hashRecord(this.lastHash, unsigned) };
+
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      appendFileSync(this.filePath, (this.unterminated ? "\n" : "") + JSON.stringify(record) + "\n", "utf-8");
+      this.unterminated = false;
+      this.lastSeq = record.seq;
+      this.lastHash = record.hash;
+    } catch (e) {
+      console.error(`Failed to append audit record to ${this.filePath}:`, e);
+    }
+    return record;
+  }
+
+  /** Every line in order, null where a line can't be read */
+  private readLines(): Array<AuditRecord | null> {
+    try {
+      if (!existsSync(this.filePath)) return [];
+      return this.parseLines(readFileSync(this.filePath, "utf-8"));
+    } catch (e) {
+      console.error(`Failed to read audit log ${this.filePath}:`, e);
+      return [];
+    }
+  }
+
+  /** Read all readable records in order */
+  readAll(): AuditRecord[] {
+    return this.readLines().filter((record): record is AuditRecord => record !== null);
+  }
+
+  /** The last `limit` records, optionally only for one tool, newest first */
+  recent(limit: number, tool?: string): AuditRecord[] {
+    const records = this.readAll().filter((r) => !tool || r.tool === tool.toLowerCase());
+    return records.slice(-limit).reverse();
+  }
+
+  /**
+   * Recompute the chain. Returns the seq of the first record whose hash or
+   * link doesn't match, or null if the whole log is intact. An unreadable
+   * line breaks the chain too (`unreadable`), at the seq it would have had.
+   */
+  verify(): { records: number; brokenAt: number | null; unreadable: boolean } {
+    const lines = this.readLines();
+    const records = lines.filter((record) => record !== null).length;
+    let prevHash = GENESIS_HASH;
+    let prevSeq = 0;
+    for (const record of lines) {
+      if (!record) return { records, brokenAt: prevSeq + 1, unreadable: true };
+      const { hash, ...unsigned } = record;
+      if (record.prevHash !== prevHash || hashRecord(prevHash, unsigned) !== hash) {
+        return { records, brokenAt: record.seq, unreadable: false };
+      }
+      prevHash = hash;
+      prevSeq = record.seq;
+    }
+    return { records, brokenAt: null, unreadable: false };
+  }
+}
@@ -2,17 +2,119 @@
  * Persistent auth store with owner pairing and allowed users list.
  *
  * On first /start, the sender becomes the owner. The owner can then
- * add/remove allowed users. Config is stored as JSON and hot-reloaded
- * on every check so edits to the file take effect immediately.
+ * add/remove allowed users, give them a role and link accounts of the same
+ * person across platforms. Admins can also hand out invite codes that add
+ * whoever redeems them with `/start CODE`, and choose which group chats the
+ * bot works in. Config is stored as JSON and hot-reloaded on every check so
+ * edits to the file take effect immediately.
  */
 
 import { readFileSync, writeFileSync, existsSync, mkdirSync, watch, renameSync } from "node:fs";
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto";
 import { dirname, basename } from "node:path";
+import type { Platform } from "./im/types.js";
+
+/**
+ * Access level of a user, lowest first:
+ * - viewer: chat with the agent, read-only commands
+ * - operator: also approve tool calls, switch models, drive tmux and sessions
+ * - admin: also change permissions, kill tmux sessions, reset, manage users
+ * - owner: everything, including the audit log
+ */
+export type Role = "viewer" | "operator" | "admin" | "owner";
+
+export const ROLES: readonly Role[] = ["viewer", "operator", "admin", "owner"];
+
+/** Role given to allowed users without an entry in `roles` */
+export const DEFAULT_ROLE: Exclude<Role, "owner"> = "operator";
+
+/** Whether `role` grants at least the access of `required` */
+export function hasRole(role: Role, required: Role): boolean {
+  return ROLES.indexOf(role) >= ROLES.indexOf(required);
+}
+
+export function isRole(value: string): value is Role {
+  return (ROLES as readonly string[]).includes(value);
+}
+
+const PLATFORMS: readonly Platform[] = ["telegram", "wxwork"];
+
+/**
+ * A user identity is `platform:userId`, e.g. `telegram:123456789` or
+ * `wxwork:ZhangSan`, so IDs from different platforms never collide.
+ */
+export function identityOf(user: { platform: Platform; userId: string }): string {
+  return `${user.platform}:${user.userId}`;
+}
+
+/**
+ * Parse a user-typed identity. A bare ID is taken to be on `defaultPlatform`.
+ * Returns null for an unknown platform or an empty ID.
+ */
+export function parseIdentity(input: string, defaultPlatform: Platform): string | null {
+  const trimmed = input.trim();
+  const sep = trimmed.indexOf(":");
+  const platform = sep === -1 ? defaultPlatform : trimmed.slice(0, sep).toLowerCase();
+  const userId = sep === -1 ? trimmed : trimmed.slice(sep + 1);
+  if (!PLATFORMS.includes(platform as Platform) || !userId || /\s/.test(userId)) return null;
+  return `${platform}:${userId}`;
+}
+
+/**
+ * A group chat is `platform:chatId`, in the same form as user identities
+ */
+export function chatIdOf(convo: { platform: Platform; conversationId: string }): string {
+  return `${convo.platform}:${convo.conversationId}`;
+}
+
+/**
+ * Which group messages the bot answers: every message, or only those that
+ * @mention it or reply to it. Commands are always handled.
+ */
+export type ChatPolicy = "all" | "mentions";
+
+export const CHAT_POLICIES: readonly ChatPolicy[] = ["all", "mentions"];
+
+export interface AllowedChat {
+  policy: ChatPolicy;
+  title?: string;
+  addedBy: string;
+  addedAt: string;
+}
+
+/**
+ * An outstanding invite. The code handed out is the ID followed by an HMAC
+ * of the ID, role and expiry, so a code can't be guessed from the ID and an
+ * invite edited in the file stops working.
+ */
+export interface Invite {
+  role: Exclude<Role, "owner">;
+  createdBy: string;
+  createdAt: string;
+  expiresAt: string;
+  usesLeft: number;
+  /** Identities that redeemed it so far */
+  usedBy: string[];
+}
+
+const INVITE_ID_BYTES = 4;
+const INVITE_SIG_CHARS = 16;
 
 export interface AuthData {
-  ownerId: number | null;
+  /** Identities are `platform:userId` strings (see identityOf) */
+  ownerId: string | null;
   ownerUsername: string | null;
-  allowedUserIds: number[];
+  allowedUserIds: string[];
+  /** Role per allowed identity; missing entries get DEFAULT_ROLE */
+  roles: Record<string, Exclude<Role, "owner">>;
+  /** Linked account -> the identity it acts as (same person, other platform) */
+  links: Record<string, string>;
+  /** Outstanding invites by ID */
+  invites: Record<string, Invite>;
+  /** Key for signing invite codes, created with the first invite */
+  inviteSecret: string | null;
+  /** Group chats the bot may work in (see chatIdOf); direct chats need no entry */
+  chats: Record<string, AllowedChat>;
   pairedAt: string | null;
 }
 
@@ -20,15 +122,23 @@ const DEFAULT_AUTH: AuthData = {
   ownerId: null,
   ownerUsername: null,
   allowedUserIds: [],
+  roles: {},
+  links: {},
+  invites: {},
+  inviteSecret: null,
+  chats: {},
   pairedAt: null,
 };
 
 export class AuthStore {
   private filePath: string;
+  /** Platform assumed for bare numeric IDs in files written before identities */
+  private legacyPlatform: Platform;
   private data: AuthData;
 
-  constructor(filePath: string) {
+  constructor(filePath: string, legacyPlatform: Platform = "telegram") {
     this.filePath = filePath;
+    this.legacyPlatform = legacyPlatform;
     this.data = this.load();
     this.watchFile();
   }
@@ -36,8 +146,14 @@ export class AuthStore {
   private load(): AuthData {
     try {
       if (existsSync(this.filePath)) {
-        const raw = readFileSync(this.filePath, "utf-8");
-        return { ...DEFAULT_AUTH, ...JSON.parse(raw) };
+        const raw = JSON.parse(readFileSync(this.filePath, "utf-8"));
+        const { data, migrated } = this.migrate({ ...DEFAULT_AUTH, ...raw });
+        if (migrated) {
+          this.data = data;
+          this.save();
+          console.log(`Auth file migrated to ${this.legacyPlatform}:<id> identities`);
+        }
+        return data;
       }
     } catch (e) {
       console.error(`Failed to load auth file ${this.filePath}:`, e);
@@ -45,6 +161,35 @@ export class AuthStore {
     return { ...DEFAULT_AUTH };
   }
 
+  /**
+   * Rewrite bare numeric IDs from older auth files as `platform:id`
+   */
+  private migrate(data: AuthData): { data: AuthData; migrated: boolean } {
+    let migrated = false;
+    const qualify = (id: unknown): string => {
+      const str = String(id);
+      if (str.includes(":")) return str;
+      migrated = true;
+      return `${this.legacyPlatform}:${str}`;
+    };
+
+    const roles: AuthData["roles"] = {};
+    for (const [id, role] of Object.entries(data.roles ?? {})) roles[qualify(id)] = role;
+    const links: AuthData["links"] = {};
+    for (const [alias, target] of Object.entries(data.links ?? {})) links[qualify(alias)] = qualify(target);
+
+    return {
+      data: {
+        ...data,
+        ownerId: data.ownerId === null ? null : qualify(data.ownerId),
+        allowedUserIds: (data.allowedUserIds ?? []).map(qualify),
+        roles,
+        links,
+      },
+      migrated,
+    };
+  }
+
   private save(): void {
     try {
       const dir = dirname(this.filePath);
@@ -78,53 +223,253 @@ export class AuthStore {
     this.data = this.load();
   }
 
+  /** The identity a linked account acts as, or the identity itself */
+  resolve(identity: string): string {
+    return this.data.links[identity] ?? identity;
+  }
+
   /** Whether any owner has been paired yet */
   isPaired(): boolean {
     return this.data.ownerId !== null;
   }
 
   /** Pair the first user as owner. Returns false if already paired. */
-  pair(userId: number, username?: string): boolean {
+  pair(identity: string, username?: string): boolean {
     if (this.data.ownerId !== null) return false;
-    this.data.ownerId = userId;
+    this.data.ownerId = identity;
     this.data.ownerUsername = username ?? null;
-    this.data.allowedUserIds = [userId];
+    this.data.allowedUserIds = [identity];
+    this.data.roles = {};
+    this.data.links = {};
+    this.data.invites = {};
+    this.data.chats = {};
     this.data.pairedAt = new Date().toISOString();
     this.save();
-    console.log(`Owner paired: ${userId} (@${username ?? "unknown"})`);
+    console.log(`Owner paired: ${identity} (@${username ?? "unknown"})`);
     return true;
   }
 
-  /** Check if a user is the owner */
-  isOwner(userId: number): boolean {
-    return this.data.ownerId === userId;
+  /** Check if a user (or the account it is linked to) is the owner */
+  isOwner(identity: string): boolean {
+    return this.data.ownerId !== null && this.data.ownerId === this.resolve(identity);
   }
 
-  /** Check if a user is authorized (owner or in allowed list) */
-  isAuthorized(userId: number): boolean {
+  /** Check if a user is authorized (owner or in allowed list, directly or via a link) */
+  isAuthorized(identity: string): boolean {
     if (!this.isPaired()) return false;
-    if (this.data.ownerId === userId) return true;
-    return this.data.allowedUserIds.includes(userId);
+    const resolved = this.resolve(identity);
+    if (this.data.ownerId === resolved) return true;
+    return this.data.allowedUserIds.includes(resolved);
+  }
+
+  /** Role of an authorized user, or null if the user is not authorized */
+  getRole(identity: string): Role | null {
+    if (!this.isAuthorized(identity)) return null;
+    const resolved = this.resolve(identity);
+    if (this.data.ownerId === resolved) return "owner";
+    // The file may be edited by hand, so don't trust the stored value
+    const role: string | undefined = this.data.roles[resolved];
+    return role && isRole(role) && role !== "owner" ? role : DEFAULT_ROLE;
+  }
+
+  /** Add an allowed user. Returns false if already allowed or linked. */
+  addUser(identity: string, role: Exclude<Role, "owner"> = DEFAULT_ROLE): boolean {
+    if (this.isAuthorized(identity)) return false;
+    this.data.allowedUserIds.push(identity);
+    this.data.roles = { ...this.data.roles, [identity]: role };
+    this.save();
+    return true;
   }
 
-  /** Add an allowed user (owner only). Returns false if already allowed. */
-  addUser(userId: number): boolean {
-    if (this.data.allowedUserIds.includes(userId)) return false;
-    this.data.allowedUserIds.push(userId);
+  /** Change the role of an allowed user. Returns false for the owner or unknown users. */
+  setRole(identity: string, role: Exclude<Role, "owner">): boolean {
+    const resolved = this.resolve(identity);
+    if (resolved === this.data.ownerId || !this.data.allowedUserIds.includes(resolved)) return false;
+    this.data.roles = { ...this.data.roles, [resolved]: role };
     this.save();
     return true;
   }
 
-  /** Remove an allowed user (owner only). Cannot remove the owner. */
-  removeUser(userId: number): boolean {
-    if (userId === this.data.ownerId) return false;
-    const idx = this.data.allowedUserIds.indexOf(userId);
+  /** Remove an allowed user and the accounts linked to it. Cannot remove the owner. */
+  removeUser(identity: string): boolean {
+    if (identity === this.data.ownerId) return false;
+    const idx = this.data.allowedUserIds.indexOf(identity);
     if (idx === -1) return false;
     this.data.allowedUserIds.splice(idx, 1);
+    const { [identity]: _removed, ...roles } = this.data.roles;
+    this.data.roles = roles;
+    this.data.links = Object.fromEntries(
+      Object.entries(this.data.links).filter(([, target]) => target !== identity),
+    );
     this.save();
     return true;
   }
 
+  /**
+   * Link `alias` (another platform account of the same person) to an
+   * authorized identity, so it gets the same access. Returns false if the
+   * target isn't authorized, or `alias` is already allowed in its own right
+   * or linked to someone else; it has to be unlinked before it is re-pointed.
+   */
+  link(alias: string, target: string): boolean {
+    const resolved = this.resolve(target);
+    if (alias === resolved || !this.isAuthorized(resolved)) return false;
+    if (alias === this.data.ownerId || this.data.allowedUserIds.includes(alias)) return false;
+    if (alias in this.data.links && this.data.links[alias] !== resolved) return false;
+    this.data.links = { ...this.data.links, [alias]: resolved };
+    this.save();
+    return true;
+  }
+
+  /** Remove a link. Returns false if `alias` wasn't linked. */
+  unlink(alias: string): boolean {
+    if (!(alias in this.data.links)) return false;
+    const { [alias]: _removed, ...links } = this.data.links;
+    this.data.links = links;
+    this.save();
+    return true;
+  }
+
+  /** Accounts linked to an identity */
+  linkedTo(identity: string): string[] {
+    return Object.entries(this.data.links)
+      .filter(([, target]) => target === identity)
+      .map(([alias]) => alias);
+  }
+
+  /**
+   * Create an invite that adds up to `uses` users with `role` until it
+   * expires. Returns the code to hand out.
+   */
+  createInvite(
+    role: Exclude<Role, "owner">,
+    ttlMs: number,
+    uses: number,
+    createdBy: string,
+  ): { id: string; code: string; invite: Invite } {
+    this.pruneInvites();
+    const id = randomBytes(INVITE_ID_BYTES).toString("hex");
+    const now = Date.now();
+    const invite: Invite = {
+      role,
+      createdBy,
+      createdAt: new Date(now).toISOString(),
+      expiresAt: new Date(now + ttlMs).toISOString(),
+      usesLeft: uses,
+      usedBy: [],
+    };
+    this.data.invites = { ...this.data.invites, [id]: invite };
+    this.save();
+    return { id, code: id + this.signInvite(id, invite), invite };
+  }
+
+  /**
+   * Add `identity` with the role of the invite behind `code`. Returns the
+   * role, or null if the code is unknown, forged, expired or used up.
+   */
+  redeemInvite(code: string, identity: string): Exclude<Role, "owner"> | null {
+    this.pruneInvites();
+    const found = this.getInvite(code);
+    if (!found) return null;
+    const { id, invite } = found;
+    const given = Buffer.from(code.slice(id.length).toLowerCase());
+    const expected = Buffer.from(this.signInvite(id, invite));
+    if (given.length !== expected.length || !timingSafeEqual(given, expected)) return null;
+    if (!this.addUser(identity, invite.role)) return null;
+
+    const usesLeft = invite.usesLeft - 1;
+    if (usesLeft > 0) {
+      this.data.invites = { ...this.data.invites, [id]: { ...invite, usesLeft, usedBy: [...invite.usedBy, identity] } };
+    } else {
+      const { [id]: _used, ...invites } = this.data.invites;
+      this.data.invites = invites;
+    }
+    this.save();
+    console.log(`Invite ${id} redeemed by ${identity} (${invite.role})`);
+    return invite.role;
+  }
+
+  /** Outstanding invites, oldest first */
+  listInvites(): Array<{ id: string; invite: Invite }> {
+    this.pruneInvites();
+    return Object.entries(this.data.invites)
+      .map(([id, invite]) => ({ id, invite }))
+      .sort((a, b) => a.invite.createdAt.localeCompare(b.invite.createdAt));
+  }
+
+  /** Look up an outstanding invite by ID or full code */
+  getInvite(idOrCode: string): { id: string; invite: Invite } | null {
+    const id = idOrCode.slice(0, INVITE_ID_BYTES * 2).toLowerCase();
+    return Object.hasOwn(this.data.invites, id) ? { id, invite: this.data.invites[id] } : null;
+  }
+
+  /** Revoke an invite by ID or full code. Returns false if it doesn't exist. */
+  revokeInvite(idOrCode: string): boolean {
+    const found = this.getInvite(idOrCode);
+    if (!found) return false;
+    const { [found.id]: _revoked, ...invites } = this.data.invites;
+    this.data.invites = invites;
+    this.save();
+    return true;
+  }
+
+  private signInvite(id: string, invite: Invite): string {
+    if (!this.data.inviteSecret) {
+      this.data.inviteSecret = randomBytes(32).toString("hex");
+      this.save();
+    }
+    return createHmac("sha256", this.data.inviteSecret)
+      .update(`${id}:${invite.role}:${invite.expiresAt}`)
+      .digest("hex")
+      .slice(0, INVITE_SIG_CHARS);
+  }
+
+  /** Drop expired invites */
+  private pruneInvites(): void {
+    const now = new Date().toISOString();
+    const live = Object.entries(this.data.invites).filter(([, invite]) => invite.expiresAt > now);
+    if (live.length === Object.keys(this.data.invites).length) return;
+    this.data.invites = Object.fromEntries(live);
+    this.save();
+  }
+
+  /** Settings of an allowed group chat, or null if it isn't allowed */
+  getChat(chatId: string): AllowedChat | null {
+    return Object.hasOwn(this.data.chats, chatId) ? this.data.chats[chatId] : null;
+  }
+
+  isChatAllowed(chatId: string): boolean {
+    return this.getChat(chatId) !== null;
+  }
+
+  /** Allow a group chat, or change the policy of an allowed one */
+  allowChat(chatId: string, policy: ChatPolicy, addedBy: string, title?: string): void {
+    const existing = this.getChat(chatId);
+    this.data.chats = {
+      ...this.data.chats,
+      [chatId]: existing
+        ? { ...existing, policy, title: title ?? existing.title }
+        : { policy, title, addedBy, addedAt: new Date().toISOString() },
+    };
+    this.save();
+  }
+
+  /** Remove a group chat from the allowlist. Returns false if it wasn't allowed. */
+  removeChat(chatId: string): boolean {
+    if (!this.isChatAllowed(chatId)) return false;
+    const { [chatId]: _removed, ...chats } = this.data.chats;
+    this.data.chats = chats;
+    this.save();
+    return true;
+  }
+
+  /** Allowed group chats, oldest first */
+  listChats(): Array<{ chatId: string; chat: AllowedChat }> {
+    return Object.entries(this.data.chats)
+      .map(([chatId, chat]) => ({ chatId, chat }))
+      .sort((a, b) => a.chat.addedAt.localeCompare(b.chat.addedAt));
+  }
+
   /** Get a copy of the current auth data */
   getData(): Readonly<AuthData> {
     return { ...this.data };
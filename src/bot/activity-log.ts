@@ -0,0 +1,244 @@
+/**
+ * Per-turn activity panel for agent tool calls.
+ *
+ * Instead of one message per tool call, a single panel message is posted on
+ * the first tool of a turn and edited as tools start and finish. Older
+ * entries collapse into a count once the panel gets long. Platforms without
+ * message editing get periodic digests of finished tools instead.
+ */
+
+import type { Messenger } from "../im/messenger.js";
+import type { Formatter } from "../im/formatter.js";
+import type { ConversationRef } from "../im/types.js";
+import { createLogger, type Logger } from "../logger.js";
+
+type ActivityStatus = "running" | "ok" | "failed";
+
+interface ActivityEntry {
+  id: string;
+  toolName: string;
+  /** Pre-formatted description, e.g. "💻 Running: npm test" */
+  description: string;
+  status: ActivityStatus;
+  startedAt: number;
+  endedAt?: number;
+  error?: string;
+}
+
+export interface ActivityLogOptions {
+  /** Minimum interval between panel edits. */
+  editIntervalMs?: number;
+  /** Interval between digests on platforms without editing. */
+  digestIntervalMs?: number;
+  /** Entries shown before older ones are collapsed into a count. */
+  maxVisible?: number;
+  /** Runs before the panel is first posted, e.g. to seal streamed text. */
+  beforePost?: () => Promise<void>;
+}
+
+const STATUS_ICONS: Record<ActivityStatus, string> = {
+  running: "⏳",
+  ok: "✅",
+  failed: "❌",
+};
+
+export function formatElapsed(ms: number): string {
+  const seconds = ms / 1000;
+  if (seconds < 60) return `${seconds.toFixed(1)}s`;
+  const minutes = Math.floor(seconds / 60);
+  return `${minutes}m${String(Math.floor(seconds % 60)).padStart(2, "0")}s`;
+}
+
+export class ActivityLog {
+  private messenger: Messenger;
+  private fmt: Formatter;
+  private convo: ConversationRef;
+  private editIntervalMs: number;
+  private digestIntervalMs: number;
+  private maxVisible: number;
+  private beforePost?: () => Promise<void>;
+  private logger: Logger;
+
+  private entries: ActivityEntry[] = [];
+  private turnStartedAt = 0;
+  private panelRef: string | null = null;
+  private lastRendered = "";
+  /** Number of entries already included in a digest (no-edit platforms). */
+  private digested = 0;
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private chain: Promise<void> = Promise.resolve();
+
+  constructor(messenger: Messenger, fmt: Formatter, convo: ConversationRef, opts: ActivityLogOptions = {}) {
+    this.messenger = messenger;
+    this.fmt = fmt;
+    this.convo = convo;
+    this.editIntervalMs = opts.editIntervalMs ?? 1000;
+    this.digestIntervalMs = opts.digestIntervalMs ?? 30_000;
+    this.maxVisible = opts.maxVisible ?? 12;
+    this.beforePost = opts.beforePost;
+    this.logger = createLogger({ component: "activity-log", conversationId: convo.conversationId });
+  }
+
+  private get canEdit(): boolean {
+    return this.messenger.capabilities.supportsEdit && !!this.messenger.edit;
+  }
+
+  /** Begin a new turn: the next tool call opens a fresh panel. */
+  start(): void {
+    this.reset();
+    this.turnStartedAt = Date.now();
+  }
+
+  toolStarted(id: string, toolName: string, description: string): void {
+    this.entries.push({ id, toolName, description, status: "running", startedAt: Date.now() });
+
+    if (!this.canEdit) {
+      this.schedule(this.digestIntervalMs);
+    } else if (!this.panelRef && this.entries.length === 1) {
+      this.enqueue(() => this.postPanel());
+    } else {
+      this.schedule(this.editIntervalMs);
+    }
+  }
+
+  toolEnded(id: string | undefined, toolName: string, isError: boolean, error?: string): void {
+    const entry =
+      (id && this.entries.find((e) => e.id === id)) ||
+      this.entries.find((e) => e.status === "running" && e.toolName === toolName);
+    if (!entry) return;
+
+    entry.status = isError ? "failed" : "ok";
+    entry.endedAt = Date.now();
+    entry.error = error;
+    this.schedule(this.canEdit ? this.editIntervalMs : this.digestIntervalMs);
+  }
+
+  /** Flush the final state of the panel (or the last digest) for this turn. */
+  async finish(): Promise<void> {
+    this.clearTimer();
+    if (this.entries.length === 0) {
+      await this.chain;
+      return;
+    }
+    await this.enqueue(() => (this.canEdit ? this.updatePanel() : this.sendDigest(true)));
+    this.reset();
+  }
+
+  dispose(): void {
+    this.reset();
+  }
+
+  // ── Internals ──────────────────────────────────────────────────────
+
+  private reset(): void {
+    this.clearTimer();
+    this.entries = [];
+    this.panelRef = null;
+    this.lastRendered = "";
+    this.digested = 0;
+  }
+
+  private enqueue(fn: () => Promise<void>): Promise<void> {
+    this.chain = this.chain.then(fn).catch((err) => {
+      this.logger.warn({ err }, "Activity update failed");
+    });
+    return this.chain;
+  }
+
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private schedule(delayMs: number): void {
+    if (this.timer) return;
+    this.timer = setTimeout(() => {
+      this.timer = null;
+      this.enqueue(() => (this.canEdit ? this.updatePanel() : this.sendDigest(false)));
+    }, delayMs);
+  }
+
+  private async postPanel(): Promise<void> {
+    await this.beforePost?.();
+    const text = this.renderPanel();
+    const result = await this.messenger.send(this.convo, { type: "text", text });
+    this.panelRef = result.messageRef ?? null;
+    this.lastRendered = text;
+  }
+
+  private async updatePanel(): Promise<void> {
+    if (!this.panelRef) {
+      await this.postPanel();
+      return;
+    }
+    const text = this.renderPanel();
+    if (text === this.lastRendered) return;
+    try {
+      await this.messenger.edit!(this.convo, this.panelRef, { type: "text", text });
+      this.lastRendered = text;
+    } catch (err) {
+      // Panel can no longer be edited (deleted, too old): post a fresh one
+      this.logger.debug({ err }, "Panel edit failed, reposting");
+      this.panelRef = null;
+      await this.postPanel();
+    }
+  }
+
+  private async sendDigest(final: boolean): Promise<void> {
+    // Mid-turn digests only report finished tools, in order
+    let end = this.digested;
+    while (end < this.entries.length && (final || this.entries[end].status !== "running")) end++;
+    const batch = this.entries.slice(this.digested, end);
+    if (batch.length === 0) {
+      if (!final && this.entries.some((e) => e.status === "running")) this.schedule(this.digestIntervalMs);
+      return;
+    }
+    this.digested = end;
+
+    const lines = [`🛠 ${this.fmt.bold(`Activity (${end}/${this.entries.length})`)}`];
+    lines.push(...this.renderEntries(batch));
+    await this.messenger.send(this.convo, { type: "text", text: lines.join("\n") });
+
+    if (!final && this.digested < this.entries.length) this.schedule(this.digestIntervalMs);
+  }
+
+  private renderPanel(): string {
+    const done = this.entries.filter((e) => e.status !== "running").length;
+    const failed = this.entries.filter((e) => e.status === "failed").length;
+    const elapsed = formatElapsed(Date.now() - this.turnStartedAt);
+
+    const header = [
+      `🛠 ${this.fmt.bold("Activity")}`,
+      `${done}/${this.entries.length} done`,
+      failed > 0 ? `${failed} failed` : "",
+      elapsed,
+    ].filter(Boolean).join(" · ");
+
+    return [header, ...this.renderEntries(this.entries)].join("\n");
+  }
+
+  private renderEntries(entries: ActivityEntry[]): string[] {
+    const lines: string[] = [];
+    const hidden = Math.max(0, entries.length - this.maxVisible);
+
+    if (hidden > 0) {
+      const older = entries.slice(0, hidden);
+      const ok = older.filter((e) => e.status === "ok").length;
+      const failed = older.filter((e) => e.status === "failed").length;
+      const counts = [ok ? `${ok} ✅` : "", failed ? `${failed} ❌` : ""].filter(Boolean).join(", ");
+      lines.push(this.fmt.italic(`… ${hidden} earlier step${hidden === 1 ? "" : "s"}${counts ? ` (${counts})` : ""}`));
+    }
+
+    const now = Date.now();
+    for (const e of entries.slice(hidden)) {
+      const elapsed = formatElapsed((e.endedAt ?? now) - e.startedAt);
+      lines.push(`${STATUS_ICONS[e.status]} ${e.description} · ${this.fmt.escape(elapsed)}`);
+      if (e.status === "failed" && e.error) {
+        lines.push(`    ${this.fmt.code(e.error)}`);
+      }
+    }
+    return lines;
+  }
+}
@@ -8,16 +8,45 @@ import type { Formatter } from "../im/formatter.js";
 import type { StreamSink } from "../im/stream-sink.js";
 import type { ConversationRef, ImageData } from "../im/types.js";
 import type { Config } from "../config.js";
-import type { ManagedSession, AgentEventCallbacks } from "../agent/session.js";
+import type { ManagedSession, AgentEventCallbacks, AnswerReason } from "../agent/session.js";
 import { createManagedSession } from "../agent/session.js";
 import { createTmuxTools } from "../tmux/tools.js";
 import * as tmux from "../tmux/tmux.js";
 import { SessionManager, type ToolDefinition, type SessionInfo } from "@mariozechner/pi-coding-agent";
-import { mkdir } from "node:fs/promises";
-import type { ModelConfig, ThinkingLevel } from "../models.js";
+import { mkdir, stat } from "node:fs/promises";
+import { isAbsolute, join, resolve } from "node:path";
+import { findLiteralSecret, redactModelConfig, type ModelConfig, type ThinkingLevel } from "../models.js";
 import { TmuxHandler } from "./tmux-handler.js";
-import { ToolAuthorizer, type PermissionConfig, type PermissionMode } from "./permissions.js";
+import { ActivityLog } from "./activity-log.js";
+import { callbackRole, commandRole, MODEL_EDIT_SUBCOMMANDS, type Sender } from "./roles.js";
+import {
+  ToolAuthorizer,
+  formatRule,
+  parseAuthorizationReply,
+  parseToolCall,
+  type AuthorizationAction,
+  type PermissionConfig,
+  type PermissionExplanation,
+  type PermissionLevel,
+  type PermissionMode,
+} from "./permissions.js";
 import type { PermissionStore } from "../permissions-store.js";
+import type { AuditLog } from "../audit-log.js";
+import {
+  USAGE_PERIODS,
+  formatCost,
+  formatTokens,
+  type UsagePeriod,
+  type UsageStore,
+  type UsageTotals,
+} from "../usage-store.js";
+import type { QuotaStore } from "../quota-store.js";
+import type { ConversationSettings, ConversationSettingsStore } from "../conversation-settings-store.js";
+import { expandHome, type ProjectConfig, type ProjectStore } from "../project-store.js";
+import * as worktrees from "../git/worktree.js";
+import { isHealthy, type ModelChecker, type ModelCheckResult } from "../agent/model-check.js";
+import { providerHealth } from "../agent/provider-health.js";
+import { hasRole, type Role } from "../auth.js";
 import { createLogger, type Logger } from "../logger.js";
 
 export class ChatController {
@@ -26,20 +55,42 @@ export class ChatController {
   private convo: ConversationRef;
   private config: Config;
   private permissions: PermissionStore;
+  private audit: AuditLog;
+  private usage: UsageStore;
+  private quotas: QuotaStore;
+  private modelChecker: ModelChecker;
+  private settings: ConversationSettingsStore;
+  private projects: ProjectStore;
   private managed: ManagedSession | null = null;
   private logger: Logger;
 
   private streamSink: StreamSink;
+  private activityLog: ActivityLog;
   private tmuxHandler: TmuxHandler;
   private toolAuthorizer: ToolAuthorizer;
 
+  /** Agent working directory: `/cd`, else the bound project's dir, else AGENT_CWD */
+  private cwd: string;
+  private tmuxSocket: string;
+
   private isAgentRunning = false;
-  private pendingInput: string | null = null;
+  private pendingInput: { text: string; sender: Sender } | null = null;
+  /** Model that answered the current turn when it isn't the chosen one (or auto routing is on), noted under the reply */
+  private answeredBy: { label: string; reason?: AnswerReason } | null = null;
+  /** Forward reasoning deltas to the stream sink (/thinking show|hide). */
+  private showThinking = false;
+  /** User whose message the agent is working on, for the audit log. */
+  private requester: string | null = null;
+  /** The user the requester acts as; usage is recorded against it so it counts towards their quota */
+  private requesterUser: string | null = null;
+  /** When recent prompts were sent, for the per-minute rate limit. */
+  private promptTimes: number[] = [];
 
   private sessionIndex = new Map<string, SessionInfo>();
   private sessionListOffset = 0;
 
   private static readonly SESSIONS_PAGE_SIZE = 8;
+  private static readonly USAGE_TOP_ENTRIES = 10;
 
   constructor(
     messenger: Messenger,
@@ -48,12 +99,24 @@ export class ChatController {
     config: Config,
     createStreamSink: (convo: ConversationRef) => StreamSink,
     permissions: PermissionStore,
+    audit: AuditLog,
+    usage: UsageStore,
+    quotas: QuotaStore,
+    modelChecker: ModelChecker,
+    settings: ConversationSettingsStore,
+    projects: ProjectStore,
   ) {
     this.messenger = messenger;
     this.fmt = fmt;
     this.convo = convo;
     this.config = config;
     this.permissions = permissions;
+    this.audit = audit;
+    this.usage = usage;
+    this.quotas = quotas;
+    this.modelChecker = modelChecker;
+    this.settings = settings;
+    this.projects = projects;
     this.logger = createLogger({
       component: "controller",
       conversationId: convo.conversationId,
@@ -61,23 +124,74 @@ export class ChatController {
     });
 
     this.streamSink = createStreamSink(convo);
-    this.tmuxHandler = new TmuxHandler(messenger, fmt, convo, config.tmuxDefaultSocket, config.tmuxSocketDir);
+    this.activityLog = new ActivityLog(messenger, fmt, convo, {
+      beforePost: () => this.streamSink.seal(),
+    });
+
+    // Settings chosen before the controller was last disposed or the bot restarted
+    const saved = this.settings.get(this.conversationKey);
+    ({ cwd: this.cwd, tmuxSocket: this.tmuxSocket } = this.resolveBinding());
+    this.showThinking = saved.showThinking ?? false;
+
+    this.tmuxHandler = new TmuxHandler(messenger, fmt, convo, this.tmuxSocket, config.tmuxSocketDir, () =>
+      this.saveSettings({
+        tmuxSession: this.tmuxHandler.selectedSession ?? undefined,
+        tmuxThread: this.tmuxHandler.isTmuxThread || undefined,
+      }),
+    );
+    this.tmuxHandler.restore(saved.tmuxSession ?? null, saved.tmuxThread ?? false);
 
     // Load permission config from store
     const permissionConfig = this.permissions.getConfig(this.conversationKey);
     this.logger.debug({ permissionConfig }, "ChatController created");
     this.toolAuthorizer = new ToolAuthorizer(messenger, fmt, convo, {
-      cwd: config.cwd,
+      cwd: this.cwd,
       timeoutMs: 5 * 60 * 1000, // 5 minutes
       config: permissionConfig,
+      onSaveRule: (level, rule) => this.saveRememberedRule(level, rule),
+      inherited: (extendsName) => this.permissions.getInherited(extendsName),
+      onToolCall: (call) => this.audit.append({ conversation: this.conversationKey, user: this.requester, ...call }),
     });
-    this.logger.debug({ mode: permissionConfig.defaultMode || "default" }, "ToolAuthorizer initialized");
+    this.logger.debug({ mode: this.toolAuthorizer.getEffectiveMode().mode, profile: permissionConfig.extends }, "ToolAuthorizer initialized");
   }
 
   private get conversationKey(): string {
     return `${this.convo.conversationId}:${this.convo.threadId ?? ""}`;
   }
 
+  private saveSettings(changes: Partial<ConversationSettings>): void {
+    this.settings.update(this.conversationKey, changes);
+  }
+
+  /** Project bound with /project, if it is still in projects.json */
+  private get project(): ProjectConfig | undefined {
+    const name = this.settings.get(this.conversationKey).project;
+    return name ? this.projects.get(name) : undefined;
+  }
+
+  /** Working directory and tmux socket from the saved `/cd`, `/project` and worktree */
+  private resolveBinding(): { cwd: string; tmuxSocket: string } {
+    const saved = this.settings.get(this.conversationKey);
+    const project = this.project;
+    const socket = project?.tmuxSocket;
+    const projectDir = project && (saved.worktree?.path ?? project.dir);
+    return {
+      cwd: saved.cwd ?? projectDir ?? this.config.cwd,
+      tmuxSocket: !socket
+        ? this.config.tmuxDefaultSocket
+        : isAbsolute(socket) ? socket : join(this.config.tmuxSocketDir, socket.endsWith(".sock") ? socket : `${socket}.sock`),
+    };
+  }
+
+  /**
+   * Agent sessions started in the current working directory; sessions from
+   * before per-conversation directories have no cwd and count as AGENT_CWD's
+   */
+  private async listSessions(): Promise<SessionInfo[]> {
+    const all = await SessionManager.list(this.cwd, this.sessionDir);
+    return all.filter((s) => (s.cwd || this.config.cwd) === this.cwd);
+  }
+
   /**
    * Update permission config and persist to disk.
    */
@@ -86,6 +200,26 @@ export class ChatController {
     this.permissions.setConfig(this.conversationKey, config);
   }
 
+  /**
+   * Persist a rule chosen from an authorization prompt ("Allow always"/"Deny always").
+   */
+  private saveRememberedRule(level: "allow" | "deny", rule: string): void {
+    const config = this.toolAuthorizer.getConfig();
+    const rules = config[level] ?? [];
+    if (rules.includes(rule)) return;
+    config[level] = [...rules, rule];
+    this.savePermissionConfig(config);
+    this.logger.info({ level, rule }, "Saved permission rule from authorization prompt");
+  }
+
+  /**
+   * Effective permission mode, with the layer it is inherited from if any
+   */
+  private get permissionModeLabel(): string {
+    const { mode, source } = this.toolAuthorizer.getEffectiveMode();
+    return source && source !== "chat" ? `${mode} (from ${source})` : mode;
+  }
+
   private get sessionDir(): string {
     const suffix = this.convo.threadId
       ? `${this.convo.conversationId}_${this.convo.threadId}`
@@ -119,22 +253,42 @@ export class ChatController {
     await tmux.ensureSocketDir(this.config.tmuxSocketDir);
     await mkdir(this.sessionDir, { recursive: true });
 
-    const tmuxOpts = { socketPath: this.config.tmuxDefaultSocket };
+    const tmuxOpts = { socketPath: this.tmuxSocket };
     const tmuxToolDefs = createTmuxTools(tmuxOpts);
 
-    const defaultModel = this.config.modelRegistry.getDefault();
-    const modelKey = defaultModel.key;
-    const thinkingLevel = defaultModel.thinkingLevel ?? this.config.defaultThinkingLevel;
+    // The saved model, unless it has since been removed from models.json (its thinking level goes with it)
+    const saved = this.settings.get(this.conversationKey);
+    const savedModel = saved.model ? this.config.modelRegistry.get(saved.model) : undefined;
+    const model = savedModel ?? this.config.modelRegistry.getDefault();
+    const modelKey = model.key;
+    const thinkingLevel = (saved.model && !savedModel ? undefined : saved.thinkingLevel)
+      ?? model.thinkingLevel ?? this.config.defaultThinkingLevel;
 
     const callbacks: AgentEventCallbacks = {
       onTextDelta: (delta) => this.streamSink.onDelta(delta),
-      onThinkingDelta: (_delta) => {},
-      onToolStart: (name, args) => this.handleToolStart(name, args),
-      onToolEnd: (name, result, isError) => this.handleToolEnd(name, result, isError),
+      onThinkingDelta: (delta) => {
+        if (this.showThinking) this.streamSink.onThinkingDelta(delta);
+      },
+      onToolStart: (name, args, toolCallId) => this.handleToolStart(name, args, toolCallId),
+      onToolEnd: (name, result, isError, toolCallId) => this.handleToolEnd(name, result, isError, toolCallId),
       onAgentStart: () => this.handleAgentStart(),
       onAgentEnd: (err) => this.handleAgentEnd(err),
       onError: (err) => this.handleError(err),
       onModelFallback: (from, to, error) => this.handleModelFallback(from, to, error),
+      onAnsweredBy: (label, reason) => {
+        this.answeredBy = { label, reason };
+      },
+      onUsage: (model, usage) =>
+        this.usage.record({
+          conversation: this.conversationKey,
+          user: this.requesterUser,
+          model,
+          input: usage.input,
+          output: usage.output,
+          cacheRead: usage.cacheRead,
+          cacheWrite: usage.cacheWrite,
+          cost: usage.cost?.total ?? 0,
+        }),
     };
 
     this.managed = await createManagedSession({
@@ -142,10 +296,12 @@ export class ChatController {
       tmuxTools: tmuxToolDefs as ToolDefinition[],
       callbacks,
       sessionDir: this.sessionDir,
+      cwd: this.cwd,
       modelKey,
       thinkingLevel,
       wrapTools: (tools) => this.toolAuthorizer.wrapTools(tools),
     });
+    if (saved.autoRouting) this.managed.setAutoRouting(true);
 
     if (!autoResume) {
       this.logger.info("Agent initialized (fresh session, no auto-resume)");
@@ -153,7 +309,7 @@ export class ChatController {
     }
 
     try {
-      const existing = await SessionManager.list(this.config.cwd, this.sessionDir);
+      const existing = await this.listSessions();
       if (existing.length > 0) {
         existing.sort((a, b) => b.modified.getTime() - a.modified.getTime());
         const latest = existing[0];
@@ -192,20 +348,25 @@ export class ChatController {
       this.managed = null;
     }
     this.streamSink.resetState();
+    this.activityLog.dispose();
     this.isAgentRunning = false;
     this.toolAuthorizer.dispose();
   }
 
   // ── User message handling ──────────────────────────────────────────
 
-  async handleMessage(text: string): Promise<void> {
+  async handleMessage(text: string, sender: Sender): Promise<void> {
     if (this.tmuxHandler.isTmuxThread) {
-      await this.tmuxHandler.tmuxTerminalSend(text);
+      if (await this.checkRole(sender, "operator")) {
+        await this.tmuxHandler.tmuxTerminalSend(text);
+      }
       return;
     }
 
+    if (!(await this.checkQuota(sender))) return;
     await this.ensureInitialized();
 
+    // Steering joins the running turn, which stays attributed to whoever started it
     if (this.isAgentRunning) {
       try {
         await this.managed!.session.steer(text);
@@ -214,7 +375,7 @@ export class ChatController {
           text: `↩️ ${this.fmt.italic("Steering agent with new instruction...")}`,
         });
       } catch {
-        this.pendingInput = text;
+        this.pendingInput = { text, sender };
         await this.messenger.send(this.convo, {
           type: "text",
           text: `⏳ ${this.fmt.italic("Message queued, agent is busy.")}`,
@@ -223,12 +384,15 @@ export class ChatController {
       return;
     }
 
+    this.requester = sender.identity;
+    this.requesterUser = sender.actingAs;
     this.logger.info({ charCount: text.length }, "Prompting agent");
     await this.messenger.sendTyping?.(this.convo);
     await this.managed!.prompt(text);
   }
 
-  async handlePhoto(image: ImageData, caption?: string): Promise<void> {
+  async handlePhoto(image: ImageData, caption: string | undefined, sender: Sender): Promise<void> {
+    if (!(await this.checkQuota(sender))) return;
     await this.ensureInitialized();
 
     if (this.isAgentRunning) {
@@ -240,6 +404,8 @@ export class ChatController {
     }
 
     try {
+      this.requester = sender.identity;
+      this.requesterUser = sender.actingAs;
       const base64 = Buffer.from(image.bytes).toString("base64");
       const prompt = caption || "What do you see in this image?";
 
@@ -262,13 +428,63 @@ export class ChatController {
     }
   }
 
-  async handleTmuxTopicMessage(text: string): Promise<void> {
+  async handleTmuxTopicMessage(text: string, sender: Sender): Promise<void> {
+    if (!(await this.checkRole(sender, "operator"))) return;
     await this.tmuxHandler.handleTmuxTopicMessage(text);
   }
 
+  /**
+   * Refuse a prompt when the sender is over budget or the conversation is
+   * over its prompts-per-minute limit. Returns whether the prompt may go ahead.
+   */
+  private async checkQuota(sender: Sender): Promise<boolean> {
+    const exceeded = this.quotas.check(sender.actingAs, sender.role, this.usage);
+    if (exceeded) {
+      const format = exceeded.kind === "tokens" ? formatTokens : formatCost;
+      const budget = `${exceeded.period === "day" ? "daily" : "monthly"} ${exceeded.kind === "tokens" ? "token" : "spending"} budget`;
+      this.logger.info({ user: sender.actingAs, ...exceeded }, "Prompt refused, quota exceeded");
+      await this.messenger.send(this.convo, {
+        type: "text",
+        text: `⛔ You have reached your ${budget} (${format(exceeded.used)} of ${format(exceeded.limit)}). It resets ${exceeded.period === "day" ? "at 00:00 UTC" : "on the 1st of the month (UTC)"}.`,
+      });
+      return false;
+    }
+
+    const perMinute = this.quotas.promptsPerMinute;
+    if (!perMinute) return true;
+    const now = Date.now();
+    this.promptTimes = this.promptTimes.filter((t) => now - t < 60_000);
+    if (this.promptTimes.length >= perMinute) {
+      const waitSeconds = Math.ceil((this.promptTimes[0] + 60_000 - now) / 1000);
+      await this.messenger.send(this.convo, {
+        type: "text",
+        text: `⏱ This chat is limited to ${perMinute} prompt${perMinute === 1 ? "" : "s"} per minute. Try again in ${waitSeconds}s.`,
+      });
+      return false;
+    }
+    this.promptTimes.push(now);
+    return true;
+  }
+
+  /**
+   * Tell the sender when their role is below `required`. Returns whether
+   * the action may go ahead.
+   */
+  private async checkRole(sender: Sender, required: Role): Promise<boolean> {
+    if (hasRole(sender.role, required)) return true;
+    this.logger.info({ identity: sender.identity, role: sender.role, required }, "Action refused for role");
+    await this.messenger.send(this.convo, {
+      type: "text",
+      text: `🔒 This needs the ${this.fmt.bold(required)} role (you are ${this.fmt.escape(sender.role)}).`,
+    });
+    return false;
+  }
+
   // ── Command handling ───────────────────────────────────────────────
 
-  async handleCommand(command: string, args: string): Promise<void> {
+  async handleCommand(command: string, args: string, sender: Sender): Promise<void> {
+    if (!(await this.checkRole(sender, commandRole(command, args)))) return;
+
     switch (command) {
       case "/start":
       case "/help":
@@ -310,18 +526,33 @@ export class ChatController {
       case "/reset":
         await this.resetAgent();
         break;
+      case "/project":
+        await this.handleProjectCommand(args);
+        break;
+      case "/cd":
+        await this.changeDirectory(args);
+        break;
+      case "/worktree":
+        await this.handleWorktreeCommand(args);
+        break;
       case "/abort":
         await this.abortAgent();
         break;
       case "/model":
         await this.switchModel(args);
         break;
+      case "/models":
+        await this.handleModelsCommand(args);
+        break;
       case "/thinking":
         await this.switchThinking(args);
         break;
       case "/status":
         await this.showStatus();
         break;
+      case "/usage":
+        await this.showUsage(args, sender);
+        break;
       case "/permissions":
         await this.handlePermissionsCommand(args);
         break;
@@ -335,9 +566,15 @@ export class ChatController {
 
   // ── Callback handling ──────────────────────────────────────────────
 
-  async handleCallback(ackHandle: unknown, actionId: string, data?: string): Promise<void> {
+  async handleCallback(ackHandle: unknown, actionId: string, data: string | undefined, sender: Sender): Promise<void> {
     const parts = data ? data.split(":") : [];
 
+    const required = callbackRole(actionId, parts);
+    if (!hasRole(sender.role, required)) {
+      await this.messenger.ackAction?.(ackHandle, `🔒 Needs the ${required} role (you are ${sender.role}).`, true);
+      return;
+    }
+
     try {
       switch (actionId) {
         case "tmux":
@@ -365,11 +602,14 @@ export class ChatController {
           }
           break;
         case "auth":
-          await this.handleAuthCallback(ackHandle, parts);
+          await this.handleAuthCallback(ackHandle, parts, sender);
           break;
         case "perm":
           await this.handlePermissionsCallback(ackHandle, parts);
           break;
+        case "wt":
+          await this.handleWorktreeCallback(ackHandle, parts);
+          break;
         default:
           await this.messenger.ackAction?.(ackHandle, "Unknown action.");
       }
@@ -381,14 +621,13 @@ export class ChatController {
 
   // ── Agent event handlers ───────────────────────────────────────────
 
-  private handleToolStart(name: string, args: any): void {
-    // Skip notification if the tool will need authorization — the auth prompt
-    // is shown instead. SDK fires tool_execution_start BEFORE tool.execute().
-    const permission = this.toolAuthorizer.evaluate(name, args);
-    if (permission === "ask") return;
+  private handleToolStart(name: string, args: any, toolCallId?: string): void {
+    this.activityLog.toolStarted(toolCallId ?? name, name, this.describeTool(name, args));
+  }
 
+  /** One-line description of a tool call for the activity panel. */
+  private describeTool(name: string, args: any): string {
     let message = '';
-
     try {
       switch (name) {
         case 'bash':
@@ -480,31 +719,24 @@ export class ChatController {
       message = `🔧 ${this.fmt.code(name)}`;
     }
 
-    this.streamSink.toolNotice(message);
+    return message;
   }
 
-  private handleToolEnd(name: string, result: any, isError: boolean): void {
+  private handleToolEnd(name: string, result: any, isError: boolean, toolCallId?: string): void {
+    let errorMsg = '';
     if (isError) {
-      let errorMsg = '';
       try {
         if (result && typeof result === 'object') {
           if (result.error) errorMsg = String(result.error);
           else if (result.message) errorMsg = String(result.message);
+          else if (Array.isArray(result.content) && result.content[0]?.text) errorMsg = String(result.content[0].text);
         } else if (typeof result === 'string') {
           errorMsg = result;
         }
       } catch { /* ignore */ }
-
-      const toolDisplay = name.replace(/_/g, ' ');
-      let message: string;
-      if (errorMsg) {
-        const truncated = this.truncate(errorMsg, 150);
-        message = `❌ ${this.fmt.bold(`${toolDisplay} failed:`)}\n${this.fmt.code(truncated)}`;
-      } else {
-        message = `❌ ${this.fmt.bold(`${toolDisplay} failed`)}`;
-      }
-      this.streamSink.toolNotice(message);
     }
+
+    this.activityLog.toolEnded(toolCallId, name, isError, errorMsg ? this.truncate(errorMsg, 150) : undefined);
   }
 
   private truncate(text: string, maxLen: number): string {
@@ -516,21 +748,41 @@ export class ChatController {
     this.logger.info("Agent started");
     this.isAgentRunning = true;
     this.streamSink.start();
+    this.activityLog.start();
   }
 
   private async handleAgentEnd(errorMessage?: string): Promise<void> {
     this.logger.info({ bufferChars: this.streamSink.buffer.length, errorMessage }, "Agent ended");
     this.isAgentRunning = false;
 
+    await this.activityLog.finish();
+
+    // The footer goes at the end of the reply; a reply that was all tool calls gets it on its own
+    const answeredBy = this.answeredBy;
+    this.answeredBy = null;
+    const footer = answeredBy && !errorMessage ? this.answerFooter(answeredBy.label, answeredBy.reason) : null;
+    if (footer && this.streamSink.buffer.trim()) this.streamSink.onDelta(`\n\n_${footer}_`);
     await this.streamSink.finalize(errorMessage);
+    if (footer && !this.streamSink.buffer.trim()) {
+      await this.messenger.send(this.convo, { type: "text", text: this.fmt.italic(footer) });
+    }
 
     if (this.pendingInput) {
-      const msg = this.pendingInput;
+      const { text, sender } = this.pendingInput;
       this.pendingInput = null;
-      this.handleMessage(msg);
+      this.handleMessage(text, sender);
     }
   }
 
+  private answerFooter(label: string, reason?: AnswerReason): string {
+    const why: Record<AnswerReason, string> = {
+      fallback: "fallback",
+      vision: "routed: image input",
+      "long-context": "routed: long context",
+    };
+    return `↪️ ${label}${reason ? ` · ${why[reason]}` : ""}`;
+  }
+
   private handleError(err: string): void {
     this.logger.error({ error: err }, "Agent error");
     this.isAgentRunning = false;
@@ -540,12 +792,15 @@ export class ChatController {
     });
   }
 
-  private handleModelFallback(fromLabel: string, toLabel: string, error: string): void {
+  private async handleModelFallback(fromLabel: string, toLabel: string, error: string): Promise<void> {
     this.logger.info({ from: fromLabel, to: toLabel }, "Model fallback");
+    // The replay restarts the stream sink and activity log; settle the failed attempt's messages first so they aren't orphaned
+    await this.activityLog.finish();
+    await this.streamSink.seal();
     const truncatedError = error.length > 150 ? error.slice(0, 150) + "…" : error;
-    this.messenger.send(this.convo, {
+    await this.messenger.send(this.convo, {
       type: "text",
-      text: `⚠️ ${this.fmt.bold(fromLabel)} failed: ${this.fmt.code(truncatedError)}\n\nSwitched to ${this.fmt.bold(toLabel)}. Please retry your message.`,
+      text: `⚠️ ${this.fmt.bold(fromLabel)} failed: ${this.fmt.code(truncatedError)}\n\nRetrying with ${this.fmt.bold(toLabel)}…`,
     });
   }
 
@@ -555,6 +810,16 @@ export class ChatController {
     const registry = this.config.modelRegistry;
     const models = registry.list();
 
+    const [sub = ""] = args.trim().split(/\s+/, 1);
+    if (MODEL_EDIT_SUBCOMMANDS.includes(sub.toLowerCase())) {
+      await this.editModels(sub.toLowerCase(), args.trim().slice(sub.length).trim());
+      return;
+    }
+    if (sub.toLowerCase() === "auto" && !registry.get(sub)) {
+      await this.setAutoRouting(args.trim().slice(sub.length).trim().toLowerCase());
+      return;
+    }
+
     if (args.trim()) {
       const key = args.trim();
       const model = registry.get(key);
@@ -576,18 +841,193 @@ export class ChatController {
       `Current: ${this.fmt.bold(m.label)}`,
       this.fmt.code(`${m.provider}/${m.id}`),
       `Thinking: ${this.fmt.code(this.activeThinkingLevel)}`,
+      `Routing: ${this.fmt.code(this.managed?.autoRouting ? "auto" : "off")}`,
     ];
+    if (models.some((model) => this.isModelUnhealthy(model))) {
+      lines.push("", "⚠️ marks models that failed their last /models check or are cooling down after errors.");
+    }
 
     await this.messenger.send(this.convo, {
       type: "text",
       text: lines.join("\n"),
       ui: this.modelsUI(
-        models.map((m) => ({ key: m.key, label: m.label })),
+        models.map((m) => ({ key: m.key, label: this.isModelUnhealthy(m) ? `⚠️ ${m.label}` : m.label })),
         this.activeModelKey,
       ),
     });
   }
 
+  /** /model auto [on|off] — without an argument, turns routing on */
+  private async setAutoRouting(arg: string): Promise<void> {
+    if (arg && arg !== "on" && arg !== "off") {
+      await this.messenger.send(this.convo, { type: "text", text: "Usage: /model auto [on|off]" });
+      return;
+    }
+    const on = arg !== "off";
+    await this.ensureInitialized();
+    this.managed!.setAutoRouting(on);
+    this.saveSettings({ autoRouting: on || undefined });
+    await this.messenger.send(this.convo, {
+      type: "text",
+      text: on
+        ? `🧭 Auto routing ${this.fmt.bold("on")}: prompts with images go to a vision model and prompts too long for ${this.fmt.bold(this.activeModel.label)} go to a model with a bigger context window.`
+        : `🧭 Auto routing ${this.fmt.bold("off")}: every prompt goes to ${this.fmt.bold(this.activeModel.label)}.`,
+    });
+  }
+
+  private isModelUnhealthy(model: ModelConfig): boolean {
+    const check = this.modelChecker.get(model.key);
+    return (check !== undefined && !isHealthy(check)) || providerHealth.isCoolingDown(model);
+  }
+
+  /**
+   * /models — results of the last checks
+   * /models check [key] — send test requests to every model, or one
+   */
+  private async handleModelsCommand(args: string): Promise<void> {
+    const registry = this.config.modelRegistry;
+    const [sub = "", key] = args.trim().split(/\s+/);
+
+    if (sub.toLowerCase() !== "check") {
+      const results = registry.keys().map((k) => this.modelChecker.get(k)).filter((r) => r !== undefined);
+      if (!results.length) {
+        await this.messenger.send(this.convo, { type: "text", text: "No models checked yet. Use /models check [key]." });
+        return;
+      }
+      await this.sendModelChecks(results);
+      return;
+    }
+
+    if (key && !registry.get(key)) {
+      await this.messenger.send(this.convo, { type: "text", text: `Unknown model: ${this.fmt.code(key)}` });
+      return;
+    }
+    const keys = key ? [key] : registry.keys();
+    await this.messenger.send(this.convo, {
+      type: "text",
+      text: `🩺 Checking ${keys.length === 1 ? this.fmt.code(keys[0]) : `${keys.length} models`}…`,
+    });
+    this.logger.info({ keys }, "Checking models");
+    await this.sendModelChecks(await this.modelChecker.checkAll(keys));
+  }
+
+  private async sendModelChecks(results: ModelCheckResult[]): Promise<void> {
+    const mark = (value: boolean | null) => (value === null ? "-" : value ? "ok" : "FAIL");
+    const rows = [["model", "net", "auth", "latency", "stream", "image", "think"]];
+    for (const r of results) {
+      rows.push([
+        r.key,
+        mark(r.reachable),
+        mark(r.auth),
+        r.latencyMs === undefined ? "-" : `${r.latencyMs}ms`,
+        mark(r.streaming),
+        mark(r.image),
+        mark(r.reasoning),
+      ]);
+    }
+    const widths = rows[0].map((_, i) => Math.max(...rows.map((row) => row[i].length)));
+    const table = rows.map((row) => row.map((cell, i) => cell.padEnd(widths[i])).join(" ").trimEnd()).join("\n");
+
+    const details: string[] = [];
+    for (const r of results) {
+      const problems = r.error ? [r.error, ...r.notes] : r.notes;
+      for (const problem of problems) {
+        const truncated = problem.length > 200 ? problem.slice(0, 200) + "…" : problem;
+        details.push(`• ${this.fmt.code(r.key)} ${this.fmt.escape(truncated)}`);
+      }
+    }
+    const checkedAt = new Date(Math.min(...results.map((r) => r.checkedAt))).toISOString().slice(0, 19).replace("T", " ");
+
+    const sections = [
+      `${this.fmt.bold("🩺 Model checks")} · ${this.fmt.escape(`${checkedAt} UTC`)}`,
+      this.fmt.pre(table),
+      ...(details.length ? [details.join("\n")] : []),
+    ];
+    const maxChars = this.messenger.capabilities.maxTextChars;
+    let message = "";
+    for (const section of sections) {
+      if (message && message.length + section.length + 2 > maxChars) {
+        await this.messenger.send(this.convo, { type: "text", text: message });
+        message = "";
+      }
+      message = message ? `${message}\n\n${section}` : section;
+    }
+    if (message) await this.messenger.send(this.convo, { type: "text", text: message });
+  }
+
+  /**
+   * Owner commands that edit models.json. Every chat picks up the change on
+   * its next message.
+   *   /model show [key] — a model's entry, credentials other than env: references hidden
+   *   /model add <json> — add a model; credentials must be env: references
+   *   /model remove <key>
+   *   /model set-default <key>
+   */
+  private async editModels(sub: string, rest: string): Promise<void> {
+    const models = this.config.models;
+    const reply = (text: string) => this.messenger.send(this.convo, { type: "text", text });
+
+    try {
+      switch (sub) {
+        case "show": {
+          const key = rest || this.activeModelKey;
+          const entry = models.getRaw(key);
+          if (!entry) {
+            await reply(`Model not found: ${this.fmt.code(key)}`);
+            return;
+          }
+          const shown = redactModelConfig(entry);
+          const isDefault = key === this.config.modelRegistry.defaultKey;
+          await reply(`${this.fmt.bold(entry.label ?? key)}${isDefault ? " (default)" : ""}\n${this.fmt.pre(JSON.stringify(shown, null, 2), "json")}`);
+          return;
+        }
+        case "add": {
+          const usage = `Usage: /model add ${this.fmt.code('{"key": "…", "label": "…", "provider": "…", "id": "…"}')}`;
+          let model: ModelConfig;
+          try {
+            model = JSON.parse(rest);
+          } catch {
+            // The parse error can quote the input, which may hold a key
+            await reply(`Invalid JSON. ${usage}`);
+            return;
+          }
+          if (!model || typeof model !== "object" || Array.isArray(model)) {
+            await reply(usage);
+            return;
+          }
+          const secretField = findLiteralSecret(model);
+          if (secretField) {
+            await reply(`🔒 Credentials can't be set from chat (${this.fmt.code(secretField)}). Put the value in an environment variable and use ${this.fmt.code('"env:VAR_NAME"')}.`);
+            return;
+          }
+          models.add(model);
+          await reply(`✅ Added ${this.fmt.bold(model.label)} as ${this.fmt.code(model.key)}\n${this.fmt.code(`${model.provider}/${model.id}`)}`);
+          return;
+        }
+        case "remove":
+          if (!rest) {
+            await reply(`Usage: /model remove ${this.fmt.escape("<key>")}`);
+            return;
+          }
+          models.remove(rest);
+          await reply(`🗑 Removed ${this.fmt.code(rest)}. Chats using it switch to the default model.`);
+          return;
+        case "set-default":
+          if (!rest) {
+            await reply(`Usage: /model set-default ${this.fmt.escape("<key>")}`);
+            return;
+          }
+          models.setDefault(rest);
+          await reply(`✅ Default model is now ${this.fmt.bold(this.config.modelRegistry.getDefault().label)}`);
+          return;
+      }
+    } catch (e: unknown) {
+      const msg = e instanceof Error ? e.message : String(e);
+      this.logger.warn({ sub, error: msg }, "models.json edit rejected");
+      await reply(`❌ ${this.fmt.escape(msg)}`);
+    }
+  }
+
   private async applyModel(key: string): Promise<void> {
     if (this.isAgentRunning) {
       await this.messenger.send(this.convo, { type: "text", text: "Cannot switch model while agent is running. Use /abort first." });
@@ -605,6 +1045,7 @@ export class ChatController {
     try {
       await this.managed!.setModelByKey(key);
       const thinkingDisplay = this.managed!.activeThinkingLevel;
+      this.saveSettings({ model: key, thinkingLevel: thinkingDisplay });
       await this.messenger.send(this.convo, {
         type: "text",
         text: `✅ Switched to ${this.fmt.bold(model.label)}\n${this.fmt.code(`${model.provider}/${model.id}`)} (thinking: ${this.fmt.escape(thinkingDisplay)})`,
@@ -643,6 +1084,12 @@ export class ChatController {
 
   private async switchThinking(args: string): Promise<void> {
     const valid: ThinkingLevel[] = ["off", "minimal", "low", "medium", "high", "xhigh"];
+    const arg = args.trim().toLowerCase();
+
+    if (arg === "show" || arg === "hide") {
+      await this.applyThinkingDisplay(arg === "show");
+      return;
+    }
 
     if (args.trim() && valid.includes(args.trim().toLowerCase() as ThinkingLevel)) {
       await this.applyThinking(args.trim().toLowerCase() as ThinkingLevel);
@@ -655,6 +1102,7 @@ export class ChatController {
       "",
       `Current: ${this.fmt.code(this.activeThinkingLevel)}`,
       `Model: ${this.fmt.bold(m.label)}`,
+      `Reasoning display: ${this.showThinking ? "shown" : "hidden"}`,
     ];
 
     await this.messenger.send(this.convo, {
@@ -664,6 +1112,17 @@ export class ChatController {
     });
   }
 
+  private async applyThinkingDisplay(show: boolean): Promise<void> {
+    this.showThinking = show;
+    this.saveSettings({ showThinking: show || undefined });
+    await this.messenger.send(this.convo, {
+      type: "text",
+      text: show
+        ? "✅ Reasoning will be shown as a collapsed block before each reply."
+        : "✅ Reasoning hidden.",
+    });
+  }
+
   private async applyThinking(level: ThinkingLevel): Promise<void> {
     if (this.isAgentRunning) {
       await this.messenger.send(this.convo, { type: "text", text: "Cannot change thinking level while agent is running. Use /abort first." });
@@ -672,6 +1131,7 @@ export class ChatController {
 
     await this.ensureInitialized();
     this.managed!.setThinkingLevel(level);
+    this.saveSettings({ thinkingLevel: level });
 
     await this.messenger.send(this.convo, {
       type: "text",
@@ -692,6 +1152,12 @@ export class ChatController {
         await this.applyThinking(level);
         break;
       }
+      case "display": {
+        const show = parts[1] === "show";
+        await this.messenger.ackAction?.(ackHandle, show ? "Showing reasoning." : "Hiding reasoning.");
+        await this.applyThinkingDisplay(show);
+        break;
+      }
       case "cancel":
         await this.messenger.ackAction?.(ackHandle, "Cancelled.");
         break;
@@ -700,15 +1166,44 @@ export class ChatController {
     }
   }
 
-  private async handleAuthCallback(ackHandle: unknown, parts: string[]): Promise<void> {
-    const [action, authId] = parts;
+  /**
+   * Route a text or /approve|/deny reply to a pending tool authorization.
+   * Called by the Router outside the conversation queue, since the queued
+   * prompt is blocked waiting on this decision. Returns false if the text
+   * is not an authorization reply.
+   */
+  async handleAuthorizationReply(text: string, sender: Sender): Promise<boolean> {
+    const trimmed = text.trim();
+    const reply = parseAuthorizationReply(trimmed);
+    const isReply = !!reply || /^\/edit\b/i.test(trimmed);
+    const ruleEdit = this.toolAuthorizer.isRuleEdit(trimmed);
+
+    // Viewers can't answer prompts, and their other messages are always chat
+    // (never an edited value or rule); remembering a decision, or rewriting
+    // the rule it would save, writes a rule
+    const required: Role = reply?.scope === "always" || ruleEdit ? "admin" : "operator";
+    if (!hasRole(sender.role, required)) {
+      if (ruleEdit && hasRole(sender.role, "operator")) {
+        await this.checkRole(sender, required);
+        return true;
+      }
+      if (!isReply || (!trimmed.startsWith("/") && !this.toolAuthorizer.hasPending())) return false;
+      await this.checkRole(sender, required);
+      return true;
+    }
+    return this.toolAuthorizer.handleTextReply(text, sender.identity);
+  }
+
+  private async handleAuthCallback(ackHandle: unknown, parts: string[], sender: Sender): Promise<void> {
+    const [action, authId] = parts as [AuthorizationAction, string];
     this.logger.debug({ action, authId }, "handleAuthCallback");
-    if (!authId || (action !== "allow" && action !== "deny")) {
+    const actions: AuthorizationAction[] = ["allow", "deny", "session", "always", "never", "save", "back", "edit"];
+    if (!authId || !actions.includes(action)) {
       this.logger.warn({ parts }, "Invalid authorization request");
       await this.messenger.ackAction?.(ackHandle, "Invalid authorization request.");
       return;
     }
-    await this.toolAuthorizer.handleCallback(ackHandle, action, authId);
+    await this.toolAuthorizer.handleCallback(ackHandle, action, authId, sender.identity);
   }
 
   private async handlePermissionsCommand(args: string): Promise<void> {
@@ -747,7 +1242,7 @@ export class ChatController {
                 "• dontAsk - Auto-deny unless pre-approved via rules",
                 "• bypassPermissions - Skip all permission prompts (dangerous!)",
                 "",
-                `Current: ${this.fmt.code(config.defaultMode || "default")}`,
+                `Current: ${this.fmt.code(this.permissionModeLabel)}`,
                 "",
                 "Use /permissions mode <mode> to change.",
               ].join("\n"),
@@ -761,10 +1256,25 @@ export class ChatController {
           await this.clearPermissionRules();
           return;
 
+        case "profile":
+          await this.applyPermissionProfile(parts[1]);
+          return;
+
+        case "test":
+          if (parts.length < 2) {
+            await this.messenger.send(this.convo, {
+              type: "text",
+              text: "Usage: /permissions test <tool(args)>\nExample: /permissions test bash(git push origin main)",
+            });
+            return;
+          }
+          await this.testPermission(parts.slice(1).join(" "));
+          return;
+
         default:
           await this.messenger.send(this.convo, {
             type: "text",
-            text: `Unknown subcommand: ${subcommand}\n\nAvailable: allow, ask, deny, mode, clear`,
+            text: `Unknown subcommand: ${subcommand}\n\nAvailable: allow, ask, deny, mode, profile, clear, test`,
           });
           return;
       }
@@ -774,7 +1284,8 @@ export class ChatController {
     const lines = [
       "🔐 Permissions",
       "",
-      `Mode: ${config.defaultMode || "default"}`,
+      `Mode: ${this.permissionModeLabel}`,
+      `Profile: ${config.extends ?? "none"}`,
       "",
     ];
 
@@ -788,7 +1299,9 @@ export class ChatController {
       "/permissions ask <rule> - Prompt for matching tools",
       "/permissions deny <rule> - Block matching tools",
       "/permissions mode <mode> - Set default mode",
+      "/permissions profile <name|none> - Inherit a named profile",
       "/permissions clear - Clear all custom rules",
+      "/permissions test <tool(args)> - Explain the decision for a call",
       "",
       "Rule Syntax:",
       "• Tool - matches all uses (e.g., bash, write)",
@@ -826,6 +1339,105 @@ export class ChatController {
     });
   }
 
+  /**
+   * Inherit a named profile (or detach with "none"). The conversation's own
+   * mode is dropped so the profile's mode applies; its own rules are kept.
+   */
+  private async applyPermissionProfile(name?: string): Promise<void> {
+    const profiles = this.permissions.listProfiles();
+    const config = this.toolAuthorizer.getConfig();
+
+    if (!name) {
+      const lines = [
+        this.fmt.bold("Permission Profiles:"),
+        "",
+        ...profiles.map((p) => `• ${this.fmt.code(p)}${p === config.extends ? " ✅" : ""}`),
+        "",
+        `Current: ${this.fmt.code(config.extends ?? "none")}`,
+        "Use /permissions profile <name> to apply, /permissions profile none to detach.",
+      ];
+      await this.messenger.send(this.convo, { type: "text", text: lines.join("\n") });
+      return;
+    }
+
+    if (name === "none") {
+      delete config.extends;
+      this.savePermissionConfig(config);
+      await this.messenger.send(this.convo, {
+        type: "text",
+        text: `✅ Profile removed. Mode: ${this.fmt.code(this.permissionModeLabel)}`,
+      });
+      return;
+    }
+
+    if (!profiles.includes(name)) {
+      await this.messenger.send(this.convo, {
+        type: "text",
+        text: `Unknown profile: ${this.fmt.code(name)}\n\nAvailable: ${profiles.map((p) => this.fmt.code(p)).join(", ")}`,
+      });
+      return;
+    }
+
+    config.extends = name;
+    delete config.defaultMode;
+    this.savePermissionConfig(config);
+    await this.messenger.send(this.convo, {
+      type: "text",
+      text: [
+        `✅ Now using profile ${this.fmt.bold(name)}`,
+        `Mode: ${this.fmt.code(this.permissionModeLabel)}`,
+        "",
+        "Rules added in this chat still apply on top of the profile.",
+      ].join("\n"),
+    });
+  }
+
+  /**
+   * Explain which rule or defaultMode branch decides a hypothetical call,
+   * e.g. "/permissions test bash(git push origin main)"
+   */
+  private async testPermission(call: string): Promise<void> {
+    const parsed = parseToolCall(call);
+    if (!parsed) {
+      await this.messenger.send(this.convo, { type: "text", text: "Usage: /permissions test <tool(args)>", parseMode: "none" });
+      return;
+    }
+
+    const icons: Record<PermissionLevel, string> = { allow: "✅", ask: "❓", deny: "🚫" };
+    const describe = (e: PermissionExplanation): string =>
+      e.rule
+        ? `${e.rule.level} rule ${formatRule(e.rule)}${e.rule.source ? ` (${e.rule.source})` : ""}`
+        : e.mode
+          ? `no rule matched; mode ${e.mode}: ${e.reason}`
+          : e.reason;
+
+    const result = this.toolAuthorizer.explain(parsed.toolName, parsed.args);
+    const lines = [
+      `🔍 Permission test: ${call}`,
+      "",
+      `Result: ${icons[result.level]} ${result.level.toUpperCase()}`,
+      `Why: ${describe(result)}`,
+    ];
+
+    if (result.parts) {
+      lines.push("", `Sub-commands (${result.reason}):`);
+      for (const part of result.parts) {
+        lines.push(`${icons[part.explanation.level]} ${part.command}`, `    ${describe(part.explanation)}`);
+      }
+    }
+
+    const shadowed = this.toolAuthorizer.findShadowedRules();
+    if (shadowed.length > 0) {
+      lines.push("", "⚠️ Shadowed rules (never match, an earlier rule always wins):");
+      for (const { rule, shadowedBy } of shadowed) {
+        lines.push(`• ${rule.level} ${formatRule(rule)} — shadowed by ${shadowedBy.level} ${formatRule(shadowedBy)}`);
+      }
+    }
+
+    // Raw text: rule syntax is full of characters HTML would mangle
+    await this.messenger.send(this.convo, { type: "text", text: lines.join("\n"), parseMode: "none" });
+  }
+
   private async setPermissionMode(mode: PermissionMode): Promise<void> {
     const config = this.toolAuthorizer.getConfig();
     config.defaultMode = mode;
@@ -849,7 +1461,8 @@ export class ChatController {
   }
 
   private async clearPermissionRules(): Promise<void> {
-    this.savePermissionConfig({ defaultMode: this.toolAuthorizer.getConfig().defaultMode });
+    const { defaultMode, extends: profile } = this.toolAuthorizer.getConfig();
+    this.savePermissionConfig({ defaultMode, extends: profile });
 
     await this.messenger.send(this.convo, {
       type: "text",
@@ -858,9 +1471,8 @@ export class ChatController {
   }
 
   private permissionsUI(): UIElement {
-    const config = this.toolAuthorizer.getConfig();
     const modes: PermissionMode[] = ["default", "acceptEdits", "dontAsk", "bypassPermissions"];
-    const currentMode = config.defaultMode || "default";
+    const currentMode = this.toolAuthorizer.getEffectiveMode().mode;
 
     const rows: UIButton[][] = [];
 
@@ -920,7 +1532,7 @@ export class ChatController {
     await this.ensureInitialized();
 
     try {
-      const allSessions = await SessionManager.list(this.config.cwd, this.sessionDir);
+      const allSessions = await this.listSessions();
       allSessions.sort((a, b) => b.modified.getTime() - a.modified.getTime());
 
       if (allSessions.length === 0) {
@@ -981,7 +1593,7 @@ export class ChatController {
 
     let info = this.sessionIndex.get(id);
     if (!info) {
-      const allSessions = await SessionManager.list(this.config.cwd, this.sessionDir);
+      const allSessions = await this.listSessions();
       for (const s of allSessions) {
         this.sessionIndex.set(s.id, s);
       }
@@ -1025,6 +1637,7 @@ export class ChatController {
     try {
       this.streamSink.resetState();
       this.pendingInput = null;
+      this.toolAuthorizer.clearSessionRules();
       await this.managed!.session.newSession();
       await this.messenger.send(this.convo, { type: "text", text: "✅ New session started." });
     } catch (e: unknown) {
@@ -1063,6 +1676,292 @@ export class ChatController {
     }
   }
 
+  // ── Working directory ──────────────────────────────────────────────
+
+  /**
+   * /project — list projects and show the current binding
+   * /project <name> — bind this conversation to a project
+   * /project off — go back to AGENT_CWD
+   */
+  private async handleProjectCommand(args: string): Promise<void> {
+    const name = args.trim();
+    if (!name) {
+      const current = this.settings.get(this.conversationKey).project;
+      const projects = this.projects.list();
+      const lines = [this.fmt.bold("📁 Projects"), ""];
+      if (!projects.length) lines.push(this.fmt.italic("No projects in projects.json."));
+      for (const p of projects) {
+        lines.push(`• ${this.fmt.code(p.name)} — ${this.fmt.escape(p.dir)}${p.name === current ? " ✅" : ""}`);
+      }
+      lines.push("", `CWD: ${this.fmt.code(this.cwd)}`, "", "Use /project <name> to switch, /project off to unbind.");
+      await this.messenger.send(this.convo, { type: "text", text: lines.join("\n") });
+      return;
+    }
+
+    if (this.isAgentRunning) {
+      await this.messenger.send(this.convo, { type: "text", text: "Cannot switch project while agent is running. Use /abort first." });
+      return;
+    }
+
+    if (name.toLowerCase() === "off") {
+      const { worktree } = this.settings.get(this.conversationKey);
+      const notes = this.applyProjectProfile(undefined);
+      this.saveSettings({ project: undefined, cwd: undefined, worktree: undefined });
+      await this.rebind();
+      if (worktree) notes.push(`The worktree ${this.fmt.code(worktree.path)} is kept; binding the project again reuses it.`);
+      await this.messenger.send(this.convo, {
+        type: "text",
+        text: [`📁 Unbound from project. CWD: ${this.fmt.code(this.cwd)}`, ...notes].join("\n"),
+      });
+      return;
+    }
+
+    const project = this.projects.get(name);
+    if (!project) {
+      await this.messenger.send(this.convo, { type: "text", text: `Unknown project: ${this.fmt.code(name)}. Use /project to list them.` });
+      return;
+    }
+    if (!(await this.isDirectory(project.dir))) {
+      await this.messenger.send(this.convo, { type: "text", text: `❌ Directory not found: ${this.fmt.code(project.dir)}` });
+      return;
+    }
+
+    const notes: string[] = [];
+    const changes: Partial<ConversationSettings> = { project: project.name, cwd: undefined, worktree: undefined };
+    if (project.worktree) {
+      if (!(await worktrees.isRepo(project.dir))) {
+        notes.push(`⚠️ ${this.fmt.code(project.dir)} is not a git repository, working in it directly`);
+      } else {
+        try {
+          const worktree = await worktrees.createWorktree(project.dir, this.worktreeName);
+          changes.worktree = worktree;
+          notes.push(`Worktree: ${this.fmt.code(worktree.branch)} from ${this.fmt.code(worktree.base)}`);
+        } catch (e) {
+          const msg = worktrees.gitError(e);
+          this.logger.error({ err: e, project: project.name }, "Failed to create worktree");
+          await this.messenger.send(this.convo, { type: "text", text: `❌ Failed to create worktree: ${this.fmt.escape(msg)}` });
+          return;
+        }
+      }
+    }
+    if (project.model) {
+      const model = this.config.modelRegistry.get(project.model);
+      if (model) {
+        changes.model = model.key;
+        changes.thinkingLevel = undefined;
+        notes.push(`Model: ${this.fmt.bold(model.label)}`);
+      } else {
+        notes.push(`⚠️ Model ${this.fmt.code(project.model)} is not in models.json, keeping ${this.fmt.bold(this.activeModel.label)}`);
+      }
+    }
+    notes.push(...this.applyProjectProfile(project.permissions));
+    this.saveSettings(changes);
+    await this.rebind();
+    this.logger.info({ project: project.name, cwd: this.cwd }, "Bound to project");
+
+    await this.messenger.send(this.convo, {
+      type: "text",
+      text: [`📁 Project ${this.fmt.bold(project.name)}`, `CWD: ${this.fmt.code(this.cwd)}`, ...notes].join("\n"),
+    });
+  }
+
+  /**
+   * Make the chat's permissions extend the profile of the project it is
+   * being bound to, or no profile when unbinding or when the project has
+   * none, so a permissive profile doesn't follow the chat to another
+   * directory. Returns notes for the reply.
+   */
+  private applyProjectProfile(profile: string | undefined): string[] {
+    const config = this.toolAuthorizer.getConfig();
+    if (profile && !this.permissions.getProfile(profile)) {
+      if (config.extends) this.savePermissionConfig({ ...config, extends: undefined });
+      return [`⚠️ Unknown permission profile ${this.fmt.code(profile)}, no profile applied`];
+    }
+    if (config.extends === profile) {
+      return profile ? [`Permissions: ${this.fmt.code(profile)} profile`] : [];
+    }
+    this.savePermissionConfig({ ...config, extends: profile });
+    return [profile
+      ? `Permissions: ${this.fmt.code(profile)} profile`
+      : `Permissions: ${this.fmt.code(config.extends!)} profile removed`];
+  }
+
+  /** /cd [path] — show or change the agent's working directory; relative paths start from the current one */
+  private async changeDirectory(args: string): Promise<void> {
+    const arg = args.trim();
+    if (!arg) {
+      await this.messenger.send(this.convo, { type: "text", text: `CWD: ${this.fmt.code(this.cwd)}` });
+      return;
+    }
+    if (this.isAgentRunning) {
+      await this.messenger.send(this.convo, { type: "text", text: "Cannot change directory while agent is running. Use /abort first." });
+      return;
+    }
+
+    const dir = resolve(this.cwd, expandHome(arg));
+    if (!(await this.isDirectory(dir))) {
+      await this.messenger.send(this.convo, { type: "text", text: `❌ Not a directory: ${this.fmt.code(dir)}` });
+      return;
+    }
+    this.saveSettings({ cwd: dir });
+    await this.rebind();
+    this.logger.info({ cwd: dir }, "Working directory changed");
+    await this.messenger.send(this.convo, { type: "text", text: `📁 CWD: ${this.fmt.code(this.cwd)}` });
+  }
+
+  /** Worktree directory and branch name of this conversation, e.g. `1001234567890-42` */
+  private get worktreeName(): string {
+    return this.conversationKey.replace(/[^a-zA-Z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+  }
+
+  /**
+   * /worktree [status] — branch, commits and diff against the base branch
+   * /worktree merge — merge the branch into the base in the project checkout
+   * /worktree discard — delete the worktree and its branch (asks first)
+   */
+  private async handleWorktreeCommand(args: string): Promise<void> {
+    const sub = args.trim().toLowerCase() || "status";
+    const { worktree } = this.settings.get(this.conversationKey);
+    const project = this.project;
+    if (!worktree || !project) {
+      await this.messenger.send(this.convo, {
+        type: "text",
+        text: `No worktree for this chat. Projects with ${this.fmt.code('"worktree": true')} in projects.json create one on /project <name>.`,
+      });
+      return;
+    }
+
+    switch (sub) {
+      case "status":
+        await this.showWorktreeStatus(worktree);
+        break;
+      case "merge": {
+        if (this.isAgentRunning) {
+          await this.messenger.send(this.convo, { type: "text", text: "Cannot merge while agent is running. Use /abort first." });
+          return;
+        }
+        try {
+          const output = await worktrees.mergeWorktree(project.dir, worktree);
+          this.logger.info({ branch: worktree.branch, base: worktree.base }, "Merged worktree");
+          const lines = [`✅ Merged ${this.fmt.code(worktree.branch)} into ${this.fmt.code(worktree.base)}`];
+          if (output) lines.push(this.fmt.pre(this.truncate(output, this.messenger.capabilities.maxTextChars - 200)));
+          await this.messenger.send(this.convo, { type: "text", text: lines.join("\n") });
+        } catch (e) {
+          await this.messenger.send(this.convo, { type: "text", text: `❌ ${this.fmt.escape(worktrees.gitError(e))}` });
+        }
+        break;
+      }
+      case "discard":
+        await this.messenger.send(this.convo, {
+          type: "text",
+          text: `🗑 Delete ${this.fmt.code(worktree.path)} and branch ${this.fmt.code(worktree.branch)}? Uncommitted and unmerged work is lost.`,
+          ui: {
+            kind: "buttons",
+            rows: [[
+              { label: "🗑 Discard", actionId: "wt", data: "discard" },
+              { label: "❌ Cancel", actionId: "wt", data: "cancel" },
+            ]],
+          },
+        });
+        break;
+      default:
+        await this.messenger.send(this.convo, { type: "text", text: "Usage: /worktree [status|merge|discard]" });
+    }
+  }
+
+  private async showWorktreeStatus(worktree: worktrees.Worktree): Promise<void> {
+    let status: worktrees.WorktreeStatus;
+    try {
+      status = await worktrees.worktreeStatus(worktree);
+    } catch (e) {
+      await this.messenger.send(this.convo, { type: "text", text: `❌ ${this.fmt.escape(worktrees.gitError(e))}` });
+      return;
+    }
+
+    const maxBlock = Math.floor(this.messenger.capabilities.maxTextChars / 3);
+    const lines = [
+      this.fmt.bold("🌿 Worktree"),
+      "",
+      `Branch: ${this.fmt.code(worktree.branch)} (base ${this.fmt.code(worktree.base)})`,
+      `Path: ${this.fmt.code(worktree.path)}`,
+      `Commits: ${status.ahead} ahead, ${status.behind} behind`,
+      "",
+      status.changes ? `Uncommitted:\n${this.fmt.pre(this.truncate(status.changes, maxBlock))}` : "No uncommitted changes.",
+    ];
+    if (status.diffStat) {
+      lines.push("", `Diff against ${this.fmt.code(worktree.base)}:`, this.fmt.pre(this.truncate(status.diffStat, maxBlock)));
+    }
+    await this.messenger.send(this.convo, { type: "text", text: lines.join("\n") });
+
+    if (status.diff) {
+      await this.messenger.send(this.convo, {
+        type: "file",
+        bytes: new TextEncoder().encode(status.diff),
+        filename: `${this.worktreeName}.diff`,
+        caption: `${worktree.branch} vs ${worktree.base}`,
+      });
+    }
+  }
+
+  private async handleWorktreeCallback(ackHandle: unknown, parts: string[]): Promise<void> {
+    if (parts[0] !== "discard") {
+      await this.messenger.ackAction?.(ackHandle, "Cancelled.");
+      return;
+    }
+    const { worktree } = this.settings.get(this.conversationKey);
+    const project = this.project;
+    if (!worktree || !project) {
+      await this.messenger.ackAction?.(ackHandle, "No worktree.");
+      return;
+    }
+    if (this.isAgentRunning) {
+      await this.messenger.ackAction?.(ackHandle, "Agent is running. Use /abort first.", true);
+      return;
+    }
+
+    try {
+      await worktrees.removeWorktree(project.dir, worktree);
+    } catch (e) {
+      await this.messenger.ackAction?.(ackHandle, `Failed: ${worktrees.gitError(e).slice(0, 80)}`, true);
+      return;
+    }
+    this.logger.info({ branch: worktree.branch }, "Discarded worktree");
+    this.saveSettings({ worktree: undefined });
+    await this.rebind();
+    await this.messenger.ackAction?.(ackHandle, "Worktree discarded.");
+    await this.messenger.send(this.convo, {
+      type: "text",
+      text: `🗑 Discarded ${this.fmt.code(worktree.branch)}. CWD: ${this.fmt.code(this.cwd)}`,
+    });
+  }
+
+  private async isDirectory(path: string): Promise<boolean> {
+    try {
+      return (await stat(path)).isDirectory();
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Apply the saved directory and project: a new agent is created in the
+   * new directory and resumes its latest session there
+   */
+  private async rebind(): Promise<void> {
+    ({ cwd: this.cwd, tmuxSocket: this.tmuxSocket } = this.resolveBinding());
+    this.toolAuthorizer.setCwd(this.cwd);
+    this.toolAuthorizer.clearSessionRules();
+    this.tmuxHandler.setSocket(this.tmuxSocket);
+    if (this.managed) {
+      this.managed.dispose();
+      this.managed = null;
+    }
+    this.streamSink.resetState();
+    this.activityLog.dispose();
+    this.pendingInput = null;
+    await this.ensureInitialized();
+  }
+
   // ── Agent commands ─────────────────────────────────────────────────
 
   private async resetAgent(): Promise<void> {
@@ -1072,6 +1971,8 @@ export class ChatController {
     }
     this.isAgentRunning = false;
     this.streamSink.resetState();
+    this.activityLog.dispose();
+    this.toolAuthorizer.clearSessionRules();
     await this.init(false);
     await this.managed!.session.newSession();
     await this.messenger.send(this.convo, { type: "text", text: "🔄 Agent session reset." });
@@ -1087,7 +1988,7 @@ export class ChatController {
   }
 
   private async showStatus(): Promise<void> {
-    const tmuxSessions = await tmux.listSessions({ socketPath: this.config.tmuxDefaultSocket });
+    const tmuxSessions = await tmux.listSessions({ socketPath: this.tmuxSocket });
     const sessionId = this.managed?.session.sessionId;
     const sessionName = this.managed?.session.sessionName;
     const sessionLabel = sessionName || (sessionId ? sessionId.slice(0, 8) : this.fmt.italic("none"));
@@ -1098,15 +1999,90 @@ export class ChatController {
       `Session: ${this.fmt.code(sessionLabel)}`,
       this.convo.threadId ? `Topic: ${this.fmt.code(this.convo.threadId)}` : "",
       `Model: ${this.fmt.bold(this.activeModel.label)} (${this.fmt.code(`${this.activeModel.provider}/${this.activeModel.id}`)})`,
-      `Thinking: ${this.fmt.code(this.activeThinkingLevel)}`,
-      `Permissions: ${this.fmt.code(this.toolAuthorizer.getConfig().defaultMode || "default")}`,
+      `Thinking: ${this.fmt.code(this.activeThinkingLevel)} (reasoning ${this.showThinking ? "shown" : "hidden"})`,
+      `Permissions: ${this.fmt.code(this.permissionModeLabel)}`,
+      `Usage today: ${this.formatUsage(this.usage.report("today", { conversation: this.conversationKey }).total)} (this chat)`,
       `tmux sessions: ${tmuxSessions.length}`,
       `Selected: ${this.tmuxHandler.selectedSession ? this.fmt.bold(this.tmuxHandler.selectedSession) : this.fmt.italic("none")}`,
-      `CWD: ${this.fmt.code(this.config.cwd)}`,
+      this.project ? `Project: ${this.fmt.bold(this.project.name)}` : "",
+      this.project && this.settings.get(this.conversationKey).worktree
+        ? `Worktree: ${this.fmt.code(this.settings.get(this.conversationKey).worktree!.branch)}`
+        : "",
+      `CWD: ${this.fmt.code(this.cwd)}`,
     ].filter(Boolean);
     await this.messenger.send(this.convo, { type: "text", text: parts.join("\n") });
   }
 
+  /**
+   * /usage [today|week|month] — token usage and cost by model, user and
+   * chat for admins; other roles only see their own totals and this chat's
+   */
+  private async showUsage(args: string, sender: Sender): Promise<void> {
+    const arg = args.trim().toLowerCase() || "today";
+    if (!(USAGE_PERIODS as readonly string[]).includes(arg)) {
+      await this.messenger.send(this.convo, { type: "text", text: "Usage: /usage [today|week|month]" });
+      return;
+    }
+    const period = arg as UsagePeriod;
+    const title = { today: "today (UTC)", week: "last 7 days", month: "last 30 days" }[period];
+
+    if (!hasRole(sender.role, "admin")) {
+      const mine = this.usage.report(period, { user: sender.actingAs }).total;
+      const chat = this.usage.report(period, { conversation: this.conversationKey }).total;
+      await this.messenger.send(this.convo, {
+        type: "text",
+        text: [
+          this.fmt.bold(`📊 Usage · ${title}`),
+          "",
+          `You: ${mine.requests} requests · ${this.formatUsage(mine)}`,
+          `This chat: ${chat.requests} requests · ${this.formatUsage(chat)}`,
+        ].join("\n"),
+      });
+      return;
+    }
+
+    const report = this.usage.report(period);
+
+    const section = (heading: string, entries: Record<string, UsageTotals>): string[] => {
+      const sorted = Object.entries(entries).sort(([, a], [, b]) => b.cost - a.cost || this.tokens(b) - this.tokens(a));
+      if (sorted.length === 0) return [];
+      const lines = ["", this.fmt.bold(heading)];
+      for (const [key, totals] of sorted.slice(0, ChatController.USAGE_TOP_ENTRIES)) {
+        lines.push(`• ${this.fmt.code(key)} — ${this.formatUsage(totals)}`);
+      }
+      if (sorted.length > ChatController.USAGE_TOP_ENTRIES) {
+        lines.push(this.fmt.italic(`…and ${sorted.length - ChatController.USAGE_TOP_ENTRIES} more`));
+      }
+      return lines;
+    };
+
+    const { total } = report;
+    const lines = [
+      this.fmt.bold(`📊 Usage · ${title}`),
+      "",
+      total.requests === 0
+        ? this.fmt.italic("No model requests recorded.")
+        : [
+          `Requests: ${total.requests}`,
+          `Input: ${formatTokens(total.input)} · Output: ${formatTokens(total.output)}`,
+          `Cache read: ${formatTokens(total.cacheRead)} · Cache write: ${formatTokens(total.cacheWrite)}`,
+          `Cost: ${formatCost(total.cost)}`,
+        ].join("\n"),
+      ...section("By model", report.models),
+      ...section("By user", report.users),
+      ...section("By chat", report.conversations),
+    ];
+    await this.messenger.send(this.convo, { type: "text", text: lines.join("\n") });
+  }
+
+  private tokens(totals: UsageTotals): number {
+    return totals.input + totals.output + totals.cacheRead + totals.cacheWrite;
+  }
+
+  private formatUsage(totals: UsageTotals): string {
+    return `${formatTokens(this.tokens(totals))} tokens · ${formatCost(totals.cost)}`;
+  }
+
   private async sendHelp(): Promise<void> {
     const help = [
       this.fmt.bold("🤖 Pi Agent Bot"),
@@ -1119,11 +2095,22 @@ export class ChatController {
       "/resume — Resume a previous session",
       "/newsession — Start a fresh session",
       "/reset — Full agent reset",
+      "/project [name|off] — List projects or bind this chat to one",
+      "/cd [path] — Show or change the agent's working directory",
+      "/worktree [status|merge|discard] — This chat's git worktree (merge, discard: admin)",
       "/abort — Abort current operation",
       "/model — Select model",
+      "/model auto [on|off] — Route image and long prompts to a model that fits",
+      "/model add|remove|set-default|show — Edit models.json (owner)",
+      "/models [check [key]] — Model health checks (check: admin)",
       "/thinking — Set thinking level",
+      "/thinking show|hide — Show or hide reasoning",
       "/permissions — Configure tool permissions",
+      "/approve /deny <code> — Answer a tool authorization request",
+      "/edit <code> <value> — Approve with a corrected command or path",
       "/status — Show status",
+      "/usage [today|week|month] — Token usage and cost",
+      "/quota — Your budget and usage (owner: set, clear, rate)",
       "",
       this.fmt.bold("tmux Terminal"),
       "/tmux — Open interactive terminal mode",
@@ -1139,10 +2126,15 @@ export class ChatController {
       "/kill [name] — Kill session",
       "/resize [CxR] — Resize window (e.g. /resize 45x60)",
       "",
-      this.fmt.bold("User Management") + " (owner only)",
-      "/adduser <id> — Allow a user",
+      this.fmt.bold("User Management") + " (admins)",
+      "/adduser <id> [role] — Allow a user (admin, operator, viewer)",
+      "/invite [role] [ttl] [uses] — Create an invite code (list, revoke <id>)",
+      "/role <id> <role> — Change a user's role",
       "/removeuser <id> — Remove a user",
+      "/link <platform:id> [user] — Link an account on another platform",
       "/users — List allowed users",
+      "/chat [allow|policy|remove|list] — Group chats the bot works in",
+      "/audit [n] [tool] — Recent tool calls (owner only)",
       "",
       this.fmt.bold("Permissions & Authorization"),
       "• Use /permissions to configure tool permissions",
@@ -1198,6 +2190,11 @@ export class ChatController {
       }
       rows.push(row);
     }
+    rows.push([
+      this.showThinking
+        ? { label: "🙈 Hide reasoning", actionId: "think", data: "display:hide" }
+        : { label: "🧠 Show reasoning", actionId: "think", data: "display:show" },
+    ]);
     rows.push([{ label: "❌ Cancel", actionId: "think", data: "cancel" }]);
     return { kind: "buttons", rows };
   }
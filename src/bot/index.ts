@@ -4,8 +4,14 @@ export {
   ToolAuthorizer,
   PermissionEvaluator,
   parsePermissionRule,
+  parseAuthorizationReply,
+  suggestRule,
+  parseToolCall,
+  formatRule,
+  type AuthorizationAction,
   type PermissionConfig,
   type PermissionLevel,
   type PermissionMode,
   type PermissionRule,
+  type PermissionExplanation,
 } from "./permissions.js";
@@ -0,0 +1,170 @@
+import { describe, expect, test } from "bun:test";
+import { homedir } from "node:os";
+import type { ToolDefinition } from "@mariozechner/pi-coding-agent";
+import type { Messenger, OutMessage } from "../im/messenger.js";
+import { TelegramFormatter } from "../platforms/telegram/formatter.js";
+import { PermissionEvaluator, ToolAuthorizer, parsePermissionRule, type PermissionConfig } from "./permissions.js";
+
+const evaluator = (config: PermissionConfig) => new PermissionEvaluator({ config, cwd: "/work" });
+const bash = (e: PermissionEvaluator, command: string) => e.evaluate("bash", { command });
+
+describe("PermissionEvaluator bash commands", () => {
+  const rules = evaluator({ allow: ["bash(echo *)", "bash(npm test)", "bash(git status)"], deny: ["bash(rm *)"] });
+
+  test("allows a command only when every sub-command is allowed", () => {
+    expect(bash(rules, "npm test")).toBe("allow");
+    expect(bash(rules, "npm test && git status")).toBe("allow");
+    expect(bash(rules, "npm test && curl x")).toBe("ask");
+  });
+
+  test("denies when any sub-command is denied", () => {
+    expect(bash(rules, "echo hi; rm -rf ~")).toBe("deny");
+    expect(bash(rules, "echo $(rm -rf ~)")).toBe("deny");
+    expect(bash(rules, "echo $(( $(rm -rf ~) ))")).toBe("deny");
+    expect(bash(rules, "bash -c 'rm -rf ~'")).toBe("deny");
+  });
+
+  test("matches deny rules on the dequoted command", () => {
+    expect(bash(rules, 'r""m -rf /')).toBe("deny");
+    expect(bash(rules, "\\rm -rf /")).toBe("deny");
+    expect(bash(rules, "$'\\x72m' -rf /")).toBe("deny");
+  });
+
+  test("doesn't let assignments ride on an allow rule", () => {
+    expect(bash(rules, "PATH=/tmp/evil:$PATH npm test")).toBe("ask");
+    expect(bash(rules, "LD_PRELOAD=/tmp/x.so npm test")).toBe("ask");
+    expect(bash(rules, "env BASH_ENV=/tmp/x npm test")).toBe("ask");
+    expect(bash(rules, "PATH=/tmp/evil; npm test")).toBe("ask");
+    expect(bash(evaluator({ allow: ["bash(NODE_ENV=test npm test)"] }), "NODE_ENV=test npm test")).toBe("allow");
+  });
+
+  test("still denies a denied command behind assignments", () => {
+    expect(bash(rules, "X=1 rm -rf /")).toBe("deny");
+  });
+
+  test("checks output redirections against write rules", () => {
+    expect(bash(rules, "npm test > ~/.bashrc")).toBe("ask");
+    expect(bash(rules, "git status > x")).toBe("ask");
+    expect(bash(rules, "> x")).toBe("ask");
+    expect(bash(rules, "npm test > $HOME/x")).toBe("ask");
+    expect(bash(rules, "npm test 2>&1")).toBe("allow");
+    expect(bash(rules, "npm test 2>/dev/null")).toBe("allow");
+
+    const writes = evaluator({
+      allow: ["bash(npm test)", "write(./out/**)"],
+      deny: ["write(~/.bashrc)", "edit(./src/**)"],
+    });
+    expect(bash(writes, "npm test > out/log")).toBe("allow");
+    expect(bash(writes, "npm test > ~/.bashrc")).toBe("deny");
+    expect(bash(writes, "npm test >> src/a.ts")).toBe("deny");
+    expect(writes.evaluate("bash", { command: `npm test > ${homedir()}/.bashrc` })).toBe("deny");
+  });
+
+  test("allows redirections where file writes are accepted", () => {
+    const acceptEdits = evaluator({ allow: ["bash(npm test)"], defaultMode: "acceptEdits" });
+    expect(bash(acceptEdits, "npm test > log")).toBe("allow");
+  });
+});
+
+describe("PermissionEvaluator file paths", () => {
+  test("resolves relative tool paths against the conversation's cwd", () => {
+    const repo = new PermissionEvaluator({
+      config: { deny: ["edit(./secrets/**)"], defaultMode: "acceptEdits" },
+      cwd: "/srv/repoA",
+    });
+    expect(repo.evaluate("edit", { path: "secrets/key.pem" })).toBe("deny");
+    expect(repo.evaluate("edit", { path: "/srv/repoA/secrets/key.pem" })).toBe("deny");
+    expect(repo.evaluate("edit", { path: "src/index.ts" })).toBe("allow");
+
+    repo.setCwd("/srv/repoA2");
+    expect(repo.evaluate("edit", { path: "secrets/key.pem" })).toBe("deny");
+    expect(repo.evaluate("edit", { path: "/srv/repoA/secrets/key.pem" })).toBe("allow");
+  });
+});
+
+describe("parsePermissionRule", () => {
+  test("accepts a tool name with an optional specifier", () => {
+    expect(parsePermissionRule("Bash(npm test *)", "allow")).toEqual({ level: "allow", tool: "bash", specifier: "npm test *" });
+    expect(parsePermissionRule(" read ", "deny")).toEqual({ level: "deny", tool: "read" });
+    expect(parsePermissionRule("bash(echo (a) b)", "allow")?.specifier).toBe("echo (a) b");
+  });
+
+  test("rejects malformed rules", () => {
+    for (const rule of ["", "bash(ls", "bash(ls) extra", "two words", "bash)ls(", "(ls)"]) {
+      expect(parsePermissionRule(rule, "allow")).toBeNull();
+    }
+  });
+});
+
+describe("ToolAuthorizer rule replies", () => {
+  const ran = { content: [{ type: "text" as const, text: "ran" }], details: {} };
+
+  function setup(supportsButtons: boolean) {
+    const sent: OutMessage[] = [];
+    const saved: string[] = [];
+    const messenger: Messenger = {
+      capabilities: {
+        supportsEdit: false,
+        supportsDraft: false,
+        supportsButtons,
+        supportsThreads: false,
+        supportsDelete: false,
+        maxTextChars: 4000,
+      },
+      async send(_convo, msg) {
+        sent.push(msg);
+        return { messageRef: String(sent.length) };
+      },
+      async ackAction() {},
+    };
+    const authorizer = new ToolAuthorizer(messenger, new TelegramFormatter(), { platform: "telegram", conversationId: "1" }, {
+      cwd: "/work",
+      onSaveRule: (level, rule) => saved.push(`${level}:${rule}`),
+    });
+    const [tool] = authorizer.wrapTools([
+      { name: "bash", execute: async () => ran } as unknown as ToolDefinition,
+    ]);
+    const run = tool.execute("call-1", { command: "curl example.com" }, undefined, undefined, undefined as never);
+    return { authorizer, sent, saved, run };
+  }
+
+  const lastText = (sent: OutMessage[]) => {
+    const msg = sent.at(-1);
+    return msg?.type === "text" ? msg.text : "";
+  };
+
+  test("refuses to save a rule that doesn't parse", async () => {
+    const { authorizer, sent, saved, run } = setup(false);
+    await Bun.sleep(0);
+    expect(await authorizer.handleTextReply("/approve always bash(curl *", "alice")).toBe(true);
+    expect(lastText(sent)).toContain("is not a valid rule");
+    expect(saved).toEqual([]);
+    expect(authorizer.hasPending()).toBe(true);
+
+    expect(await authorizer.handleTextReply("/approve always bash(curl *)", "alice")).toBe(true);
+    expect(saved).toEqual(["allow:bash(curl *)"]);
+    expect(await run).toBe(ran);
+  });
+
+  test("recognises a typed rule only while a rule is proposed", async () => {
+    const { authorizer, sent, saved, run } = setup(true);
+    await Bun.sleep(0);
+    expect(authorizer.isRuleEdit("bash(curl *)")).toBe(false);
+
+    const request = sent.at(-1)!;
+    const always = request.type === "text" && request.ui?.kind === "buttons"
+      ? request.ui.rows.flat().find((b) => b.data?.startsWith("always:"))
+      : undefined;
+    const authId = always!.data!.slice("always:".length);
+    await authorizer.handleCallback(undefined, "always", authId, "admin");
+
+    expect(authorizer.isRuleEdit("bash(curl *)")).toBe(true);
+    expect(authorizer.isRuleEdit("/approve")).toBe(false);
+    expect(authorizer.isRuleEdit("please use curl")).toBe(false);
+
+    expect(await authorizer.handleTextReply("bash(curl https://*)", "admin")).toBe(true);
+    await authorizer.handleCallback(undefined, "save", authId, "admin");
+    expect(saved).toEqual(["allow:bash(curl https://*)"]);
+    expect(await run).toBe(ran);
+  });
+});
@@ -17,13 +17,15 @@
  */
 
 import type { ToolDefinition } from "@mariozechner/pi-coding-agent";
-import type { Messenger, UIButton, UIElement } from "../im/messenger.js";
+import type { Messenger, OutMessage } from "../im/messenger.js";
 import type { Formatter } from "../im/formatter.js";
 import type { ConversationRef } from "../im/types.js";
 import { minimatch } from "minimatch";
-import { resolve, isAbsolute, join } from "node:path";
+import { resolve, isAbsolute, join, dirname, relative } from "node:path";
 import { homedir } from "node:os";
 import { createLogger, type Logger } from "../logger.js";
+import { splitShellCommand, writtenFiles, formatSimpleCommand, type SimpleCommand } from "./shell-split.js";
+import type { AuditDecision, AuditEntry } from "../audit-log.js";
 
 export type PermissionLevel = "allow" | "ask" | "deny";
 export type PermissionMode = "default" | "acceptEdits" | "dontAsk" | "bypassPermissions";
@@ -32,6 +34,8 @@ export interface PermissionRule {
   level: PermissionLevel;
   tool: string;
   specifier?: string;
+  /** Where the rule comes from when not the saved config, e.g. "session" */
+  source?: string;
 }
 
 export interface PermissionConfig {
@@ -39,43 +43,227 @@ export interface PermissionConfig {
   ask?: string[];
   deny?: string[];
   defaultMode?: PermissionMode;
+  /** Name of the profile this config inherits from */
+  extends?: string;
+}
+
+/**
+ * One layer of inherited permissions (global config or a named profile)
+ */
+export interface PermissionLayer {
+  name: string;
+  config: PermissionConfig;
 }
 
 interface PendingAuthorization {
   toolName: string;
   args: any;
+  /** Short code for text replies on platforms without buttons, e.g. "7f3a" */
+  code: string;
+  /** Rule proposed by "Allow always"/"Deny always", editable until saved */
+  proposal?: { level: "allow" | "deny"; rule: string };
+  /** Waiting for the user to reply with a corrected argument ("✏️ Edit") */
+  editing?: boolean;
+  /** Audit record for this call, filled in as the request is settled */
+  audit: CallAudit;
   resolve: (value: any) => void;
   reject: (reason: Error) => void;
   timeoutId: ReturnType<typeof setTimeout>;
   messageRef?: string;
 }
 
+/**
+ * What happened to one tool call, reported via ToolAuthorizer's onToolCall
+ */
+export type ToolCallRecord = Omit<AuditEntry, "conversation" | "user">;
+
+interface CallAudit {
+  decision: AuditDecision;
+  approver: string | null;
+  /** Arguments the tool actually ran with (differs after an edit) */
+  args: any;
+  ran: boolean;
+}
+
+/**
+ * Why a tool use got its permission level
+ */
+export interface PermissionExplanation {
+  level: PermissionLevel;
+  /** Rule that decided the outcome, if any */
+  rule?: PermissionRule;
+  /** defaultMode that applied when no rule matched */
+  mode?: PermissionMode;
+  reason: string;
+  /** Per sub-command results for compound bash commands */
+  parts?: Array<{ command: string; explanation: PermissionExplanation }>;
+}
+
 interface PermissionEvaluatorOptions {
   config: PermissionConfig;
   cwd: string;
   timeoutMs: number;
+  /** Layers below the conversation config, most general first */
+  inherited?: (extendsName?: string) => PermissionLayer[];
 }
 
 /**
  * Parse a permission rule string into structured components
  * Format: "Tool" or "Tool(specifier)"
+ * Returns null for anything else, e.g. an unclosed "bash(ls" or text after
+ * the closing parenthesis.
  */
 export function parsePermissionRule(rule: string, level: PermissionLevel): PermissionRule | null {
-  const trimmed = rule.trim();
-  if (!trimmed) return null;
-
-  const openParen = trimmed.indexOf("(");
-  const closeParen = trimmed.indexOf(")");
+  const match = rule.trim().match(/^([\w*-]+)(?:\(([\s\S]*)\))?$/);
+  if (!match) return null;
 
+  const tool = match[1].toLowerCase();
+  const specifier = match[2];
   // No specifier - matches all uses of the tool
-  if (openParen === -1 || closeParen === -1 || closeParen < openParen) {
-    return { level, tool: trimmed.toLowerCase() };
+  return specifier === undefined ? { level, tool } : { level, tool, specifier };
+}
+
+/** Callback actions on an authorization request (`auth:<action>:<authId>`) */
+export type AuthorizationAction = "allow" | "deny" | "session" | "always" | "never" | "save" | "back" | "edit";
+
+/** Argument the user can correct before approving, per tool */
+const EDITABLE_ARGS: Record<string, { field: string; label: string }> = {
+  bash: { field: "command", label: "command" },
+  write: { field: "path", label: "path" },
+  edit: { field: "path", label: "path" },
+  tmux_send_keys: { field: "keys", label: "keys" },
+};
+
+/**
+ * Tell the agent its arguments were changed before the tool ran, so it
+ * doesn't assume its original call was executed
+ */
+function editedArgsNote(toolName: string, field: string, before: unknown, after: unknown): string {
+  return `[Note: the user edited the ${toolName} arguments before approving. ` +
+    `${field} was changed from ${JSON.stringify(before)} to ${JSON.stringify(after)}; the tool ran with the edited value.]`;
+}
+
+export interface AuthorizationReply {
+  action: "allow" | "deny";
+  code?: string;
+  /** "session" (allow only) or "always" to also remember the decision */
+  scope?: "session" | "always";
+  /** Rule to save instead of the suggested one */
+  rule?: string;
+}
+
+/**
+ * Parse a text reply to an authorization request.
+ * Accepts "/approve 7f3a", "/deny 7f3a", "y", "n", "yes 7f3a", "no",
+ * optionally followed by "session" or "always [rule]".
+ * Returns null if the text is not an authorization reply.
+ */
+export function parseAuthorizationReply(text: string): AuthorizationReply | null {
+  const match = text.trim().match(
+    /^\/?(approve|allow|deny|y|yes|n|no)(?:\s+([0-9a-f]{4}))?(?:\s+(session|always)(?:\s+(\S.*))?)?$/i,
+  );
+  if (!match) return null;
+  const word = match[1].toLowerCase();
+  // Bare "approve"/"deny" without a slash reads like ordinary chat
+  if (!text.trim().startsWith("/") && ["approve", "allow", "deny"].includes(word) && !match[2]) return null;
+  const action = ["approve", "allow", "y", "yes"].includes(word) ? "allow" : "deny";
+  const scope = match[3]?.toLowerCase() as AuthorizationReply["scope"];
+  if (scope === "session" && action === "deny") return null;
+  return { action, code: match[2]?.toLowerCase(), scope, rule: match[4]?.trim() };
+}
+
+/** Tools whose second word is a subcommand worth keeping in a derived rule */
+const SUBCOMMAND_TOOLS = new Set([
+  "npm", "pnpm", "yarn", "bun", "npx", "git", "cargo", "go", "docker", "kubectl",
+  "make", "pip", "uv", "poetry", "deno", "systemctl", "brew", "apt", "gh",
+]);
+
+/**
+ * Suggest a reusable rule for a tool call, e.g. `bash(npm test *)` for
+ * "npm test -- --watch" or `edit(./src/**)` for an edit in src/.
+ */
+export function suggestRule(toolName: string, args: any, cwd: string): string {
+  const tool = toolName.toLowerCase();
+
+  switch (tool) {
+    case "bash": {
+      const command = String(args?.command ?? "").trim();
+      if (!command) return tool;
+      // Compound commands are too varied to generalize safely
+      if (/[;&|<>`$()\n]/.test(command)) return `bash(${command})`;
+      const words = command.split(/\s+/);
+      const prefix = SUBCOMMAND_TOOLS.has(words[0]) && words[1] && /^[a-z][\w:-]*$/.test(words[1])
+        ? words.slice(0, 2)
+        : words.slice(0, 1);
+      return `bash(${prefix.join(" ")} *)`;
+    }
+
+    case "read":
+    case "edit":
+    case "write": {
+      if (!args?.path) return tool;
+      const dir = dirname(resolve(cwd, String(args.path)));
+      if (dir === cwd) return `${tool}(./*)`;
+      const rel = relative(cwd, dir);
+      // Outside the working directory: use an absolute pattern
+      const base = rel.startsWith("..") || isAbsolute(rel) ? `/${dir}` : `./${rel}`;
+      return `${tool}(${base}/**)`;
+    }
+
+    case "webfetch": {
+      const host = String(args?.url ?? "").match(/^https?:\/\/([^/:]+)/i)?.[1];
+      return host ? `webfetch(domain:${host.toLowerCase()})` : tool;
+    }
+
+    case "tmux_send_keys":
+    case "tmux_capture_pane":
+    case "tmux_kill_session":
+    case "tmux_new_session":
+    case "tmux_send_ctrl_c": {
+      const session = args?.session ?? args?.name;
+      return session ? `${tool}(${session})` : tool;
+    }
+
+    default:
+      return tool;
   }
+}
 
-  const tool = trimmed.slice(0, openParen).toLowerCase();
-  const specifier = trimmed.slice(openParen + 1, closeParen);
+/**
+ * Turn "bash(git push origin main)" or "edit(src/a.ts)" into the tool name
+ * and arguments of an equivalent tool call, for /permissions test
+ */
+export function parseToolCall(text: string): { toolName: string; args: Record<string, string> } | null {
+  const parsed = parsePermissionRule(text, "allow");
+  if (!parsed) return null;
+  const value = parsed.specifier ?? "";
+
+  switch (parsed.tool) {
+    case "bash":
+      return { toolName: "bash", args: { command: value } };
+    case "read":
+    case "edit":
+    case "write":
+      return { toolName: parsed.tool, args: { path: value } };
+    case "webfetch":
+      return { toolName: "webfetch", args: { url: /^https?:\/\//i.test(value) ? value : `https://${value}` } };
+    case "tmux_new_session":
+    case "tmux_kill_session":
+      return { toolName: parsed.tool, args: { name: value } };
+    case "tmux_send_keys":
+    case "tmux_capture_pane":
+    case "tmux_send_ctrl_c":
+      return { toolName: parsed.tool, args: { session: value } };
+    default:
+      return { toolName: parsed.tool, args: value ? { value } : {} };
+  }
+}
 
-  return { level, tool, specifier };
+/**
+ * Format a rule back into its "tool(specifier)" form
+ */
+export function formatRule(rule: PermissionRule): string {
+  return `${rule.tool}${rule.specifier ? `(${rule.specifier})` : ""}`;
 }
 
 /**
@@ -108,15 +296,19 @@ function normalizePath(pattern: string, cwd: string): string {
 
 /**
  * Check if a bash command matches a pattern
- * Supports glob patterns with *
+ * Supports glob patterns with *; a trailing " *" also matches the bare
+ * command, so "npm test *" matches "npm test"
  */
 function matchesBashPattern(command: string, pattern: string): boolean {
+  const bareSuffix = pattern.endsWith(" *");
+  const body = bareSuffix ? pattern.slice(0, -2) : pattern;
+
   // Escape special regex characters except *
-  const regexPattern = pattern
+  const regexPattern = body
     .replace(/[.+^${}()|[\]\\]/g, "\\$&")
     .replace(/\*/g, ".*");
 
-  const regex = new RegExp(`^${regexPattern}$`, "i");
+  const regex = new RegExp(`^${regexPattern}${bareSuffix ? "(?: .*)?" : ""}$`, "i");
   return regex.test(command);
 }
 
@@ -126,7 +318,8 @@ function matchesBashPattern(command: string, pattern: string): boolean {
  */
 function matchesPathPattern(filePath: string, pattern: string, cwd: string): boolean {
   const normalizedPattern = normalizePath(pattern, cwd);
-  const normalizedFile = resolve(filePath);
+  // Tools take paths relative to the conversation's cwd, not the bot's
+  const normalizedFile = resolve(cwd, filePath);
 
   // Direct match
   if (normalizedFile === normalizedPattern) {
@@ -142,8 +335,8 @@ function matchesPathPattern(filePath: string, pattern: string, cwd: string): boo
   }
 
   // Also check relative path from cwd
-  const relativePath = normalizedFile.startsWith(cwd)
-    ? normalizedFile.slice(cwd.length).replace(/^\//, "")
+  const relativePath = normalizedFile.startsWith(cwd.replace(/\/?$/, "/"))
+    ? relative(cwd, normalizedFile)
     : normalizedFile;
 
   if (minimatch(relativePath, pattern, matchOptions)) {
@@ -181,6 +374,8 @@ function matchesDomainPattern(url: string, pattern: string): boolean {
 
 export class PermissionEvaluator {
   private rules: PermissionRule[] = [];
+  /** In-memory allow rules from "Allow for this session", never persisted */
+  private sessionAllow: string[] = [];
   private options: PermissionEvaluatorOptions;
   private logger: Logger;
 
@@ -189,36 +384,65 @@ export class PermissionEvaluator {
       config: options.config ?? {},
       cwd: options.cwd ?? process.cwd(),
       timeoutMs: options.timeoutMs ?? 5 * 60 * 1000,
+      inherited: options.inherited,
     };
     this.logger = createLogger({ component: "permissions" });
     this.loadRules();
   }
 
   /**
-   * Load and parse all permission rules from config
-   * Rules are stored in order: deny -> ask -> allow
+   * All layers, most general first: inherited ones, then the conversation
+   */
+  private getLayers(): PermissionLayer[] {
+    return [
+      ...(this.options.inherited?.(this.options.config.extends) ?? []),
+      { name: "chat", config: this.options.config },
+    ];
+  }
+
+  /**
+   * Load and parse all permission rules from every layer
+   * Rules are stored in order: deny -> ask -> allow, so a global deny
+   * still beats a conversation allow
    */
   private loadRules(): void {
-    const config = this.options.config;
+    const layers = this.getLayers();
     this.rules = [];
 
     // Process in order: deny -> ask -> allow
-    for (const rule of config.deny ?? []) {
-      const parsed = parsePermissionRule(rule, "deny");
-      if (parsed) this.rules.push(parsed);
-    }
-
-    for (const rule of config.ask ?? []) {
-      const parsed = parsePermissionRule(rule, "ask");
-      if (parsed) this.rules.push(parsed);
+    for (const level of ["deny", "ask", "allow"] as const) {
+      for (const layer of layers) {
+        for (const rule of layer.config[level] ?? []) {
+          const parsed = parsePermissionRule(rule, level);
+          if (parsed) this.rules.push({ ...parsed, source: layer.name });
+        }
+      }
     }
 
-    for (const rule of config.allow ?? []) {
+    for (const rule of this.sessionAllow) {
       const parsed = parsePermissionRule(rule, "allow");
-      if (parsed) this.rules.push(parsed);
+      if (parsed) this.rules.push({ ...parsed, source: "session" });
     }
   }
 
+  /**
+   * Add an allow rule for the lifetime of this evaluator only
+   */
+  addSessionRule(rule: string): void {
+    if (this.sessionAllow.includes(rule)) return;
+    this.sessionAllow.push(rule);
+    this.loadRules();
+  }
+
+  clearSessionRules(): void {
+    this.sessionAllow = [];
+    this.loadRules();
+  }
+
+  getSessionRules(): string[] {
+    return [...this.sessionAllow];
+  }
+
   /**
    * Update configuration and reload rules
    */
@@ -227,15 +451,130 @@ export class PermissionEvaluator {
     this.loadRules();
   }
 
+  /**
+   * Change the directory relative path patterns resolve against
+   */
+  setCwd(cwd: string): void {
+    this.options.cwd = cwd;
+  }
+
   /**
    * Evaluate permission for a tool use
    * Returns: "allow" | "ask" | "deny"
    */
   evaluate(toolName: string, args: any): PermissionLevel {
+    return this.explain(toolName, args).level;
+  }
+
+  /**
+   * Evaluate a tool use and report why: the matching rule, or the
+   * defaultMode branch that applied
+   */
+  explain(toolName: string, args: any): PermissionExplanation {
+    // Inherited layers may have been reloaded from disk since the last call
+    this.loadRules();
     const normalizedTool = toolName.toLowerCase();
-    const mode = this.options.config.defaultMode ?? "default";
+    if (normalizedTool === "bash") {
+      return this.explainBash(args);
+    }
+    return this.explainSingle(normalizedTool, args);
+  }
 
-    this.logger.debug({ toolName, mode, args, ruleCount: this.rules.length, rules: this.rules.map(r => `${r.level}:${r.tool}${r.specifier ? `(${r.specifier})` : ""}`) }, "Evaluating permission");
+  /**
+   * Evaluate a bash command one sub-command at a time.
+   * Any denied part denies the whole command; it is only allowed if every
+   * part is allowed; otherwise ask.
+   */
+  private explainBash(args: any): PermissionExplanation {
+    const command = String(args?.command ?? "").trim();
+    const parts = splitShellCommand(command);
+    const plain = parts.length === 1 && parts[0].command === command &&
+      parts[0].assignments.length === 0 && parts[0].redirections.length === 0;
+    if (parts.length === 0 || plain) {
+      return this.explainSingle("bash", args);
+    }
+
+    // Deny rules also apply to the command as written
+    const wholeDeny = this.rules.find(
+      (r) => r.level === "deny" && (r.tool === "bash" || r.tool === "*") &&
+        (!r.specifier || matchesBashPattern(command, r.specifier)),
+    );
+    const explained = parts.map((part) => ({
+      command: formatSimpleCommand(part),
+      explanation: this.explainPart(part, args),
+    }));
+    const levels = explained.map((p) => p.explanation.level);
+    this.logger.debug({ parts, levels, wholeDenied: !!wholeDeny }, "Evaluated compound bash command");
+
+    if (wholeDeny) {
+      return { level: "deny", rule: wholeDeny, reason: "deny rule matches the whole command", parts: explained };
+    }
+    if (levels.includes("deny")) {
+      return { level: "deny", reason: "a sub-command is denied", parts: explained };
+    }
+
+    // A rule written for exactly this command (e.g. saved from a prompt) decides it as a unit
+    const exact = this.rules.find((r) => r.tool === "bash" && r.specifier === command);
+    if (exact) {
+      return { level: exact.level, rule: exact, reason: "rule matches the exact command", parts: explained };
+    }
+
+    return levels.every((level) => level === "allow")
+      ? { level: "allow", reason: "every sub-command is allowed", parts: explained }
+      : { level: "ask", reason: "not every sub-command is allowed", parts: explained };
+  }
+
+  /**
+   * Evaluate one sub-command of a bash command. Rules match the command
+   * with its `VAR=value` prefixes, so `bash(npm test)` doesn't approve
+   * `PATH=/tmp/x npm test`, while deny rules also match it without them.
+   * Each file it redirects output to is checked like a write to that path.
+   */
+  private explainPart(part: SimpleCommand, args: any): PermissionExplanation {
+    let result: PermissionExplanation = { level: "allow", reason: "runs no command" };
+    if (part.command || part.assignments.length > 0) {
+      const text = [...part.assignments, part.command].filter(Boolean).join(" ");
+      result = this.explainSingle("bash", { ...args, command: text });
+      if (result.level !== "deny" && part.command && part.assignments.length > 0) {
+        const bare = this.explainSingle("bash", { ...args, command: part.command });
+        if (bare.level === "deny") return bare;
+      }
+    }
+
+    for (const target of writtenFiles(part)) {
+      const write = this.explainRedirection(target);
+      if (write.level === "deny") return write;
+      if (write.level === "ask" && result.level === "allow") result = write;
+    }
+    return result;
+  }
+
+  /**
+   * Evaluate output redirected to `target` as a write to that file; a deny
+   * rule for edits of the path also denies it. Targets that depend on
+   * expansion can't be checked and ask.
+   */
+  private explainRedirection(target: string): PermissionExplanation {
+    if (!target || /[$`*?[]/.test(target)) {
+      return { level: "ask", reason: `redirects output to ${target || "an unknown file"}, which can't be resolved` };
+    }
+    const path = target === "~" || target.startsWith("~/")
+      ? join(homedir(), target.slice(2))
+      : resolve(this.options.cwd, target);
+    const write = this.explainSingle("write", { path });
+    const edit = this.explainSingle("edit", { path });
+    const decided = edit.level === "deny" && write.level !== "deny" ? edit : write;
+    return { ...decided, reason: `redirects output to ${target}: ${decided.reason}` };
+  }
+
+  /**
+   * Evaluate a single tool use (or one bash sub-command) against the rules,
+   * falling back to the default mode
+   */
+  private explainSingle(normalizedTool: string, args: any): PermissionExplanation {
+    const { mode } = this.getEffectiveMode();
+
+    this.logger.debug({ toolName: normalizedTool, mode, args, ruleCount: this.rules.length, rules: this.rules.map(r => `${r.level}:${r.tool}${r.specifier ? `(${r.specifier})` : ""}`) }, "Evaluating permission");
 
     // Check rules in order (deny -> ask -> allow)
     for (const rule of this.rules) {
@@ -250,7 +589,7 @@ export class PermissionEvaluator {
       // If no specifier, rule matches all uses
       if (!rule.specifier) {
         this.logger.debug({ tool: normalizedTool, level: rule.level }, "Rule has no specifier, returning level");
-        return rule.level;
+        return { level: rule.level, rule, reason: "rule matches every use of the tool" };
       }
 
       // Check specifier based on tool type
@@ -258,7 +597,7 @@ export class PermissionEvaluator {
       this.logger.trace({ tool: normalizedTool, specifier: rule.specifier, matches: specifierMatches }, "Checking specifier");
       if (specifierMatches) {
         this.logger.debug({ tool: normalizedTool, level: rule.level, specifier: rule.specifier }, "Specifier matches, returning level");
-        return rule.level;
+        return { level: rule.level, rule, reason: "rule specifier matches" };
       }
     }
 
@@ -266,20 +605,75 @@ export class PermissionEvaluator {
     switch (mode) {
       case "bypassPermissions":
         this.logger.trace({ mode }, "Mode is bypassPermissions, returning allow");
-        return "allow";
+        return { level: "allow", mode, reason: "bypassPermissions allows everything" };
       case "dontAsk":
         this.logger.trace({ mode }, "Mode is dontAsk, returning deny");
-        return "deny";
-      case "acceptEdits":
+        return { level: "deny", mode, reason: "dontAsk denies anything not pre-approved by a rule" };
+      case "acceptEdits": {
         // Auto-allow edit tools, ask for others
-        const result = ["write", "edit"].includes(normalizedTool) ? "allow" : "ask";
-        this.logger.trace({ mode, tool: normalizedTool, result }, "Mode is acceptEdits");
-        return result;
-      default:
+        const isEdit = ["write", "edit"].includes(normalizedTool);
+        this.logger.trace({ mode, tool: normalizedTool, result: isEdit ? "allow" : "ask" }, "Mode is acceptEdits");
+        return isEdit
+          ? { level: "allow", mode, reason: "acceptEdits auto-accepts file edits" }
+          : { level: "ask", mode, reason: "acceptEdits asks for everything except file edits" };
+      }
+      default: {
         // Default: ask for potentially dangerous tools
         const isDangerous = this.isPotentiallyDangerous(normalizedTool, args);
         this.logger.trace({ mode, tool: normalizedTool, isDangerous }, "Mode is default");
-        return isDangerous ? "ask" : "allow";
+        return isDangerous
+          ? { level: "ask", mode, reason: `${normalizedTool} is potentially dangerous` }
+          : { level: "allow", mode, reason: `${normalizedTool} is not considered dangerous` };
+      }
+    }
+  }
+
+  /**
+   * Find rules that can never match because an earlier rule in
+   * deny -> ask -> allow order already matches everything they would
+   */
+  findShadowedRules(): Array<{ rule: PermissionRule; shadowedBy: PermissionRule }> {
+    this.loadRules();
+    const shadowed: Array<{ rule: PermissionRule; shadowedBy: PermissionRule }> = [];
+    this.rules.forEach((rule, i) => {
+      const shadowedBy = this.rules.slice(0, i).find((earlier) => this.ruleCovers(earlier, rule));
+      if (shadowedBy) shadowed.push({ rule, shadowedBy });
+    });
+    return shadowed;
+  }
+
+  /**
+   * Whether every use matched by `inner` is also matched by `outer`.
+   * Patterns are compared as text, so this can miss overlaps but never
+   * reports one that doesn't exist.
+   */
+  private ruleCovers(outer: PermissionRule, inner: PermissionRule): boolean {
+    if (outer.tool !== inner.tool && outer.tool !== "*") return false;
+    if (!outer.specifier) return true;
+    if (!inner.specifier) return false;
+    if (outer.specifier === inner.specifier) return true;
+
+    switch (inner.tool) {
+      case "bash":
+      case "tmux_send_keys":
+      case "tmux_capture_pane":
+      case "tmux_kill_session":
+      case "tmux_new_session":
+      case "tmux_send_ctrl_c":
+        return matchesBashPattern(inner.specifier, outer.specifier);
+      case "read":
+      case "edit":
+      case "write":
+        return minimatch(
+          normalizePath(inner.specifier, this.options.cwd),
+          normalizePath(outer.specifier, this.options.cwd),
+          { dot: true },
+        );
+      case "webfetch":
+        return !inner.specifier.includes("*") &&
+          matchesDomainPattern(`https://${inner.specifier.replace(/^domain:/, "")}/`, outer.specifier);
+      default:
+        return false;
     }
   }
 
@@ -335,10 +729,22 @@ export class PermissionEvaluator {
     return { ...this.options.config };
   }
 
+  /**
+   * The defaultMode in effect and the layer it comes from: the most
+   * specific layer that sets one, else "default"
+   */
+  getEffectiveMode(): { mode: PermissionMode; source?: string } {
+    const layer = this.getLayers().reverse().find((l) => l.config.defaultMode);
+    return layer
+      ? { mode: layer.config.defaultMode!, source: layer.name }
+      : { mode: "default" };
+  }
+
   /**
    * Format rules for display
    */
   formatRules(fmt: Formatter): string {
+    this.loadRules();
     const lines: string[] = [];
 
     const denies = this.rules.filter((r) => r.level === "deny");
@@ -349,7 +755,7 @@ export class PermissionEvaluator {
       lines.push(fmt.bold("Deny:"));
       for (const r of denies) {
         const ruleText = `${r.tool}${r.specifier ? `(${r.specifier})` : ""}`;
-        lines.push(`  ${fmt.escape(ruleText)}`);
+        lines.push(`  ${fmt.escape(ruleText)}${r.source ? ` ${fmt.italic(`(${r.source})`)}` : ""}`);
       }
     }
 
@@ -357,7 +763,7 @@ export class PermissionEvaluator {
       lines.push(fmt.bold("Ask:"));
       for (const r of asks) {
         const ruleText = `${r.tool}${r.specifier ? `(${r.specifier})` : ""}`;
-        lines.push(`  ${fmt.escape(ruleText)}`);
+        lines.push(`  ${fmt.escape(ruleText)}${r.source ? ` ${fmt.italic(`(${r.source})`)}` : ""}`);
       }
     }
 
@@ -365,7 +771,7 @@ export class PermissionEvaluator {
       lines.push(fmt.bold("Allow:"));
       for (const r of allows) {
         const ruleText = `${r.tool}${r.specifier ? `(${r.specifier})` : ""}`;
-        lines.push(`  ${fmt.escape(ruleText)}`);
+        lines.push(`  ${fmt.escape(ruleText)}${r.source ? ` ${fmt.italic(`(${r.source})`)}` : ""}`);
       }
     }
 
@@ -380,6 +786,7 @@ export class PermissionEvaluator {
    * Format rules for display (raw text, no HTML)
    */
   formatRulesRaw(): string {
+    this.loadRules();
     const lines: string[] = [];
 
     const denies = this.rules.filter((r) => r.level === "deny");
@@ -389,21 +796,21 @@ export class PermissionEvaluator {
     if (denies.length > 0) {
       lines.push("Deny:");
       for (const r of denies) {
-        lines.push(`  ${r.tool}${r.specifier ? `(${r.specifier})` : ""}`);
+        lines.push(`  ${r.tool}${r.specifier ? `(${r.specifier})` : ""}${r.source ? ` (${r.source})` : ""}`);
       }
     }
 
     if (asks.length > 0) {
       lines.push("Ask:");
       for (const r of asks) {
-        lines.push(`  ${r.tool}${r.specifier ? `(${r.specifier})` : ""}`);
+        lines.push(`  ${r.tool}${r.specifier ? `(${r.specifier})` : ""}${r.source ? ` (${r.source})` : ""}`);
       }
     }
 
     if (allows.length > 0) {
       lines.push("Allow:");
       for (const r of allows) {
-        lines.push(`  ${r.tool}${r.specifier ? `(${r.specifier})` : ""}`);
+        lines.push(`  ${r.tool}${r.specifier ? `(${r.specifier})` : ""}${r.source ? ` (${r.source})` : ""}`);
       }
     }
 
@@ -422,6 +829,9 @@ export class ToolAuthorizer {
   private evaluator: PermissionEvaluator;
   private pending = new Map<string, PendingAuthorization>();
   private timeoutMs: number;
+  private cwd: string;
+  private onSaveRule?: (level: "allow" | "deny", rule: string) => void;
+  private onToolCall?: (call: ToolCallRecord) => void;
   private logger: Logger;
 
   constructor(
@@ -432,17 +842,27 @@ export class ToolAuthorizer {
       config?: PermissionConfig;
       cwd?: string;
       timeoutMs?: number;
+      /** Persist a rule chosen via "Allow always"/"Deny always" */
+      onSaveRule?: (level: "allow" | "deny", rule: string) => void;
+      /** Global/profile layers below the conversation config */
+      inherited?: (extendsName?: string) => PermissionLayer[];
+      /** Called once per tool call with its verdict, decision and outcome */
+      onToolCall?: (call: ToolCallRecord) => void;
     } = {},
   ) {
     this.messenger = messenger;
     this.fmt = fmt;
     this.convo = convo;
     this.timeoutMs = options.timeoutMs ?? 5 * 60 * 1000;
+    this.cwd = options.cwd ?? process.cwd();
+    this.onSaveRule = options.onSaveRule;
+    this.onToolCall = options.onToolCall;
     this.logger = createLogger({ component: "tool-authorizer" });
     this.evaluator = new PermissionEvaluator({
       config: options.config ?? {},
       cwd: options.cwd,
       timeoutMs: this.timeoutMs,
+      inherited: options.inherited,
     });
   }
 
@@ -453,6 +873,14 @@ export class ToolAuthorizer {
     this.evaluator.setConfig(config);
   }
 
+  /**
+   * Change the working directory used for path rules and suggested rules
+   */
+  setCwd(cwd: string): void {
+    this.cwd = cwd;
+    this.evaluator.setCwd(cwd);
+  }
+
   /**
    * Get current configuration
    */
@@ -460,6 +888,13 @@ export class ToolAuthorizer {
     return this.evaluator.getConfig();
   }
 
+  /**
+   * Get the defaultMode in effect after inheritance
+   */
+  getEffectiveMode(): { mode: PermissionMode; source?: string } {
+    return this.evaluator.getEffectiveMode();
+  }
+
   /**
    * Evaluate permission for a tool use without executing
    */
@@ -467,17 +902,39 @@ export class ToolAuthorizer {
     return this.evaluator.evaluate(toolName, args);
   }
 
+  /**
+   * Explain the permission outcome for a tool use without executing
+   */
+  explain(toolName: string, args: any): PermissionExplanation {
+    return this.evaluator.explain(toolName, args);
+  }
+
+  /**
+   * Rules that can never match because of the deny -> ask -> allow order
+   */
+  findShadowedRules(): Array<{ rule: PermissionRule; shadowedBy: PermissionRule }> {
+    return this.evaluator.findShadowedRules();
+  }
+
   /**
    * Wrap tool definitions with authorization layer
    */
   wrapTools(tools: ToolDefinition[]): ToolDefinition[] {
-    const mode = this.evaluator.getConfig().defaultMode;
+    const { mode } = this.evaluator.getEffectiveMode();
     this.logger.debug({ mode, tools: tools.map(t => t.name) }, "wrapTools called");
 
-    // In bypass mode, don't wrap
+    // In bypass mode, don't authorize; only record calls if auditing
     if (mode === "bypassPermissions") {
       this.logger.debug("bypassPermissions mode - tools NOT wrapped");
-      return tools;
+      if (!this.onToolCall) return tools;
+      return tools.map((tool): ToolDefinition => ({
+        ...tool,
+        execute: (id, params, ...rest) =>
+          this.audited(tool.name, params, "allow", (call) => {
+            call.ran = true;
+            return tool.execute(id, params, ...rest);
+          }),
+      }));
     }
 
     this.logger.debug({ toolCount: tools.length }, "Wrapping tools with authorization");
@@ -490,42 +947,88 @@ export class ToolAuthorizer {
           const permission = this.evaluator.evaluate(tool.name, params);
           this.logger.debug({ toolName: tool.name, permission }, "Tool evaluated");
 
-          switch (permission) {
-            case "allow":
-              this.logger.trace({ toolName: tool.name }, "Tool allowed - executing directly");
-              return tool.execute(id, params);
-            case "deny":
-              this.logger.debug({ toolName: tool.name }, "Tool denied - throwing error");
-              throw new Error(
-                `Permission denied: ${tool.name} is blocked by permission rules`,
-              );
-            case "ask":
-            default:
-              this.logger.debug({ toolName: tool.name }, "Tool requires authorization - sending request");
-              return this.authorizeAndExecute(tool.name, params, () =>
-                tool.execute(id, params),
-              );
-          }
+          return this.audited(tool.name, params, permission, (call) => {
+            switch (permission) {
+              case "allow":
+                this.logger.trace({ toolName: tool.name }, "Tool allowed - executing directly");
+                call.ran = true;
+                return tool.execute(id, params);
+              case "deny":
+                this.logger.debug({ toolName: tool.name }, "Tool denied - throwing error");
+                call.decision = "blocked";
+                throw new Error(
+                  `Permission denied: ${tool.name} is blocked by permission rules`,
+                );
+              case "ask":
+              default:
+                this.logger.debug({ toolName: tool.name }, "Tool requires authorization - sending request");
+                return this.authorizeAndExecute(tool.name, params, call, (approvedParams) =>
+                  tool.execute(id, approvedParams),
+                );
+            }
+          });
         },
       };
     });
   }
 
+  /**
+   * Run a tool call and report its outcome to onToolCall
+   */
+  private async audited(
+    toolName: string,
+    params: any,
+    verdict: PermissionLevel,
+    run: (call: CallAudit) => Promise<any>,
+  ): Promise<any> {
+    const startedAt = Date.now();
+    const call: CallAudit = { decision: "auto", approver: null, args: params, ran: false };
+    const report = (error?: unknown) => {
+      if (!this.onToolCall) return;
+      try {
+        this.onToolCall({
+          tool: toolName.toLowerCase(),
+          args: call.args,
+          verdict,
+          decision: call.decision,
+          approver: call.approver,
+          status: !call.ran ? "not-run" : error ? "error" : "ok",
+          durationMs: Date.now() - startedAt,
+          ...(error ? { error: error instanceof Error ? error.message : String(error) } : {}),
+        });
+      } catch (err) {
+        this.logger.error({ err, toolName }, "Failed to record tool call");
+      }
+    };
+
+    try {
+      const result = await run(call);
+      report();
+      return result;
+    } catch (err) {
+      report(err);
+      throw err;
+    }
+  }
+
   /**
    * Request authorization for a tool execution
    */
   private async authorizeAndExecute(
     toolName: string,
     args: any,
-    executeFn: () => Promise<any>,
+    audit: CallAudit,
+    executeFn: (params: any) => Promise<any>,
   ): Promise<any> {
     const authId = `${toolName}_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
-    this.logger.debug({ authId, toolName }, "authorizeAndExecute created");
+    const code = this.newApprovalCode();
+    this.logger.debug({ authId, code, toolName }, "authorizeAndExecute created");
 
     return new Promise((resolve, reject) => {
       // Set timeout for authorization
       const timeoutId = setTimeout(() => {
         this.logger.warn({ authId, toolName }, "Authorization timeout");
+        audit.decision = "timeout";
         this.cleanupAuthorization(authId);
         reject(
           new Error(
@@ -537,20 +1040,26 @@ export class ToolAuthorizer {
       this.pending.set(authId, {
         toolName,
         args,
+        code,
+        audit,
         resolve,
         reject,
         timeoutId,
       });
 
       // Send authorization request
-      this.sendAuthorizationRequest(authId, toolName, args).catch((err) => {
+      this.sendAuthorizationRequest(authId).catch((err) => {
         this.cleanupAuthorization(authId);
         reject(err);
       });
     }).then(async (result) => {
       if (result === true) {
         // User approved, execute the tool
-        return executeFn();
+        audit.ran = true;
+        return executeFn(args);
+      } else if (result && typeof result === "object" && "edited" in result) {
+        // User approved with corrected arguments
+        return this.executeEdited(toolName, args, (result as { edited: any }).edited, audit, executeFn);
       } else {
         // User denied
         throw new Error(`Tool execution denied by user: ${toolName}`);
@@ -559,42 +1068,57 @@ export class ToolAuthorizer {
   }
 
   /**
-   * Send authorization request message with buttons
+   * Run a tool with user-edited params and flag the change in its result
    */
-  private async sendAuthorizationRequest(
-    authId: string,
+  private async executeEdited(
     toolName: string,
-    args: any,
-  ): Promise<void> {
-    this.logger.debug({ authId, toolName }, "Sending authorization request");
+    original: any,
+    edited: any,
+    audit: CallAudit,
+    executeFn: (params: any) => Promise<any>,
+  ): Promise<any> {
+    const { field } = EDITABLE_ARGS[toolName.toLowerCase()];
+    const note = editedArgsNote(toolName, field, original?.[field], edited[field]);
 
-    const toolDisplay = this.formatToolDisplay(toolName, args);
+    audit.args = edited;
+    audit.ran = true;
+    let result;
+    try {
+      result = await executeFn(edited);
+    } catch (err) {
+      const msg = err instanceof Error ? err.message : String(err);
+      throw new Error(`${msg}\n${note}`);
+    }
+    if (result && Array.isArray(result.content)) {
+      return { ...result, content: [{ type: "text", text: note }, ...result.content] };
+    }
+    return result;
+  }
 
-    const text = [
-      `🔒 ${this.fmt.bold("Authorization Required")}`,
-      "",
-      toolDisplay,
-      "",
-      this.fmt.italic("Do you want to allow this action?"),
-    ].join("\n");
+  /**
+   * Generate a 4-hex-digit approval code not used by another pending request
+   */
+  private newApprovalCode(): string {
+    const inUse = new Set(Array.from(this.pending.values(), (p) => p.code));
+    let code: string;
+    do {
+      code = Math.floor(Math.random() * 0x10000).toString(16).padStart(4, "0");
+    } while (inUse.has(code));
+    return code;
+  }
 
-    const ui: UIElement = {
-      kind: "buttons",
-      rows: [
-        [
-          { label: "✅ Allow", actionId: "auth", data: `allow:${authId}` },
-          { label: "❌ Deny", actionId: "auth", data: `deny:${authId}` },
-        ],
-      ],
-    };
+  /**
+   * Send authorization request message with buttons, or with reply
+   * instructions on platforms without buttons
+   */
+  private async sendAuthorizationRequest(authId: string): Promise<void> {
+    const pending = this.pending.get(authId);
+    if (!pending) return;
+    this.logger.debug({ authId, toolName: pending.toolName }, "Sending authorization request");
 
     let result;
     try {
-      result = await this.messenger.send(this.convo, {
-        type: "text",
-        text,
-        ui,
-      });
+      result = await this.messenger.send(this.convo, this.renderRequest(authId, pending));
       this.logger.debug({ result }, "Authorization message sent");
     } catch (err) {
       this.logger.error({ err }, "Failed to send authorization message");
@@ -602,12 +1126,96 @@ export class ToolAuthorizer {
     }
 
     // Store message ref for cleanup
-    const pending = this.pending.get(authId);
-    if (pending && result.messageRef) {
+    if (result.messageRef) {
       pending.messageRef = result.messageRef;
     }
   }
 
+  /**
+   * Render the request message: the initial choices, or the rule proposal
+   * after "Allow always"/"Deny always"
+   */
+  private renderRequest(authId: string, pending: PendingAuthorization): OutMessage {
+    const useButtons = this.messenger.capabilities.supportsButtons;
+    const lines = [
+      `🔒 ${this.fmt.bold("Authorization Required")}`,
+      "",
+      this.formatToolDisplay(pending.toolName, pending.args),
+      "",
+    ];
+
+    const editable = EDITABLE_ARGS[pending.toolName.toLowerCase()];
+
+    if (pending.editing && editable) {
+      lines.push(
+        `✏️ Reply with the corrected ${editable.label}.`,
+        `Current: ${this.fmt.code(String(pending.args?.[editable.field] ?? ""))}`,
+      );
+      return {
+        type: "text",
+        text: lines.join("\n"),
+        ui: useButtons
+          ? { kind: "buttons", rows: [[{ label: "↩️ Back", actionId: "auth", data: `back:${authId}` }]] }
+          : { kind: "none" },
+      };
+    }
+
+    if (pending.proposal) {
+      const { level, rule } = pending.proposal;
+      lines.push(
+        `💾 Save ${level} rule: ${this.fmt.code(rule)}`,
+        this.fmt.italic("Reply with a different rule to change it."),
+      );
+      return {
+        type: "text",
+        text: lines.join("\n"),
+        ui: {
+          kind: "buttons",
+          rows: [[
+            { label: level === "allow" ? "💾 Save & allow" : "💾 Save & deny", actionId: "auth", data: `save:${authId}` },
+            { label: "↩️ Back", actionId: "auth", data: `back:${authId}` },
+          ]],
+        },
+      };
+    }
+
+    lines.push(this.fmt.italic("Do you want to allow this action?"));
+    if (!useButtons) {
+      const { code } = pending;
+      const rule = suggestRule(pending.toolName, pending.args, this.cwd);
+      lines.push(
+        `Reply ${this.fmt.code(`/approve ${code}`)} or ${this.fmt.code(`/deny ${code}`)} (${this.fmt.code("y")} / ${this.fmt.code("n")} if it is the only request)`,
+        `Add ${this.fmt.code("session")} or ${this.fmt.code("always")} to remember, e.g. ${this.fmt.code(`/approve ${code} always`)} saves ${this.fmt.code(rule)}; put another rule after ${this.fmt.code("always")} to save that instead.`,
+      );
+      if (editable) {
+        lines.push(`To run it with a corrected ${editable.label}: ${this.fmt.code(`/edit ${code} <${editable.label}>`)}`);
+      }
+      return { type: "text", text: lines.join("\n"), ui: { kind: "none" } };
+    }
+
+    return {
+      type: "text",
+      text: lines.join("\n"),
+      ui: {
+        kind: "buttons",
+        rows: [
+          [
+            { label: "✅ Allow", actionId: "auth", data: `allow:${authId}` },
+            { label: "❌ Deny", actionId: "auth", data: `deny:${authId}` },
+          ],
+          [
+            { label: "🔁 Allow for this session", actionId: "auth", data: `session:${authId}` },
+            ...(editable ? [{ label: "✏️ Edit", actionId: "auth", data: `edit:${authId}` }] : []),
+          ],
+          [
+            { label: "♾ Allow always…", actionId: "auth", data: `always:${authId}` },
+            { label: "🚫 Deny always…", actionId: "auth", data: `never:${authId}` },
+          ],
+        ],
+      },
+    };
+  }
+
   /**
    * Format tool display for authorization message
    */
@@ -680,57 +1288,362 @@ export class ToolAuthorizer {
     return parts.join("\n");
   }
 
+  /**
+   * Whether any tool call is waiting for the user's decision
+   */
+  hasPending(): boolean {
+    return this.pending.size > 0;
+  }
+
   /**
    * Handle authorization callback from user
    */
   async handleCallback(
     ackHandle: unknown,
-    action: "allow" | "deny",
+    action: AuthorizationAction,
     authId: string,
+    approver?: string,
   ): Promise<void> {
     this.logger.debug({ action, authId, pendingKeys: Array.from(this.pending.keys()) }, "handleCallback called");
 
     const pending = this.pending.get(authId);
-
     if (!pending) {
       this.logger.warn({ authId }, "No pending authorization found");
       await this.messenger.ackAction?.(ackHandle, "Request expired or already handled.");
       return;
     }
 
+    switch (action) {
+      case "allow":
+      case "deny":
+        await this.messenger.ackAction?.(ackHandle, action === "allow" ? "Action approved." : "Action denied.");
+        await this.settle(authId, action, { approver });
+        return;
+
+      case "session":
+        await this.messenger.ackAction?.(ackHandle, "Allowed for this session.");
+        await this.settle(authId, "allow", { scope: "session", approver });
+        return;
+
+      case "always":
+      case "never":
+        // Show the rule first so it can be edited before saving
+        pending.proposal = {
+          level: action === "always" ? "allow" : "deny",
+          rule: suggestRule(pending.toolName, pending.args, this.cwd),
+        };
+        await this.messenger.ackAction?.(ackHandle);
+        await this.updateRequest(authId, pending);
+        return;
+
+      case "save": {
+        if (!pending.proposal) {
+          await this.messenger.ackAction?.(ackHandle, "Nothing to save.");
+          return;
+        }
+        const { level, rule } = pending.proposal;
+        await this.messenger.ackAction?.(ackHandle, `Saved ${level} rule.`);
+        await this.settle(authId, level, { scope: "always", rule, approver });
+        return;
+      }
+
+      case "edit":
+        if (!EDITABLE_ARGS[pending.toolName.toLowerCase()]) {
+          await this.messenger.ackAction?.(ackHandle, "This tool can't be edited.");
+          return;
+        }
+        pending.proposal = undefined;
+        pending.editing = true;
+        await this.messenger.ackAction?.(ackHandle);
+        await this.updateRequest(authId, pending);
+        return;
+
+      case "back":
+        pending.proposal = undefined;
+        pending.editing = false;
+        await this.messenger.ackAction?.(ackHandle);
+        await this.updateRequest(authId, pending);
+        return;
+    }
+  }
+
+  /**
+   * Handle a text reply ("/approve 7f3a", "y", ...) to a pending authorization,
+   * or an edited rule while a rule proposal is shown.
+   * Returns false if the text is not an authorization reply, so the caller
+   * can treat it as a normal message.
+   */
+  async handleTextReply(text: string, approver?: string): Promise<boolean> {
+    const trimmed = text.trim();
+
+    // "/edit 7f3a <value>" on platforms without buttons
+    const editCommand = trimmed.match(/^\/edit(?:\s+([0-9a-f]{4}))?(?:\s+([\s\S]+))?$/i);
+    if (editCommand) {
+      return this.handleEditCommand(editCommand[1]?.toLowerCase(), editCommand[2], approver);
+    }
+
+    // After "✏️ Edit" the next plain message is the corrected value
+    const editing = Array.from(this.pending.entries()).reverse().find(([, p]) => p.editing);
+    if (editing && !trimmed.startsWith("/")) {
+      await this.settleEdited(editing[0], trimmed, approver);
+      return true;
+    }
+
+    const reply = parseAuthorizationReply(text);
+    if (!reply) return this.handleRuleEdit(text);
+
+    const isCommand = text.trim().startsWith("/");
+    if (this.pending.size === 0) {
+      // A bare "y"/"n" with nothing pending is just a message for the agent
+      if (!isCommand) return false;
+      await this.messenger.send(this.convo, { type: "text", text: "No pending authorization requests." });
+      return true;
+    }
+
+    let authId: string | undefined;
+    if (reply.code) {
+      authId = Array.from(this.pending.entries()).find(([, p]) => p.code === reply.code)?.[0];
+      if (!authId) {
+        await this.messenger.send(this.convo, {
+          type: "text",
+          text: `No pending request with code ${this.fmt.code(reply.code)}.\n${this.formatPendingCodes()}`,
+        });
+        return true;
+      }
+    } else if (this.pending.size === 1) {
+      authId = this.pending.keys().next().value;
+    } else {
+      await this.messenger.send(this.convo, {
+        type: "text",
+        text: `Several requests are pending, reply with a code.\n${this.formatPendingCodes()}`,
+      });
+      return true;
+    }
+
+    if (reply.rule && !parsePermissionRule(reply.rule, reply.action)) {
+      await this.messenger.send(this.convo, { type: "text", text: this.invalidRuleText(reply.rule) });
+      return true;
+    }
+
+    this.logger.debug({ action: reply.action, scope: reply.scope, authId }, "Text authorization reply");
+    await this.settle(authId!, reply.action, { confirm: true, scope: reply.scope, rule: reply.rule, approver });
+    return true;
+  }
+
+  private async handleEditCommand(
+    code: string | undefined,
+    value: string | undefined,
+    approver?: string,
+  ): Promise<boolean> {
+    const entries = Array.from(this.pending.entries());
+    const entry = code
+      ? entries.find(([, p]) => p.code === code)
+      : entries.length === 1 ? entries[0] : undefined;
+
+    if (!entry || !value?.trim()) {
+      const usage = `Usage: ${this.fmt.code("/edit <code> <corrected value>")}`;
+      await this.messenger.send(this.convo, {
+        type: "text",
+        text: this.pending.size > 0 ? `${usage}\n${this.formatPendingCodes()}` : "No pending authorization requests.",
+      });
+      return true;
+    }
+
+    if (!EDITABLE_ARGS[entry[1].toolName.toLowerCase()]) {
+      await this.messenger.send(this.convo, {
+        type: "text",
+        text: `${this.fmt.code(entry[1].toolName)} arguments can't be edited, approve or deny it instead.`,
+      });
+      return true;
+    }
+
+    await this.settleEdited(entry[0], value.trim(), approver);
+    return true;
+  }
+
+  /**
+   * Approve a pending call with a corrected argument. The edited call is
+   * checked against the rules again so an edit can't sneak past a deny rule.
+   */
+  private async settleEdited(authId: string, value: string, approver?: string): Promise<void> {
+    const pending = this.pending.get(authId);
+    if (!pending) return;
+    const { field, label } = EDITABLE_ARGS[pending.toolName.toLowerCase()];
+    const edited = { ...pending.args, [field]: value };
+
+    if (this.evaluator.evaluate(pending.toolName, edited) === "deny") {
+      await this.messenger.send(this.convo, {
+        type: "text",
+        text: `🚫 The edited ${label} is blocked by permission rules. Reply with another ${label}, or deny the request.`,
+      });
+      return;
+    }
+
+    this.logger.debug({ authId, toolName: pending.toolName, field }, "Approving with edited arguments");
+    clearTimeout(pending.timeoutId);
+    pending.audit.decision = "approved-edited";
+    pending.audit.approver = approver ?? null;
+    pending.resolve({ edited });
+    this.cleanupAuthorization(authId);
+
+    const newText = [
+      `✏️ ${this.fmt.bold("Authorized with edits")}: ${this.fmt.code(pending.toolName)}`,
+      `${label}: ${this.fmt.code(value)}`,
+    ].join("\n");
+    if (pending.messageRef && this.messenger.edit) {
+      try {
+        await this.messenger.edit(this.convo, pending.messageRef, { type: "text", text: newText });
+        return;
+      } catch {
+        // Fall through to a new message
+      }
+    }
+    await this.messenger.send(this.convo, { type: "text", text: newText }).catch(() => {});
+  }
+
+  /**
+   * The request whose proposed rule `text` would replace, if the text is a
+   * rule typed while a proposal is shown rather than any other reply
+   */
+  private ruleEditTarget(text: string): [string, PendingAuthorization] | undefined {
+    const trimmed = text.trim();
+    if (/^\/edit\b/i.test(trimmed) || parseAuthorizationReply(trimmed)) return undefined;
+    const editing = Array.from(this.pending.values()).some((p) => p.editing);
+    if (editing && !trimmed.startsWith("/")) return undefined;
+
+    const entry = Array.from(this.pending.entries()).reverse().find(([, p]) => p.proposal);
+    if (!entry) return undefined;
+    // Only "tool(specifier)" or the bare tool name count as a rule; anything else is chat
+    if (!/^[\w*-]+\(.*\)$/s.test(trimmed) && trimmed.toLowerCase() !== entry[1].toolName.toLowerCase()) return undefined;
+    return entry;
+  }
+
+  /**
+   * Whether `text` would replace a proposed rule. Saving the rule needs a
+   * higher role than answering the request, so the caller checks it first.
+   */
+  isRuleEdit(text: string): boolean {
+    return this.ruleEditTarget(text) !== undefined;
+  }
+
+  /**
+   * Replace the proposed rule with one typed by the user
+   */
+  private async handleRuleEdit(text: string): Promise<boolean> {
+    const entry = this.ruleEditTarget(text);
+    if (!entry) return false;
+
+    const [authId, pending] = entry;
+    const rule = text.trim();
+    if (!parsePermissionRule(rule, pending.proposal!.level)) {
+      await this.messenger.send(this.convo, { type: "text", text: this.invalidRuleText(rule) });
+      return true;
+    }
+
+    pending.proposal!.rule = rule;
+    this.logger.debug({ authId, rule }, "Proposed rule edited");
+    await this.updateRequest(authId, pending);
+    return true;
+  }
+
+  private invalidRuleText(rule: string): string {
+    return `${this.fmt.code(rule)} is not a valid rule. Use ${this.fmt.code("tool")} or ${this.fmt.code("tool(specifier)")}, e.g. ${this.fmt.code("bash(npm test *)")}.`;
+  }
+
+  private async updateRequest(authId: string, pending: PendingAuthorization): Promise<void> {
+    const msg = this.renderRequest(authId, pending);
+    if (pending.messageRef && this.messenger.edit) {
+      try {
+        await this.messenger.edit(this.convo, pending.messageRef, msg);
+        return;
+      } catch (err) {
+        this.logger.debug({ err }, "Failed to edit authorization message, resending");
+      }
+    }
+    const result = await this.messenger.send(this.convo, msg);
+    if (result.messageRef) pending.messageRef = result.messageRef;
+  }
+
+  private formatPendingCodes(): string {
+    return Array.from(this.pending.values(), (p) => `• ${this.fmt.code(p.code)} — ${this.fmt.escape(p.toolName)}`).join("\n");
+  }
+
+  /**
+   * Resolve a pending authorization, remember the decision if asked to,
+   * and update the request message
+   */
+  private async settle(
+    authId: string,
+    action: "allow" | "deny",
+    opts: { confirm?: boolean; scope?: "session" | "always"; rule?: string; approver?: string } = {},
+  ): Promise<void> {
+    const pending = this.pending.get(authId);
+    if (!pending) return;
+
     this.logger.debug({ authId, toolName: pending.toolName }, "Found pending authorization");
 
     // Clear timeout
     clearTimeout(pending.timeoutId);
 
+    const rule = opts.scope ? (opts.rule ?? suggestRule(pending.toolName, pending.args, this.cwd)) : undefined;
+    if (opts.scope === "session" && rule) {
+      this.evaluator.addSessionRule(rule);
+    } else if (opts.scope === "always" && rule) {
+      this.onSaveRule?.(action, rule);
+    }
+
+    pending.audit.decision = action === "allow" ? "approved" : "denied";
+    pending.audit.approver = opts.approver ?? null;
+
     // Resolve the pending promise
     if (action === "allow") {
       this.logger.debug({ toolName: pending.toolName }, "Resolving with approval");
       pending.resolve(true);
-      await this.messenger.ackAction?.(ackHandle, "Action approved.");
     } else {
       this.logger.debug({ toolName: pending.toolName }, "Rejecting with denial");
       pending.reject(new Error(`Tool execution denied: ${pending.toolName}`));
-      await this.messenger.ackAction?.(ackHandle, "Action denied.");
     }
 
     this.cleanupAuthorization(authId);
 
+    const lines = [
+      action === "allow"
+        ? `✅ ${this.fmt.bold("Authorized")}: ${this.fmt.code(pending.toolName)}`
+        : `❌ ${this.fmt.bold("Denied")}: ${this.fmt.code(pending.toolName)}`,
+    ];
+    if (rule) {
+      lines.push(
+        opts.scope === "session"
+          ? `🔁 Allowed for this session: ${this.fmt.code(rule)}`
+          : `💾 Saved ${action} rule: ${this.fmt.code(rule)}`,
+      );
+    }
+    const newText = lines.join("\n");
+
     // Edit the message to remove buttons and show result
-    if (pending.messageRef) {
+    if (pending.messageRef && this.messenger.edit) {
       try {
-        const newText =
-          action === "allow"
-            ? `✅ ${this.fmt.bold("Authorized")}: ${this.fmt.code(pending.toolName)}`
-            : `❌ ${this.fmt.bold("Denied")}: ${this.fmt.code(pending.toolName)}`;
-        await this.messenger.edit?.(this.convo, pending.messageRef, {
+        await this.messenger.edit(this.convo, pending.messageRef, {
           type: "text",
           text: newText,
         });
+        return;
       } catch {
         // Ignore edit failures
       }
     }
+
+    // Text replies get an explicit confirmation when the request can't be edited
+    if (opts.confirm) {
+      await this.messenger.send(this.convo, { type: "text", text: newText }).catch(() => {});
+    }
+  }
+
+  /**
+   * Forget rules added with "Allow for this session"
+   */
+  clearSessionRules(): void {
+    this.evaluator.clearSessionRules();
   }
 
   /**
@@ -746,6 +1659,7 @@ export class ToolAuthorizer {
   dispose(): void {
     for (const [authId, pending] of this.pending) {
       clearTimeout(pending.timeoutId);
+      pending.audit.decision = "cancelled";
       pending.reject(new Error("Session ended - authorization cancelled"));
     }
     this.pending.clear();
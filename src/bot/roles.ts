@@ -0,0 +1,100 @@
+/**
+ * Minimum role required for each chat command and button action.
+ *
+ * Viewers may chat with the agent and use read-only commands; changing
+ * models, sessions or tmux state needs an operator; permissions, killing
+ * tmux sessions and resets need an admin; editing models.json needs the
+ * owner. User management and the audit log are checked in the Router.
+ */
+
+import type { Role } from "../auth.js";
+import type { UserRef } from "../im/types.js";
+
+/**
+ * The user behind an inbound event, with the role the Router resolved
+ */
+export interface Sender {
+  user: UserRef;
+  /** `platform:userId` of the account that sent the event */
+  identity: string;
+  /** The user `identity` acts as (`AuthStore.resolve`): quotas and usage count linked accounts together */
+  actingAs: string;
+  role: Role;
+}
+
+const COMMAND_ROLES: Record<string, Role> = {
+  "/tmux": "operator",
+  "/resume": "operator",
+  "/newsession": "operator",
+  "/new": "operator",
+  "/send": "operator",
+  "/ctrlc": "operator",
+  "/select": "operator",
+  "/resize": "operator",
+  "/abort": "operator",
+  "/kill": "admin",
+  "/reset": "admin",
+};
+
+/** `/model` subcommands that edit models.json; model keys with these names can't be picked by typing */
+export const MODEL_EDIT_SUBCOMMANDS = ["add", "remove", "set-default", "show"];
+
+export function commandRole(command: string, args: string): Role {
+  const [sub = "", value] = args.trim().toLowerCase().split(/\s+/);
+  switch (command) {
+    case "/permissions":
+      // Viewing rules, testing a call and listing modes/profiles only read
+      if (sub === "" || sub === "test") return "viewer";
+      if ((sub === "mode" || sub === "profile") && !value) return "viewer";
+      return "admin";
+    case "/model":
+      // Editing models.json changes the models for every chat
+      if (MODEL_EDIT_SUBCOMMANDS.includes(sub)) return "owner";
+      return sub ? "operator" : "viewer";
+    case "/models":
+      // A check sends real requests to every model
+      return sub === "check" ? "admin" : "viewer";
+    case "/project":
+      // Projects are set up by the owner; binding applies their model and permission profile
+      return sub ? "operator" : "viewer";
+    case "/worktree":
+      // Merging changes the project's branch; discarding deletes the topic's work
+      return sub === "merge" || sub === "discard" ? "admin" : "viewer";
+    case "/cd":
+      // Any directory on the host, outside what projects.json offers
+      return sub ? "admin" : "viewer";
+    case "/thinking":
+      // Without arguments it only shows the current setting and a picker
+      return sub ? "operator" : "viewer";
+    default:
+      return COMMAND_ROLES[command] ?? "viewer";
+  }
+}
+
+export function callbackRole(actionId: string, parts: string[]): Role {
+  const action = parts[0];
+  switch (actionId) {
+    case "tmux":
+      if (action === "kill") return "admin";
+      return ["list", "refresh", "capture"].includes(action) ? "viewer" : "operator";
+    case "confirm":
+      // Only tmux-kill asks for confirmation; cancelling is harmless
+      return action === "yes" ? "admin" : "viewer";
+    case "term":
+      return action === "refresh" ? "viewer" : "operator";
+    case "sess":
+      return action === "more" || action === "refresh" ? "viewer" : "operator";
+    case "model":
+    case "think":
+      return action === "cancel" ? "viewer" : "operator";
+    case "auth":
+      // Remembering a decision writes a permission rule
+      return ["always", "never", "save"].includes(action) ? "admin" : "operator";
+    case "perm":
+      return action === "close" ? "viewer" : "admin";
+    case "wt":
+      return action === "cancel" ? "viewer" : "admin";
+    default:
+      return "operator";
+  }
+}
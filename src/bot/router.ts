@@ -1,29 +1,61 @@
 import type { Messenger } from "../im/messenger.js";
 import type { Formatter } from "../im/formatter.js";
 import type { StreamSink } from "../im/stream-sink.js";
-import type { ConversationRef, InboundEvent, UserRef } from "../im/types.js";
+import type { ChatInfo, ConversationRef, InboundEvent, UserRef } from "../im/types.js";
 import type { Config } from "../config.js";
-import { AuthStore } from "../auth.js";
+import {
+  AuthStore,
+  CHAT_POLICIES,
+  chatIdOf,
+  hasRole,
+  identityOf,
+  isRole,
+  parseIdentity,
+  type ChatPolicy,
+  type Role,
+} from "../auth.js";
 import { PermissionStore } from "../permissions-store.js";
+import { AuditLog, type AuditRecord } from "../audit-log.js";
+import { UsageStore, formatCost, formatTokens } from "../usage-store.js";
+import { QUOTA_PERIODS, QuotaStore, type Budget, type QuotaPeriod } from "../quota-store.js";
+import type { ConversationSettingsStore } from "../conversation-settings-store.js";
+import type { ProjectStore } from "../project-store.js";
 import { ChatController } from "./controller.js";
+import { ModelChecker } from "../agent/model-check.js";
+import type { Sender } from "./roles.js";
 import { createLogger, type Logger } from "../logger.js";
 
 export interface RouterOptions {
   config: Config;
   auth: AuthStore;
   permissions: PermissionStore;
+  audit: AuditLog;
+  usage: UsageStore;
+  quotas: QuotaStore;
+  settings: ConversationSettingsStore;
+  projects: ProjectStore;
   messenger: Messenger;
   fmt: Formatter;
   createStreamSink: (convo: ConversationRef) => StreamSink;
+  /** Telegram bot username, used to build invite deep links */
+  botUsername?: string;
 }
 
 export class Router {
   private config: Config;
   private auth: AuthStore;
   private permissions: PermissionStore;
+  private audit: AuditLog;
+  private usage: UsageStore;
+  private quotas: QuotaStore;
+  private settings: ConversationSettingsStore;
+  private projects: ProjectStore;
   private messenger: Messenger;
   private fmt: Formatter;
   private createStreamSink: (convo: ConversationRef) => StreamSink;
+  private botUsername?: string;
+  /** Shared by all chats so `/model` everywhere sees the last `/models check` */
+  private modelChecker: ModelChecker;
   private logger: Logger;
 
   private controllers = new Map<string, ChatController>();
@@ -32,17 +64,51 @@ export class Router {
 
   private static readonly CONTROLLER_TTL_MS = 30 * 60 * 1000;
   private static readonly CLEANUP_INTERVAL_MS = 5 * 60 * 1000;
+  private static readonly AUDIT_MAX_ENTRIES = 50;
+
+  /** Commands handled by the Router and the role they need */
+  private static readonly MANAGEMENT_COMMANDS: Record<string, Role> = {
+    "/adduser": "admin",
+    "/removeuser": "admin",
+    "/role": "admin",
+    "/link": "admin",
+    "/unlink": "admin",
+    "/users": "admin",
+    "/invite": "admin",
+    "/chat": "admin",
+    // Anyone may see their own quota; changing limits is checked in handleQuota
+    "/quota": "viewer",
+    "/audit": "owner",
+  };
+  private static readonly AUDIT_ARGS_PREVIEW = 200;
+  private static readonly INVITE_DEFAULT_TTL_MS = 24 * 60 * 60 * 1000;
+  private static readonly INVITE_MAX_TTL_MS = 30 * 24 * 60 * 60 * 1000;
+  private static readonly INVITE_MAX_USES = 100;
 
   constructor(opts: RouterOptions) {
     this.config = opts.config;
     this.auth = opts.auth;
     this.permissions = opts.permissions;
+    this.audit = opts.audit;
+    this.usage = opts.usage;
+    this.quotas = opts.quotas;
+    this.settings = opts.settings;
+    this.projects = opts.projects;
     this.messenger = opts.messenger;
     this.fmt = opts.fmt;
     this.createStreamSink = opts.createStreamSink;
+    this.botUsername = opts.botUsername;
+    this.modelChecker = new ModelChecker(() => this.config.modelRegistry);
     this.logger = createLogger({ component: "router" });
   }
 
+  /** The sender with their role, or null if they are not authorized */
+  private sender(from: UserRef): Sender | null {
+    const identity = identityOf(from);
+    const role = this.auth.getRole(identity);
+    return role ? { user: from, identity, actingAs: this.auth.resolve(identity), role } : null;
+  }
+
   private controllerKey(convo: ConversationRef): string {
     return `${convo.conversationId}:${convo.threadId ?? ""}`;
   }
@@ -59,6 +125,12 @@ export class Router {
         this.config,
         this.createStreamSink,
         this.permissions,
+        this.audit,
+        this.usage,
+        this.quotas,
+        this.modelChecker,
+        this.settings,
+        this.projects,
       );
       this.controllers.set(key, ctrl);
     }
@@ -108,51 +180,107 @@ export class Router {
       case "image":
         await this.handleImage(event);
         break;
+      case "joined":
+        await this.handleJoined(event);
+        break;
     }
   };
 
+  /** Direct chats are always allowed; group chats must be on the allowlist */
+  private isChatAllowed(event: InboundEvent): boolean {
+    return event.chat?.kind !== "group" || this.auth.isChatAllowed(chatIdOf(event.convo));
+  }
+
+  /** Whether the chat's policy lets the bot answer this message */
+  private isAddressed(event: Extract<InboundEvent, { type: "text" | "image" }>): boolean {
+    if (event.chat?.kind !== "group") return true;
+    return this.auth.getChat(chatIdOf(event.convo))?.policy === "all" || !!event.addressed;
+  }
+
+  /**
+   * The bot was added to a group. Stay if the chat is allowed or an admin
+   * added it (they can allow it with /chat allow); otherwise leave.
+   */
+  private async handleJoined(event: Extract<InboundEvent, { type: "joined" }>): Promise<void> {
+    const chatId = chatIdOf(event.convo);
+    if (this.auth.isChatAllowed(chatId)) return;
+
+    const role = this.auth.getRole(identityOf(event.from));
+    if (role && hasRole(role, "admin")) {
+      await this.messenger.send(event.convo, {
+        type: "text",
+        text: "🔒 This chat isn't on the allowlist yet. Send /chat allow here to enable the bot, or /chat remove to make it leave.",
+      });
+      return;
+    }
+
+    this.logger.warn({ chatId, title: event.chat.title, addedBy: identityOf(event.from) }, "Added to a chat that isn't allowed, leaving");
+    await this.messenger.send(event.convo, {
+      type: "text",
+      text: "🔒 This bot isn't enabled for this chat. Ask an admin to allow it.",
+    });
+    if (this.messenger.leave) {
+      await this.messenger.leave(event.convo);
+    }
+  }
+
   private async handleAction(
     event: Extract<InboundEvent, { type: "action" }>,
   ): Promise<void> {
-    const userId = Number(event.from.userId);
-    this.logger.debug({ actionId: event.actionId, data: event.data, userId }, "handleAction");
-    if (!this.auth.isAuthorized(userId)) {
+    const sender = this.sender(event.from);
+    this.logger.debug({ actionId: event.actionId, data: event.data, userId: event.from.userId }, "handleAction");
+    if (!sender) {
       await this.messenger.ackAction?.(event.ackHandle, "Unauthorized.", true);
       return;
     }
     if (!event.data) return;
+    if (!this.isChatAllowed(event)) {
+      await this.messenger.ackAction?.(event.ackHandle, "This chat isn't enabled.", true);
+      return;
+    }
 
     // Auth callbacks must bypass the queue to avoid deadlock:
     // the queued prompt task is blocked waiting for this callback to resolve.
     if (event.actionId === "auth") {
       const ctrl = this.getController(event.convo);
       this.logger.debug({ data: event.data }, "Auth callback bypass queue");
-      await ctrl.handleCallback(event.ackHandle, event.actionId, event.data);
+      await ctrl.handleCallback(event.ackHandle, event.actionId, event.data, sender);
       return;
     }
 
     this.enqueue(event.convo, async () => {
       const ctrl = this.getController(event.convo);
       this.logger.debug({ actionId: event.actionId, data: event.data }, "Routing to controller.handleCallback");
-      await ctrl.handleCallback(event.ackHandle, event.actionId, event.data);
+      await ctrl.handleCallback(event.ackHandle, event.actionId, event.data, sender);
     });
   }
 
   private async handleCommand(
     event: Extract<InboundEvent, { type: "command" }>,
   ): Promise<void> {
-    const userId = Number(event.from.userId);
+    // /chat is how an admin enables an unlisted group, so it must get through
+    if (event.command !== "/chat" && !this.isChatAllowed(event)) {
+      if (this.sender(event.from)) {
+        await this.messenger.send(event.convo, {
+          type: "text",
+          text: "🔒 This chat isn't enabled. An admin can send /chat allow here.",
+        });
+      }
+      return;
+    }
+
     const handled = await this.handleAuthCommand(
       event.convo,
-      userId,
-      event.from.displayName,
+      event.from,
       event.command,
       event.args,
       event.raw,
+      event.chat,
     );
     if (handled) return;
 
-    if (!this.auth.isAuthorized(userId)) {
+    const sender = this.sender(event.from);
+    if (!sender) {
       if (event.command === "/start") {
         await this.messenger.send(event.convo, {
           type: "text",
@@ -162,26 +290,41 @@ export class Router {
       return;
     }
 
+    // Like auth callbacks, approval replies bypass the queue
+    if (event.command === "/approve" || event.command === "/deny" || event.command === "/edit") {
+      const ctrl = this.getController(event.convo);
+      await ctrl.handleAuthorizationReply(`${event.command} ${event.args}`, sender);
+      return;
+    }
+
     this.enqueue(event.convo, async () => {
       const ctrl = this.getController(event.convo);
-      await ctrl.handleCommand(event.command, event.args);
+      await ctrl.handleCommand(event.command, event.args, sender);
     });
   }
 
   private async handleText(
     event: Extract<InboundEvent, { type: "text" }>,
   ): Promise<void> {
-    const userId = Number(event.from.userId);
-    if (!this.auth.isAuthorized(userId)) return;
+    const sender = this.sender(event.from);
+    if (!sender || !this.isChatAllowed(event)) return;
 
     const isTmuxTopic = !!(event.raw && typeof event.raw === "object" && (event.raw as Record<string, unknown>).isTmuxTopic);
 
+    // "y"/"n" replies to a pending authorization bypass the queue
+    const existing = this.controllers.get(this.controllerKey(event.convo));
+    if (!isTmuxTopic && existing && (await existing.handleAuthorizationReply(event.text, sender))) {
+      return;
+    }
+    // tmux topics forward everything to the terminal regardless of policy
+    if (!isTmuxTopic && !this.isAddressed(event)) return;
+
     this.enqueue(event.convo, async () => {
       const ctrl = this.getController(event.convo);
       if (isTmuxTopic) {
-        await ctrl.handleTmuxTopicMessage(event.text);
+        await ctrl.handleTmuxTopicMessage(event.text, sender);
       } else {
-        await ctrl.handleMessage(event.text);
+        await ctrl.handleMessage(event.text, sender);
       }
     });
   }
@@ -189,22 +332,22 @@ export class Router {
   private async handleImage(
     event: Extract<InboundEvent, { type: "image" }>,
   ): Promise<void> {
-    const userId = Number(event.from.userId);
-    if (!this.auth.isAuthorized(userId)) return;
+    const sender = this.sender(event.from);
+    if (!sender || !this.isChatAllowed(event) || !this.isAddressed(event)) return;
 
     this.enqueue(event.convo, async () => {
       const ctrl = this.getController(event.convo);
-      await ctrl.handlePhoto(event.image, event.caption);
+      await ctrl.handlePhoto(event.image, event.caption, sender);
     });
   }
 
   private async handleAuthCommand(
     convo: ConversationRef,
-    userId: number,
-    username: string | undefined,
+    from: UserRef,
     command: string,
     args: string,
     raw?: unknown,
+    chat?: ChatInfo,
   ): Promise<boolean> {
     if (command === "/start" && !this.auth.isPaired()) {
       const chatType = this.extractChatType(raw);
@@ -215,17 +358,22 @@ export class Router {
         });
         return true;
       }
-      this.auth.pair(userId, username);
+      this.auth.pair(identityOf(from), from.displayName);
       const lines = [
         `🔐 ${this.fmt.bold("Paired!")}`,
         "",
         "You are now the owner of this bot.",
-        `Your user ID: ${this.fmt.code(String(userId))}`,
+        `Your user ID: ${this.fmt.code(identityOf(from))}`,
         "",
         `${this.fmt.bold("Owner commands:")}`,
-        `/adduser ${this.fmt.escape("<user_id>")} — Allow another user`,
+        `/adduser ${this.fmt.escape("<user_id> [role]")} — Allow another user`,
+        `/role ${this.fmt.escape("<user_id> <role>")} — Change a user's role`,
         `/removeuser ${this.fmt.escape("<user_id>")} — Remove a user`,
+        `/invite ${this.fmt.escape("[role] [ttl] [uses]")} — Create an invite code`,
+        `/link ${this.fmt.escape("<platform:user_id>")} — Link your account on another platform`,
         `/users — List allowed users`,
+        `/chat allow — Enable the bot in a group (send it there)`,
+        `/audit ${this.fmt.escape("[n] [tool]")} — Recent tool calls`,
         "",
         "Send /help to see all commands.",
       ];
@@ -241,93 +389,685 @@ export class Router {
       return true;
     }
 
-    if (this.auth.isOwner(userId)) {
-      switch (command) {
-        case "/adduser": {
-          const targetId = Number(args.trim());
-          if (!targetId || !Number.isInteger(targetId)) {
-            await this.messenger.send(convo, {
-              type: "text",
-              text: `Usage: /adduser ${this.fmt.escape("<user_id>")}\n\nAsk the user to message @userinfobot to find their ID.`,
-            });
-            return true;
-          }
-          if (this.auth.addUser(targetId)) {
-            await this.messenger.send(convo, {
-              type: "text",
-              text: `✅ User ${this.fmt.code(String(targetId))} added.`,
-            });
-          } else {
-            await this.messenger.send(convo, {
-              type: "text",
-              text: `User ${this.fmt.code(String(targetId))} is already allowed.`,
-            });
-          }
+    if (command === "/start" && args.trim()) {
+      await this.redeemInvite(convo, from, args.trim());
+      return true;
+    }
+
+    const role = this.auth.getRole(identityOf(from));
+    const required = Router.MANAGEMENT_COMMANDS[command];
+    if (!required) return false;
+    if (!role || !hasRole(role, required)) {
+      await this.messenger.send(convo, {
+        type: "text",
+        text: required === "owner" ? "🔒 Owner-only command." : `🔒 This needs the ${this.fmt.bold(required)} role.`,
+      });
+      return true;
+    }
+
+    const usageId = this.fmt.escape("<user_id|platform:user_id>");
+    switch (command) {
+      case "/adduser": {
+        const [idArg = "", roleArg = "operator"] = args.trim().split(/\s+/);
+        const target = parseIdentity(idArg, from.platform);
+        if (!target || !isRole(roleArg) || roleArg === "owner") {
+          await this.messenger.send(convo, {
+            type: "text",
+            text: [
+              `Usage: /adduser ${usageId} ${this.fmt.escape("[admin|operator|viewer]")}`,
+              "",
+              `A bare ID is taken to be on ${from.platform}, e.g. ${this.fmt.code("/adduser wxwork:ZhangSan viewer")}.`,
+              "Telegram users can message @userinfobot to find their ID.",
+            ].join("\n"),
+          });
           return true;
         }
+        if (!this.canGrant(role, roleArg)) {
+          await this.messenger.send(convo, { type: "text", text: `🔒 Only the owner can add ${this.fmt.escape(roleArg)} users.` });
+          return true;
+        }
+        if (this.auth.addUser(target, roleArg)) {
+          await this.messenger.send(convo, {
+            type: "text",
+            text: `✅ User ${this.fmt.code(target)} added as ${this.fmt.bold(roleArg)}.`,
+          });
+        } else {
+          await this.messenger.send(convo, {
+            type: "text",
+            text: `User ${this.fmt.code(target)} is already allowed. Use /role to change their role.`,
+          });
+        }
+        return true;
+      }
 
-        case "/removeuser": {
-          const targetId = Number(args.trim());
-          if (!targetId || !Number.isInteger(targetId)) {
-            await this.messenger.send(convo, {
-              type: "text",
-              text: `Usage: /removeuser ${this.fmt.escape("<user_id>")}`,
-            });
-            return true;
-          }
-          if (this.auth.removeUser(targetId)) {
-            await this.messenger.send(convo, {
-              type: "text",
-              text: `✅ User ${this.fmt.code(String(targetId))} removed.`,
-            });
-          } else if (this.auth.isOwner(targetId)) {
-            await this.messenger.send(convo, { type: "text", text: "Cannot remove the owner." });
-          } else {
-            await this.messenger.send(convo, {
-              type: "text",
-              text: `User ${this.fmt.code(String(targetId))} is not in the allowed list.`,
-            });
-          }
+      case "/removeuser": {
+        const target = parseIdentity(args, from.platform);
+        if (!target) {
+          await this.messenger.send(convo, {
+            type: "text",
+            text: `Usage: /removeuser ${usageId}`,
+          });
           return true;
         }
+        const targetRole = this.auth.getRole(target);
+        if (targetRole && targetRole !== "owner" && !this.canGrant(role, targetRole)) {
+          await this.messenger.send(convo, { type: "text", text: `🔒 Only the owner can remove ${this.fmt.escape(targetRole)} users.` });
+          return true;
+        }
+        if (this.auth.removeUser(target)) {
+          await this.messenger.send(convo, {
+            type: "text",
+            text: `✅ User ${this.fmt.code(target)} removed.`,
+          });
+        } else if (this.auth.isOwner(target)) {
+          await this.messenger.send(convo, { type: "text", text: "Cannot remove the owner." });
+        } else if (this.auth.resolve(target) !== target) {
+          await this.messenger.send(convo, {
+            type: "text",
+            text: `${this.fmt.code(target)} is a linked account, use /unlink to remove it.`,
+          });
+        } else {
+          await this.messenger.send(convo, {
+            type: "text",
+            text: `User ${this.fmt.code(target)} is not in the allowed list.`,
+          });
+        }
+        return true;
+      }
 
-        case "/users": {
-          const data = this.auth.getData();
-          const lines: string[] = [
-            this.fmt.bold("Allowed Users"),
-            "",
-            `Owner: ${this.fmt.code(String(data.ownerId))}${data.ownerUsername ? ` (@${this.fmt.escape(data.ownerUsername)})` : ""}`,
-            `Paired: ${data.pairedAt ?? "unknown"}`,
-            "",
-          ];
-          if (data.allowedUserIds.length > 1) {
-            const others = data.allowedUserIds.filter((id) => id !== data.ownerId);
-            lines.push(this.fmt.bold("Other users:"));
-            for (const id of others) {
-              lines.push(`• ${this.fmt.code(String(id))}`);
-            }
-          } else {
-            lines.push(this.fmt.italic("No other users added."));
-          }
-          lines.push(
-            "",
-            `/adduser ${this.fmt.escape("<id>")} — add user`,
-            `/removeuser ${this.fmt.escape("<id>")} — remove user`,
-          );
-          await this.messenger.send(convo, { type: "text", text: lines.join("\n") });
+      case "/role": {
+        const [idArg = "", roleArg] = args.trim().split(/\s+/);
+        const target = parseIdentity(idArg, from.platform);
+        if (!target || !roleArg || !isRole(roleArg) || roleArg === "owner") {
+          await this.messenger.send(convo, {
+            type: "text",
+            text: `Usage: /role ${usageId} ${this.fmt.escape("<admin|operator|viewer>")}`,
+          });
+          return true;
+        }
+        const targetRole = this.auth.getRole(target);
+        if (!targetRole) {
+          await this.messenger.send(convo, {
+            type: "text",
+            text: `User ${this.fmt.code(target)} is not in the allowed list.`,
+          });
+          return true;
+        }
+        if (targetRole === "owner") {
+          await this.messenger.send(convo, { type: "text", text: "The owner's role can't be changed." });
           return true;
         }
+        if (!this.canGrant(role, targetRole) || !this.canGrant(role, roleArg)) {
+          await this.messenger.send(convo, { type: "text", text: "🔒 Only the owner can manage admins." });
+          return true;
+        }
+        this.auth.setRole(target, roleArg);
+        await this.messenger.send(convo, {
+          type: "text",
+          text: `✅ User ${this.fmt.code(this.auth.resolve(target))} is now ${this.fmt.bold(roleArg)}.`,
+        });
+        return true;
       }
-    }
 
-    if (["/adduser", "/removeuser", "/users"].includes(command)) {
-      await this.messenger.send(convo, { type: "text", text: "🔒 Owner-only command." });
-      return true;
+      case "/link": {
+        // /link <account> [user] — link another platform account to a user (default: yourself)
+        const [aliasArg = "", targetArg] = args.trim().split(/\s+/);
+        const alias = parseIdentity(aliasArg, from.platform);
+        const target = targetArg ? parseIdentity(targetArg, from.platform) : identityOf(from);
+        if (!alias || !aliasArg.includes(":") || !target) {
+          await this.messenger.send(convo, {
+            type: "text",
+            text: [
+              `Usage: /link ${this.fmt.escape("<platform:user_id> [user]")}`,
+              "",
+              `Links another platform account of the same person, so it gets that user's access. Without ${this.fmt.escape("[user]")} the account is linked to you.`,
+              `Example: ${this.fmt.code("/link wxwork:ZhangSan")}`,
+            ].join("\n"),
+          });
+          return true;
+        }
+        const targetRole = this.auth.getRole(target);
+        const self = this.auth.resolve(target) === this.auth.resolve(identityOf(from));
+        if (targetRole && !self && !this.canGrant(role, targetRole)) {
+          await this.messenger.send(convo, { type: "text", text: `🔒 Only the owner can link accounts to ${this.fmt.escape(targetRole)} users.` });
+          return true;
+        }
+        const linkedTo = this.auth.resolve(alias);
+        if (linkedTo !== alias && linkedTo !== this.auth.resolve(target)) {
+          await this.messenger.send(convo, {
+            type: "text",
+            text: `${this.fmt.code(alias)} is already linked to ${this.fmt.code(linkedTo)}. Unlink it first with /unlink.`,
+          });
+          return true;
+        }
+        // The alias gives up whatever access it has now, so that has to be below the sender's too
+        const aliasRole = linkedTo === alias ? this.auth.getRole(alias) : null;
+        if (aliasRole && !this.canGrant(role, aliasRole)) {
+          await this.messenger.send(convo, { type: "text", text: `🔒 Only the owner can link ${this.fmt.escape(aliasRole)} accounts.` });
+          return true;
+        }
+        if (this.auth.link(alias, target)) {
+          await this.messenger.send(convo, {
+            type: "text",
+            text: `🔗 ${this.fmt.code(alias)} linked to ${this.fmt.code(this.auth.resolve(target))}.`,
+          });
+        } else {
+          await this.messenger.send(convo, {
+            type: "text",
+            text: !targetRole
+              ? `User ${this.fmt.code(target)} is not in the allowed list.`
+              : `${this.fmt.code(alias)} is already allowed on its own. Remove it first with /removeuser.`,
+          });
+        }
+        return true;
+      }
+
+      case "/unlink": {
+        const alias = parseIdentity(args, from.platform);
+        if (!alias) {
+          await this.messenger.send(convo, { type: "text", text: `Usage: /unlink ${this.fmt.escape("<platform:user_id>")}` });
+          return true;
+        }
+        const targetRole = this.auth.getRole(alias);
+        const self = this.auth.resolve(alias) === this.auth.resolve(identityOf(from));
+        if (targetRole && !self && !this.canGrant(role, targetRole)) {
+          await this.messenger.send(convo, { type: "text", text: `🔒 Only the owner can unlink ${this.fmt.escape(targetRole)} accounts.` });
+          return true;
+        }
+        await this.messenger.send(convo, {
+          type: "text",
+          text: this.auth.unlink(alias)
+            ? `✅ ${this.fmt.code(alias)} unlinked.`
+            : `${this.fmt.code(alias)} is not a linked account.`,
+        });
+        return true;
+      }
+
+      case "/users": {
+        const data = this.auth.getData();
+        const linked = (id: string) => this.auth.linkedTo(id).map((alias) => `    ↳ ${this.fmt.code(alias)}`);
+        const lines: string[] = [
+          this.fmt.bold("Allowed Users"),
+          "",
+          `Owner: ${this.fmt.code(String(data.ownerId))}${data.ownerUsername ? ` (@${this.fmt.escape(data.ownerUsername)})` : ""}`,
+          ...linked(data.ownerId!),
+          `Paired: ${data.pairedAt ?? "unknown"}`,
+          "",
+        ];
+        if (data.allowedUserIds.length > 1) {
+          const others = data.allowedUserIds.filter((id) => id !== data.ownerId);
+          lines.push(this.fmt.bold("Other users:"));
+          for (const id of others) {
+            lines.push(`• ${this.fmt.code(id)} — ${this.auth.getRole(id) ?? "?"}`, ...linked(id));
+          }
+        } else {
+          lines.push(this.fmt.italic("No other users added."));
+        }
+        lines.push(
+          "",
+          `/adduser ${this.fmt.escape("<id> [role]")} — add user`,
+          `/invite ${this.fmt.escape("[role] [ttl] [uses]")} — invite users`,
+          `/role ${this.fmt.escape("<id> <role>")} — change role`,
+          `/link ${this.fmt.escape("<platform:id> [user]")} — link another account`,
+          `/removeuser ${this.fmt.escape("<id>")} — remove user`,
+        );
+        await this.messenger.send(convo, { type: "text", text: lines.join("\n") });
+        return true;
+      }
+
+      case "/invite":
+        await this.handleInvite(convo, from, role, args);
+        return true;
+
+      case "/chat":
+        await this.handleChat(convo, from, chat, args);
+        return true;
+
+      case "/quota":
+        await this.handleQuota(convo, from, role, args);
+        return true;
+
+      case "/audit":
+        await this.sendAuditLog(convo, args);
+        return true;
     }
 
     return false;
   }
 
+  /**
+   * /start CODE — add the sender with the role of an invite
+   */
+  private async redeemInvite(convo: ConversationRef, from: UserRef, code: string): Promise<void> {
+    const identity = identityOf(from);
+    if (this.auth.isAuthorized(identity)) {
+      await this.messenger.send(convo, { type: "text", text: "✅ You already have access. Send /help to see all commands." });
+      return;
+    }
+    const role = this.auth.redeemInvite(code, identity);
+    if (!role) {
+      this.logger.warn({ identity }, "Invalid invite code");
+      await this.messenger.send(convo, {
+        type: "text",
+        text: "🔒 This invite code is invalid, expired or already used. Ask the owner for a new one.",
+      });
+      return;
+    }
+    this.logger.info({ identity, role }, "User joined via invite");
+    await this.messenger.send(convo, {
+      type: "text",
+      text: [
+        `🎉 ${this.fmt.bold("Welcome!")}`,
+        "",
+        `You have been added as ${this.fmt.bold(role)}.`,
+        `Your user ID: ${this.fmt.code(identity)}`,
+        "",
+        "Send /help to see all commands.",
+      ].join("\n"),
+    });
+  }
+
+  /**
+   * /invite [role] [ttl] [uses] — create an invite code
+   * /invite list — outstanding invites
+   * /invite revoke <id> — revoke one
+   */
+  private async handleInvite(convo: ConversationRef, from: UserRef, role: Role, args: string): Promise<void> {
+    const tokens = args.trim().split(/\s+/).filter(Boolean);
+    const sub = tokens[0]?.toLowerCase();
+
+    if (sub === "list") {
+      const invites = this.auth.listInvites();
+      const lines = [this.fmt.bold("Outstanding invites"), ""];
+      if (invites.length === 0) lines.push(this.fmt.italic("No outstanding invites."));
+      for (const { id, invite } of invites) {
+        lines.push(
+          `• ${this.fmt.code(id)} — ${invite.role} · ${invite.usesLeft} use${invite.usesLeft === 1 ? "" : "s"} left · expires ${this.formatTime(invite.expiresAt)}`,
+          `    by ${this.fmt.escape(invite.createdBy)}${invite.usedBy.length ? ` · used by ${this.fmt.escape(invite.usedBy.join(", "))}` : ""}`,
+        );
+      }
+      lines.push("", `/invite revoke ${this.fmt.escape("<id>")} — revoke an invite`);
+      await this.messenger.send(convo, { type: "text", text: lines.join("\n") });
+      return;
+    }
+
+    if (sub === "revoke") {
+      const found = tokens[1] ? this.auth.getInvite(tokens[1]) : null;
+      if (!found) {
+        await this.messenger.send(convo, {
+          type: "text",
+          text: tokens[1] ? `No outstanding invite ${this.fmt.code(tokens[1])}. See /invite list.` : `Usage: /invite revoke ${this.fmt.escape("<id>")}`,
+        });
+        return;
+      }
+      if (!this.canGrant(role, found.invite.role)) {
+        await this.messenger.send(convo, { type: "text", text: `🔒 Only the owner can revoke ${this.fmt.escape(found.invite.role)} invites.` });
+        return;
+      }
+      this.auth.revokeInvite(found.id);
+      await this.messenger.send(convo, { type: "text", text: `✅ Invite ${this.fmt.code(found.id)} revoked.` });
+      return;
+    }
+
+    // Arguments may come in any order: a role, a TTL like 30m/12h/7d, a use count
+    let inviteRole: Exclude<Role, "owner"> = "operator";
+    let ttlMs = Router.INVITE_DEFAULT_TTL_MS;
+    let uses = 1;
+    let valid = true;
+    for (const token of tokens) {
+      const lower = token.toLowerCase();
+      const ttl = /^(\d+)([mhd])$/.exec(lower);
+      if (isRole(lower) && lower !== "owner") inviteRole = lower;
+      else if (ttl) ttlMs = Number(ttl[1]) * { m: 60_000, h: 3_600_000, d: 86_400_000 }[ttl[2] as "m" | "h" | "d"];
+      else if (/^\d+$/.test(token)) uses = Number(token);
+      else valid = false;
+    }
+    if (!valid || ttlMs <= 0 || ttlMs > Router.INVITE_MAX_TTL_MS || uses < 1 || uses > Router.INVITE_MAX_USES) {
+      await this.messenger.send(convo, {
+        type: "text",
+        text: [
+          `Usage: /invite ${this.fmt.escape("[admin|operator|viewer] [ttl] [uses]")}`,
+          "",
+          `TTL is like ${this.fmt.code("30m")}, ${this.fmt.code("12h")} or ${this.fmt.code("7d")} (default 24h, at most 30d); uses default to 1 (at most ${Router.INVITE_MAX_USES}).`,
+          `Example: ${this.fmt.code("/invite viewer 7d 5")}`,
+          "",
+          "/invite list — outstanding invites",
+          `/invite revoke ${this.fmt.escape("<id>")} — revoke an invite`,
+        ].join("\n"),
+      });
+      return;
+    }
+    if (!this.canGrant(role, inviteRole)) {
+      await this.messenger.send(convo, { type: "text", text: `🔒 Only the owner can invite ${this.fmt.escape(inviteRole)} users.` });
+      return;
+    }
+
+    const { id, code, invite } = this.auth.createInvite(inviteRole, ttlMs, uses, identityOf(from));
+    this.logger.info({ inviteId: id, role: inviteRole, uses, expiresAt: invite.expiresAt }, "Invite created");
+    const lines = [
+      `🎟 ${this.fmt.bold("Invite created")} — ${inviteRole} · ${uses} use${uses === 1 ? "" : "s"} · expires ${this.formatTime(invite.expiresAt)}`,
+      "",
+    ];
+    if (this.botUsername) {
+      const url = `https://t.me/${this.botUsername}?start=${code}`;
+      lines.push(`Share this link: ${this.fmt.link(url, url)}`, "");
+    }
+    lines.push(
+      `Or have them send the bot: ${this.fmt.code(`/start ${code}`)}`,
+      "",
+      `Revoke with ${this.fmt.code(`/invite revoke ${id}`)}`,
+    );
+    await this.messenger.send(convo, { type: "text", text: lines.join("\n") });
+  }
+
+  /**
+   * /chat [list] — this chat's status, or all allowed chats
+   * /chat allow [chat_id] [all|mentions] — allow a group chat (default: this one)
+   * /chat policy <all|mentions> [chat_id] — change when the bot answers
+   * /chat remove [chat_id] — remove a chat from the allowlist and leave it
+   */
+  private async handleChat(convo: ConversationRef, from: UserRef, chat: ChatInfo | undefined, args: string): Promise<void> {
+    const [sub = "", ...rest] = args.trim().split(/\s+/).filter(Boolean);
+    const isGroup = chat?.kind === "group";
+    const here = chatIdOf(convo);
+
+    let policy: ChatPolicy | undefined;
+    let target: string | null = isGroup ? here : null;
+    for (const token of rest) {
+      if ((CHAT_POLICIES as readonly string[]).includes(token.toLowerCase())) policy = token.toLowerCase() as ChatPolicy;
+      else target = parseIdentity(token, convo.platform);
+    }
+    const usage = [
+      `/chat allow ${this.fmt.escape("[chat_id] [all|mentions]")} — allow a group chat`,
+      `/chat policy ${this.fmt.escape("<all|mentions> [chat_id]")} — answer every message, or only @mentions and replies`,
+      `/chat remove ${this.fmt.escape("[chat_id]")} — remove a chat and leave it`,
+      "/chat list — allowed chats",
+      "",
+      "Without a chat ID these apply to the group they are sent in.",
+    ].join("\n");
+
+    switch (sub.toLowerCase()) {
+      case "":
+      case "list": {
+        if (sub === "" && isGroup) {
+          const allowed = this.auth.getChat(here);
+          await this.messenger.send(convo, {
+            type: "text",
+            text: [
+              `${this.fmt.bold("This chat")} ${this.fmt.code(here)}`,
+              allowed
+                ? `✅ Allowed · answers ${allowed.policy === "all" ? "every message" : "@mentions and replies"}`
+                : "🔒 Not allowed",
+              "",
+              usage,
+            ].join("\n"),
+          });
+          return;
+        }
+        const chats = this.auth.listChats();
+        const lines = [this.fmt.bold("Allowed chats"), ""];
+        if (chats.length === 0) lines.push(this.fmt.italic("No group chats allowed. Direct chats need no entry."));
+        for (const { chatId, chat: allowed } of chats) {
+          const title = allowed.title ? ` ${this.fmt.escape(allowed.title)}` : "";
+          lines.push(`• ${this.fmt.code(chatId)}${title} — ${allowed.policy} · added by ${this.fmt.escape(allowed.addedBy)}`);
+        }
+        lines.push("", usage);
+        await this.messenger.send(convo, { type: "text", text: lines.join("\n") });
+        return;
+      }
+
+      case "allow":
+      case "policy": {
+        if (!target || (sub.toLowerCase() === "policy" && !policy)) {
+          await this.messenger.send(convo, { type: "text", text: usage });
+          return;
+        }
+        const existing = this.auth.getChat(target);
+        if (!existing && sub.toLowerCase() === "policy") {
+          await this.messenger.send(convo, { type: "text", text: `${this.fmt.code(target)} is not allowed. Use /chat allow first.` });
+          return;
+        }
+        const newPolicy = policy ?? existing?.policy ?? "mentions";
+        this.auth.allowChat(target, newPolicy, identityOf(from), target === here ? chat?.title : undefined);
+        this.logger.info({ chatId: target, policy: newPolicy, by: identityOf(from) }, "Chat allowed");
+        await this.messenger.send(convo, {
+          type: "text",
+          text: `✅ ${this.fmt.code(target)} allowed · answers ${newPolicy === "all" ? "every message" : "@mentions and replies"}.${newPolicy === "all" ? "\nOn Telegram the bot needs privacy mode off (or admin rights) to see every message." : ""}`,
+        });
+        return;
+      }
+
+      case "remove": {
+        if (!target) {
+          await this.messenger.send(convo, { type: "text", text: usage });
+          return;
+        }
+        const removed = this.auth.removeChat(target);
+        // Only chats on this messenger's platform can be left from here
+        const leaving = !!this.messenger.leave && target.startsWith(`${convo.platform}:`);
+        await this.messenger.send(convo, {
+          type: "text",
+          text: `${removed ? `✅ ${this.fmt.code(target)} removed from the allowlist.` : `${this.fmt.code(target)} was not allowed.`}${leaving ? " Leaving the chat." : ""}`,
+        });
+        if (leaving) {
+          const conversationId = target.slice(target.indexOf(":") + 1);
+          this.logger.info({ chatId: target, by: identityOf(from) }, "Leaving chat");
+          await this.messenger.leave!({ platform: convo.platform, conversationId }).catch((e) => {
+            this.logger.warn({ chatId: target, err: e }, "Failed to leave chat");
+          });
+        }
+        return;
+      }
+
+      default:
+        await this.messenger.send(convo, { type: "text", text: usage });
+    }
+  }
+
+  /**
+   * /quota — your budget and usage (the owner also sees every limit)
+   * /quota set <role|user> <day|month> <amount> — amount is tokens (500k, 2M) or USD ($5)
+   * /quota clear <role|user> [day|month]
+   * /quota rate <n|off> — prompts per minute per conversation
+   */
+  private async handleQuota(convo: ConversationRef, from: UserRef, role: Role, args: string): Promise<void> {
+    const [sub = "", targetArg = "", ...rest] = args.trim().split(/\s+/).filter(Boolean);
+    const usage = [
+      `/quota set ${this.fmt.escape("<role|user> <day|month> <amount>")} — e.g. ${this.fmt.code("/quota set viewer day 200k")}, ${this.fmt.code("/quota set telegram:123 month $20")}`,
+      `/quota clear ${this.fmt.escape("<role|user> [day|month]")} — remove a budget`,
+      `/quota rate ${this.fmt.escape("<n|off>")} — prompts per minute per chat`,
+    ].join("\n");
+
+    if (sub === "") {
+      await this.sendQuotaStatus(convo, from, role, usage);
+      return;
+    }
+    if (role !== "owner") {
+      await this.messenger.send(convo, { type: "text", text: "🔒 Only the owner can change quotas." });
+      return;
+    }
+
+    switch (sub.toLowerCase()) {
+      case "rate": {
+        const value = targetArg.toLowerCase();
+        if (value !== "off" && !/^\d+$/.test(value)) {
+          await this.messenger.send(convo, { type: "text", text: `Usage: /quota rate ${this.fmt.escape("<n|off>")}` });
+          return;
+        }
+        const perMinute = value === "off" || Number(value) === 0 ? null : Number(value);
+        this.quotas.setPromptsPerMinute(perMinute);
+        await this.messenger.send(convo, {
+          type: "text",
+          text: perMinute ? `✅ Each chat may send ${perMinute} prompt${perMinute === 1 ? "" : "s"} per minute.` : "✅ Prompt rate limit removed.",
+        });
+        return;
+      }
+
+      case "set":
+      case "clear": {
+        const roleArg = targetArg.toLowerCase();
+        const parsed = isRole(roleArg) ? null : parseIdentity(targetArg, from.platform);
+        // Budgets belong to the user a linked account acts as
+        const user = parsed && this.auth.resolve(parsed);
+        const target: { role: Role } | { user: string } | null = isRole(roleArg) ? { role: roleArg } : user ? { user } : null;
+        const period = rest[0]?.toLowerCase() as QuotaPeriod | undefined;
+        if (!target || (period && !QUOTA_PERIODS.includes(period))) {
+          await this.messenger.send(convo, { type: "text", text: usage });
+          return;
+        }
+        const label = "role" in target ? `role ${this.fmt.bold(target.role)}` : this.fmt.code(target.user);
+
+        if (sub.toLowerCase() === "clear") {
+          await this.messenger.send(convo, {
+            type: "text",
+            text: this.quotas.clearLimit(target, period)
+              ? `✅ ${period === "day" ? "Daily" : period === "month" ? "Monthly" : "All"} budget removed for ${label}.`
+              : `No ${period ? `${period} ` : ""}budget set for ${label}.`,
+          });
+          return;
+        }
+
+        const amount = this.parseQuotaAmount(rest[1] ?? "");
+        if (!period || !amount) {
+          await this.messenger.send(convo, { type: "text", text: usage });
+          return;
+        }
+        this.quotas.setLimit(target, period, amount.kind, amount.value);
+        this.logger.info({ target, period, ...amount }, "Quota set");
+        await this.messenger.send(convo, {
+          type: "text",
+          text: `✅ ${period === "day" ? "Daily" : "Monthly"} ${amount.kind === "tokens" ? "token" : "spending"} budget for ${label}: ${amount.kind === "tokens" ? formatTokens(amount.value) : formatCost(amount.value)}.`,
+        });
+        return;
+      }
+
+      default:
+        await this.messenger.send(convo, { type: "text", text: usage });
+    }
+  }
+
+  /** "500k", "2M" or "120000" tokens; "$5" or "5usd" */
+  private parseQuotaAmount(input: string): { kind: "tokens" | "cost"; value: number } | null {
+    const cost = /^\$(\d+(?:\.\d+)?)$|^(\d+(?:\.\d+)?)\s*usd$/i.exec(input);
+    if (cost) return { kind: "cost", value: Number(cost[1] ?? cost[2]) };
+    const tokens = /^(\d+(?:\.\d+)?)([km]?)$/i.exec(input);
+    if (!tokens) return null;
+    const scale = { "": 1, k: 1_000, m: 1_000_000 }[tokens[2].toLowerCase() as "" | "k" | "m"];
+    return { kind: "tokens", value: Math.round(Number(tokens[1]) * scale) };
+  }
+
+  private async sendQuotaStatus(convo: ConversationRef, from: UserRef, role: Role, usage: string): Promise<void> {
+    const identity = this.auth.resolve(identityOf(from));
+    const formatBudget = (budget: Budget): string => {
+      const parts = QUOTA_PERIODS.flatMap((period) => {
+        const limit = budget[period];
+        if (!limit) return [];
+        const caps = [
+          limit.tokens !== undefined ? `${formatTokens(limit.tokens)} tokens` : "",
+          limit.cost !== undefined ? formatCost(limit.cost) : "",
+        ].filter(Boolean);
+        return caps.length ? [`${caps.join(" / ")} per ${period}`] : [];
+      });
+      return parts.length ? parts.join(" · ") : "unlimited";
+    };
+
+    const budget = this.quotas.budgetFor(identity, role);
+    const lines = [this.fmt.bold("Your quota"), `Budget: ${formatBudget(budget)}`];
+    for (const period of QUOTA_PERIODS) {
+      const totals = this.usage.userUsage(identity, period);
+      const tokens = totals.input + totals.output + totals.cacheRead + totals.cacheWrite;
+      lines.push(`Used this ${period}: ${formatTokens(tokens)} tokens · ${formatCost(totals.cost)}`);
+    }
+    const perMinute = this.quotas.promptsPerMinute;
+    lines.push(`Rate limit: ${perMinute ? `${perMinute} prompts per minute per chat` : "none"}`);
+
+    if (role === "owner") {
+      const data = this.quotas.getData();
+      lines.push("", this.fmt.bold("Role budgets"));
+      const roleEntries = Object.entries(data.roles).filter(([, b]) => b);
+      if (roleEntries.length === 0) lines.push(this.fmt.italic("None"));
+      for (const [name, b] of roleEntries) lines.push(`• ${this.fmt.bold(name)} — ${formatBudget(b!)}`);
+      lines.push("", this.fmt.bold("User budgets"));
+      const userEntries = Object.entries(data.users);
+      if (userEntries.length === 0) lines.push(this.fmt.italic("None"));
+      for (const [user, b] of userEntries) lines.push(`• ${this.fmt.code(user)} — ${formatBudget(b)}`);
+      lines.push("", usage);
+    }
+    await this.messenger.send(convo, { type: "text", text: lines.join("\n") });
+  }
+
+  private formatTime(iso: string): string {
+    return `${iso.replace("T", " ").slice(0, 16)} UTC`;
+  }
+
+  /**
+   * Admins manage the roles below their own; the owner manages everyone
+   */
+  private canGrant(actor: Role, role: Role): boolean {
+    return actor === "owner" || (hasRole(actor, role) && actor !== role);
+  }
+
+  /**
+   * /audit [n] [tool] — show the most recent tool calls and check the hash chain
+   */
+  private async sendAuditLog(convo: ConversationRef, args: string): Promise<void> {
+    let limit = 10;
+    let tool: string | undefined;
+    for (const token of args.trim().split(/\s+/).filter(Boolean)) {
+      if (/^\d+$/.test(token)) limit = Math.min(Math.max(Number(token), 1), Router.AUDIT_MAX_ENTRIES);
+      else tool = token.toLowerCase();
+    }
+
+    const records = this.audit.recent(limit, tool);
+    const { records: total, brokenAt, unreadable } = this.audit.verify();
+
+    const blocks = [this.fmt.bold(`Audit log${tool ? ` · ${tool}` : ""}`)];
+    if (records.length === 0) {
+      blocks.push(this.fmt.italic("No tool calls recorded."));
+    }
+    for (const record of records) {
+      blocks.push(this.formatAuditRecord(record));
+    }
+    blocks.push([
+      brokenAt === null
+        ? `🔗 Chain intact · ${total} records`
+        : unreadable
+          ? `⚠️ ${this.fmt.bold("Chain broken")} at #${brokenAt} — a line can't be read (a write cut short, or edited)`
+          : `⚠️ ${this.fmt.bold("Chain broken")} at #${brokenAt} — the log was modified after it was written`,
+      `/audit ${this.fmt.escape("[n] [tool]")} — e.g. ${this.fmt.code("/audit 20 bash")}`,
+    ].join("\n"));
+
+    // Pack whole records into as few messages as fit
+    const maxChars = this.messenger.capabilities.maxTextChars;
+    let text = "";
+    for (const block of blocks) {
+      if (text && text.length + block.length + 2 > maxChars) {
+        await this.messenger.send(convo, { type: "text", text });
+        text = "";
+      }
+      text = text ? `${text}\n\n${block}` : block;
+    }
+    await this.messenger.send(convo, { type: "text", text });
+  }
+
+  private formatAuditRecord(record: AuditRecord): string {
+    const icon = record.status === "ok" ? "✅" : record.status === "error" ? "❌" : "🚫";
+    const time = record.ts.replace("T", " ").slice(0, 19);
+    const decision = record.approver ? `${record.decision} by ${record.approver}` : record.decision;
+    let args = JSON.stringify(record.args) ?? "";
+    if (args.length > Router.AUDIT_ARGS_PREVIEW) args = `${args.slice(0, Router.AUDIT_ARGS_PREVIEW)}…`;
+
+    const lines = [
+      `${icon} #${record.seq} ${time} · ${this.fmt.code(record.tool)} · ${this.fmt.escape(decision)} · ${record.status} · ${(record.durationMs / 1000).toFixed(1)}s`,
+      `    user ${this.fmt.escape(record.user ?? "?")} · chat ${this.fmt.escape(record.conversation)}`,
+      `    ${this.fmt.code(args)}`,
+    ];
+    if (record.error) {
+      lines.push(`    ${this.fmt.escape(record.error.split("\n")[0].slice(0, Router.AUDIT_ARGS_PREVIEW))}`);
+    }
+    return lines.join("\n");
+  }
+
   private extractChatType(raw: unknown): string | undefined {
     if (!raw || typeof raw !== "object") return undefined;
     const r = raw as Record<string, unknown>;
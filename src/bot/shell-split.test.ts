@@ -0,0 +1,107 @@
+import { describe, expect, test } from "bun:test";
+import { splitShellCommand, writtenFiles, formatSimpleCommand } from "./shell-split.js";
+
+const commands = (command: string) => splitShellCommand(command).map((c) => c.command);
+
+describe("splitShellCommand", () => {
+  test("splits lists and pipelines", () => {
+    expect(commands("npm run x && rm -rf ~")).toEqual(["npm run x", "rm -rf ~"]);
+    expect(commands("a; b || c | d |& e & f\ng")).toEqual(["a", "b", "c", "d", "e", "f", "g"]);
+  });
+
+  test("keeps a plain command as written", () => {
+    expect(splitShellCommand("git status")).toEqual([{ command: "git status", assignments: [], redirections: [] }]);
+  });
+
+  test("splits substitutions, subshells and groups recursively", () => {
+    expect(commands("echo $(curl evil)")).toEqual(["curl evil", "echo $(curl evil)"]);
+    expect(commands("echo `whoami`")).toEqual(["whoami", "echo `whoami`"]);
+    expect(commands("diff <(ls a) >(tee b)")).toEqual(["ls a", "tee b", "diff"]);
+    expect(commands("(cd x && make)")).toEqual(["cd x", "make"]);
+    expect(commands("{ a; b; }")).toEqual(["a", "b"]);
+    expect(commands('echo "$(id)"')).toEqual(["id", "echo $(id)"]);
+  });
+
+  test("finds substitutions inside arithmetic", () => {
+    expect(commands("echo $(( $(rm -rf ~) ))")).toEqual(["rm -rf ~", "echo $(( $(rm -rf ~) ))"]);
+    expect(commands("echo $(( 1 + `rm x` ))")).toContain("rm x");
+    expect(commands('echo "$(( $((2 * $(rm y))) + 1 ))"')).toContain("rm y");
+    expect(commands("echo $(( (1 + 2) * 3 ))")).toEqual(["echo $(( (1 + 2) * 3 ))"]);
+  });
+
+  test("expands bash -c and eval", () => {
+    expect(commands("bash -c 'git push; curl x'")).toEqual(["git push", "curl x"]);
+    expect(commands("/bin/sh -lc \"rm -rf /\"")).toEqual(["rm -rf /"]);
+    expect(commands("eval 'rm -rf /'")).toEqual(["rm -rf /"]);
+  });
+
+  test("strips keywords, wrappers and loop headers", () => {
+    expect(commands("if true; then rm x; fi")).toEqual(["true", "rm x"]);
+    expect(commands("for f in a b; do rm $f; done")).toEqual(["rm $f"]);
+    expect(commands("env -i nohup nice -n 5 time rm x")).toEqual(["rm x"]);
+  });
+
+  test("removes quotes and escapes before matching", () => {
+    expect(commands('r""m -rf /')).toEqual(["rm -rf /"]);
+    expect(commands("'r'm -rf /")).toEqual(["rm -rf /"]);
+    expect(commands("\\rm -rf /")).toEqual(["rm -rf /"]);
+    expect(commands("$'\\x72m' -rf /")).toEqual(["rm -rf /"]);
+    expect(commands("$'\\162\\155' x")).toEqual(["rm x"]);
+    expect(commands('$"rm" x')).toEqual(["rm x"]);
+    expect(commands('git commit -m "fix: a; b"')).toEqual(["git commit -m fix: a; b"]);
+  });
+
+  test("splits off assignments", () => {
+    const [cmd] = splitShellCommand("PATH=/tmp/evil:$PATH LD_PRELOAD=x.so npm test");
+    expect(cmd.command).toBe("npm test");
+    expect(cmd.assignments).toEqual(["PATH=/tmp/evil:$PATH", "LD_PRELOAD=x.so"]);
+    expect(splitShellCommand("env BASH_ENV=x bash -c 'npm test'")[0].assignments).toEqual(["BASH_ENV=x"]);
+  });
+
+  test("keeps a statement that only assigns", () => {
+    expect(splitShellCommand("PATH=/tmp/evil; npm test")).toEqual([
+      { command: "", assignments: ["PATH=/tmp/evil"], redirections: [] },
+      { command: "npm test", assignments: [], redirections: [] },
+    ]);
+  });
+
+  test("splits off redirections", () => {
+    const [cmd] = splitShellCommand("npm test > ~/.bashrc 2>&1 < in");
+    expect(cmd.command).toBe("npm test");
+    expect(cmd.redirections).toEqual([
+      { op: ">", target: "~/.bashrc" },
+      { op: "2>&", target: "1" },
+      { op: "<", target: "in" },
+    ]);
+    expect(splitShellCommand("cmd &>>log")[0].redirections).toEqual([{ op: "&>>", target: "log" }]);
+    expect(splitShellCommand("cmd 2>&- next")[0]).toEqual({
+      command: "cmd next",
+      assignments: [],
+      redirections: [{ op: "2>&", target: "-" }],
+    });
+  });
+
+  test("keeps a statement that only redirects", () => {
+    expect(splitShellCommand("> ~/.bashrc")).toEqual([
+      { command: "", assignments: [], redirections: [{ op: ">", target: "~/.bashrc" }] },
+    ]);
+    expect(writtenFiles(splitShellCommand("for x in a; do echo $x; done > out")[1])).toEqual(["out"]);
+  });
+
+  test("passes outer assignments and redirections to bash -c commands", () => {
+    const [cmd] = splitShellCommand("PATH=/x bash -c 'npm test' > out");
+    expect(formatSimpleCommand(cmd)).toBe("PATH=/x npm test > out");
+  });
+});
+
+describe("writtenFiles", () => {
+  const files = (command: string) => splitShellCommand(command).flatMap(writtenFiles);
+
+  test("lists files written by output redirections", () => {
+    expect(files("a > x >> y >| z &> w <> v 2> u >& t")).toEqual(["x", "y", "z", "w", "v", "u", "t"]);
+  });
+
+  test("ignores input, descriptor duplication and /dev/null", () => {
+    expect(files("a < in 2>&1 1>&2 2>/dev/null <<< s")).toEqual([]);
+  });
+});
@@ -0,0 +1,412 @@
+/**
+ * Split a bash command line into the simple commands it would run.
+ *
+ * Used by the permission evaluator so that a rule like `bash(npm run *)`
+ * can't approve `npm run x && rm -rf ~`, and deny rules can't be dodged
+ * with `;`, pipes, `$(...)` or `bash -c`.
+ *
+ * Each returned command is normalized: quotes are removed, env assignments
+ * and redirections are split off into their own fields, transparent
+ * wrappers (`env`, `nohup`, `time`, ...) are stripped, and command/process
+ * substitutions (also inside `$((...))`), subshells, groups and `bash -c` /
+ * `eval` strings are split recursively. This is not a full shell parser;
+ * when in doubt it errs towards returning more commands, which only makes
+ * the evaluation stricter.
+ */
+
+export interface Redirection {
+  /** Operator as written: `>`, `>>`, `&>`, `2>`, `<`, `>&`, ... */
+  op: string;
+  /** File or file descriptor, after quote removal */
+  target: string;
+}
+
+export interface SimpleCommand {
+  /** Command words after quote removal, without assignments, keywords and wrappers; empty for `X=1` or `> file` alone */
+  command: string;
+  /** `VAR=value` prefixes, which change what the command runs (`PATH=`, `LD_PRELOAD=`) */
+  assignments: string[];
+  redirections: Redirection[];
+}
+
+interface Word {
+  /** Text as written, quotes included */
+  raw: string;
+  /** Text after quote removal */
+  value: string;
+}
+
+/** Wrappers that run their arguments as a command without changing privileges */
+const TRANSPARENT_WRAPPERS = new Set(["env", "nohup", "time", "exec", "command", "builtin", "nice"]);
+
+/** Reserved words that prefix a command in compound statements */
+const PREFIX_KEYWORDS = new Set(["if", "then", "else", "elif", "do", "while", "until", "!", "{"]);
+
+/** Reserved words that close a compound statement and run nothing */
+const CLOSING_KEYWORDS = new Set(["fi", "done", "esac", "}"]);
+
+/** Statements whose header is not a command (`for x in a b`) */
+const HEADER_KEYWORDS = new Set(["for", "case", "select", "function"]);
+
+const SHELLS = new Set(["bash", "sh", "zsh", "dash", "ksh"]);
+
+/** Output targets that are not files */
+const HARMLESS_TARGETS = new Set(["/dev/null", "/dev/stdout", "/dev/stderr", "/dev/tty"]);
+
+const MAX_DEPTH = 8;
+
+export function splitShellCommand(command: string): SimpleCommand[] {
+  return splitAt(command, 0);
+}
+
+/**
+ * Files a command's redirections write to: `>`, `>>`, `>|`, `&>`, `<>` and
+ * `>& file`, but not descriptor duplication (`2>&1`) or `/dev/null`
+ */
+export function writtenFiles(command: SimpleCommand): string[] {
+  return command.redirections
+    .filter((r) => r.op.includes(">") && !(r.op.includes("&") && /^(\d+|-)$/.test(r.target)))
+    .map((r) => r.target)
+    .filter((target) => !HARMLESS_TARGETS.has(target));
+}
+
+/** The command as it would be written: assignments, words, redirections */
+export function formatSimpleCommand(command: SimpleCommand): string {
+  return [
+    ...command.assignments,
+    command.command,
+    ...command.redirections.map((r) => `${r.op} ${r.target}`),
+  ].filter(Boolean).join(" ");
+}
+
+function splitAt(command: string, depth: number): SimpleCommand[] {
+  if (depth > MAX_DEPTH) {
+    return command.trim() ? [{ command: command.trim(), assignments: [], redirections: [] }] : [];
+  }
+  const commands: SimpleCommand[] = [];
+  for (const { words, redirections } of tokenize(command, commands, depth)) {
+    commands.push(...normalize(words, redirections, depth));
+  }
+  return commands;
+}
+
+/**
+ * Find the index of the `)` matching the `(` just before `start`,
+ * skipping quoted text. Returns src.length if unbalanced.
+ */
+function findClose(src: string, start: number): number {
+  let depth = 1;
+  for (let i = start; i < src.length; i++) {
+    const c = src[i];
+    if (c === "\\") {
+      i++;
+    } else if (c === "'") {
+      const end = src.indexOf("'", i + 1);
+      i = end === -1 ? src.length : end;
+    } else if (c === '"') {
+      for (i++; i < src.length && src[i] !== '"'; i++) {
+        if (src[i] === "\\") i++;
+      }
+    } else if (c === "(") {
+      depth++;
+    } else if (c === ")") {
+      if (--depth === 0) return i;
+    }
+  }
+  return src.length;
+}
+
+/** End of the backquoted substitution starting at `start` (just after the opening backquote) */
+function findBackquote(src: string, start: number): number {
+  let end = start;
+  while (end < src.length && src[end] !== "`") end += src[end] === "\\" ? 2 : 1;
+  return end;
+}
+
+/**
+ * Command substitutions inside an arithmetic expansion: `$(( $(cmd) + 1 ))`
+ * runs `cmd` even though the expression itself runs nothing
+ */
+function arithmeticSubstitutions(expr: string): string[] {
+  const found: string[] = [];
+  for (let i = 0; i < expr.length; i++) {
+    if (expr[i] === "\\") {
+      i++;
+    } else if (expr[i] === "$" && expr[i + 1] === "(") {
+      const close = findClose(expr, i + 2);
+      if (expr[i + 2] === "(") {
+        found.push(...arithmeticSubstitutions(expr.slice(i + 2, close)));
+      } else {
+        found.push(expr.slice(i + 2, close));
+      }
+      i = close;
+    } else if (expr[i] === "`") {
+      const end = findBackquote(expr, i + 1);
+      found.push(expr.slice(i + 1, end));
+      i = end;
+    }
+  }
+  return found;
+}
+
+const ANSI_C_ESCAPES: Record<string, string> = {
+  a: "\x07", b: "\b", e: "\x1b", E: "\x1b", f: "\f", n: "\n", r: "\r", t: "\t", v: "\v",
+};
+
+/** Value of an ANSI-C quoted string (`$'...'`) body */
+function decodeAnsiC(body: string): string {
+  return body.replace(/\\(x[0-9a-fA-F]{1,2}|u[0-9a-fA-F]{1,4}|U[0-9a-fA-F]{1,8}|[0-7]{1,3}|c.|.)/g, (_, esc: string) => {
+    if (/^[xuU]/.test(esc) && esc.length > 1) {
+      const code = parseInt(esc.slice(1), 16);
+      return code <= 0x10ffff ? String.fromCodePoint(code) : "";
+    }
+    if (/^[0-7]/.test(esc)) return String.fromCharCode(parseInt(esc, 8));
+    if (esc.startsWith("c")) return String.fromCharCode(esc.charCodeAt(1) & 0x1f);
+    return ANSI_C_ESCAPES[esc] ?? esc;
+  });
+}
+
+interface Tokens {
+  words: Word[];
+  redirections: Redirection[];
+}
+
+/**
+ * Tokenize into simple commands (words and redirections). Commands found
+ * inside substitutions and subshells are split recursively and pushed to
+ * `nested`.
+ */
+function tokenize(src: string, nested: SimpleCommand[], depth: number): Tokens[] {
+  const result: Tokens[] = [];
+  let words: Word[] = [];
+  let redirections: Redirection[] = [];
+  let raw = "";
+  let value = "";
+  let inWord = false;
+  /** Operator waiting for its target word */
+  let redirect: string | null = null;
+
+  const endWord = () => {
+    if (!inWord) return;
+    if (redirect !== null) {
+      redirections.push({ op: redirect, target: value });
+      redirect = null;
+    } else {
+      words.push({ raw, value });
+    }
+    raw = "";
+    value = "";
+    inWord = false;
+  };
+  const endCommand = () => {
+    endWord();
+    if (redirect !== null) {
+      // Operator without a target; keep it so the command isn't taken as harmless
+      redirections.push({ op: redirect, target: "" });
+      redirect = null;
+    }
+    if (words.length > 0 || redirections.length > 0) result.push({ words, redirections });
+    words = [];
+    redirections = [];
+  };
+  const substitute = (inner: string) => {
+    nested.push(...splitAt(inner, depth + 1));
+  };
+
+  for (let i = 0; i < src.length; i++) {
+    const c = src[i];
+    const next = src[i + 1];
+
+    if (c === " " || c === "\t") {
+      endWord();
+    } else if (c === "\n" || c === ";") {
+      endCommand();
+    } else if (c === "#" && !inWord) {
+      // Comment to end of line
+      const end = src.indexOf("\n", i);
+      i = end === -1 ? src.length : end - 1;
+    } else if (c === "&" && next === ">") {
+      // &> file, &>> file
+      endWord();
+      const end = src[i + 2] === ">" ? i + 2 : i + 1;
+      redirect = src.slice(i, end + 1);
+      i = end;
+    } else if (c === "&" || c === "|") {
+      // &&, ||, |, |&, &
+      endCommand();
+      if (next === c || (c === "|" && next === "&")) i++;
+    } else if ((c === "<" || c === ">") && next === "(") {
+      // Process substitution
+      const close = findClose(src, i + 2);
+      substitute(src.slice(i + 2, close));
+      i = close;
+    } else if (c === "<" || c === ">") {
+      // A file descriptor number directly before the operator belongs to it
+      let fd = "";
+      if (inWord && /^\d+$/.test(raw)) {
+        fd = raw;
+        raw = "";
+        value = "";
+        inWord = false;
+      } else {
+        endWord();
+      }
+      // >, >>, >|, >&, <, <<, <<<, <>, <&, <<-
+      const start = i;
+      while (i + 1 < src.length && "<>|&-".includes(src[i + 1])) i++;
+      const op = fd + src.slice(start, i + 1);
+      if (op.endsWith("&-")) {
+        // Closes a descriptor: no target
+        redirections.push({ op: op.slice(0, -1), target: "-" });
+      } else {
+        redirect = op;
+      }
+    } else if (c === "(" && !inWord) {
+      // Subshell
+      endCommand();
+      const close = findClose(src, i + 1);
+      substitute(src.slice(i + 1, close));
+      i = close;
+    } else if (c === ")") {
+      endCommand();
+    } else if (c === "$" && next === "(") {
+      inWord = true;
+      const arithmetic = src[i + 2] === "(";
+      const close = findClose(src, i + 2);
+      if (arithmetic) {
+        arithmeticSubstitutions(src.slice(i + 2, close)).forEach(substitute);
+      } else {
+        substitute(src.slice(i + 2, close));
+      }
+      raw += src.slice(i, close + 1);
+      value += src.slice(i, close + 1);
+      i = close;
+    } else if (c === "`") {
+      inWord = true;
+      const end = findBackquote(src, i + 1);
+      substitute(src.slice(i + 1, end));
+      raw += src.slice(i, end + 1);
+      value += src.slice(i, end + 1);
+      i = end;
+    } else if (c === "$" && next === "'") {
+      // ANSI-C quoting: $'\x72m' is rm
+      inWord = true;
+      let end = i + 2;
+      while (end < src.length && src[end] !== "'") end += src[end] === "\\" ? 2 : 1;
+      raw += src.slice(i, end + 1);
+      value += decodeAnsiC(src.slice(i + 2, end));
+      i = end;
+    } else if (c === "$" && next === '"') {
+      // Locale quoting: $"..." is "..."
+      inWord = true;
+      raw += c;
+    } else if (c === "'") {
+      inWord = true;
+      let end = src.indexOf("'", i + 1);
+      if (end === -1) end = src.length;
+      raw += src.slice(i, end + 1);
+      value += src.slice(i + 1, end);
+      i = end;
+    } else if (c === '"') {
+      inWord = true;
+      let j = i + 1;
+      for (; j < src.length && src[j] !== '"'; j++) {
+        if (src[j] === "\\" && j + 1 < src.length) {
+          value += src[j + 1];
+          j++;
+        } else if (src[j] === "$" && src[j + 1] === "(") {
+          const close = findClose(src, j + 2);
+          if (src[j + 2] === "(") {
+            arithmeticSubstitutions(src.slice(j + 2, close)).forEach(substitute);
+          } else {
+            substitute(src.slice(j + 2, close));
+          }
+          value += src.slice(j, close + 1);
+          j = close;
+        } else if (src[j] === "`") {
+          const end = findBackquote(src, j + 1);
+          substitute(src.slice(j + 1, end));
+          value += src.slice(j, end + 1);
+          j = end;
+        } else {
+          value += src[j];
+        }
+      }
+      raw += src.slice(i, j + 1);
+      i = j;
+    } else if (c === "\\") {
+      inWord = true;
+      if (next === "\n") {
+        // Line continuation
+        i++;
+        continue;
+      }
+      raw += src.slice(i, i + 2);
+      value += next ?? "";
+      i++;
+    } else {
+      inWord = true;
+      raw += c;
+      value += c;
+    }
+  }
+  endCommand();
+  return result;
+}
+
+/**
+ * Split assignments off a simple command and strip keywords and wrappers,
+ * expanding `bash -c` and `eval` into the commands they run
+ */
+function normalize(words: Word[], redirections: Redirection[], depth: number): SimpleCommand[] {
+  const assignments: string[] = [];
+  const bare = (): SimpleCommand[] =>
+    assignments.length > 0 || redirections.length > 0 ? [{ command: "", assignments, redirections }] : [];
+  let rest = words;
+
+  for (;;) {
+    if (rest.length === 0) return bare();
+    const first = rest[0].value;
+
+    if (/^[A-Za-z_][A-Za-z0-9_]*(\[[^\]]*\])?\+?=/.test(rest[0].raw)) {
+      assignments.push(rest[0].value);
+      rest = rest.slice(1);
+    } else if (PREFIX_KEYWORDS.has(first)) {
+      rest = rest.slice(1);
+    } else if (TRANSPARENT_WRAPPERS.has(first)) {
+      rest = rest.slice(1);
+      // Wrapper options (env -i, nice -n 5, ...)
+      while (rest.length > 0 && rest[0].value.startsWith("-")) {
+        const opt = rest[0].value;
+        rest = rest.slice(/^-(n|u|C|S)$/.test(opt) ? 2 : 1);
+      }
+    } else {
+      break;
+    }
+  }
+
+  const first = rest[0].value;
+  if (HEADER_KEYWORDS.has(first)) return bare();
+  if (rest.every((w) => CLOSING_KEYWORDS.has(w.value))) return bare();
+
+  // The inner commands run with the outer assignments and redirections
+  const inherit = (inner: SimpleCommand[]) =>
+    inner.map((c) => ({
+      command: c.command,
+      assignments: [...assignments, ...c.assignments],
+      redirections: [...redirections, ...c.redirections],
+    }));
+
+  if (SHELLS.has(first.replace(/^.*\//, ""))) {
+    const flag = rest.findIndex((w, i) => i > 0 && /^-[a-z]*c[a-z]*$/.test(w.value));
+    if (flag !== -1 && rest[flag + 1]) {
+      return inherit(splitAt(rest[flag + 1].value, depth + 1));
+    }
+  }
+
+  if (first === "eval") {
+    return inherit(splitAt(rest.slice(1).map((w) => w.value).join(" "), depth + 1));
+  }
+
+  return [{ command: rest.map((w) => w.value).join(" "), assignments, redirections }];
+}
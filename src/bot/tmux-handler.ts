@@ -15,8 +15,10 @@ export class TmuxHandler {
   private tmuxSocket: string;
   private tmuxSocketDir: string;
 
-  selectedSession: string | null = null;
-  isTmuxThread = false;
+  private _selectedSession: string | null = null;
+  private _isTmuxThread = false;
+  /** Called when the selected session or terminal mode changes, so they can be saved */
+  private onStateChange?: () => void;
   lastCaptureMsgRef: string | null = null;
 
   constructor(
@@ -25,12 +27,47 @@ export class TmuxHandler {
     convo: ConversationRef,
     tmuxSocket: string,
     tmuxSocketDir: string,
+    onStateChange?: () => void,
   ) {
     this.messenger = messenger;
     this.fmt = fmt;
     this.convo = convo;
     this.tmuxSocket = tmuxSocket;
     this.tmuxSocketDir = tmuxSocketDir;
+    this.onStateChange = onStateChange;
+  }
+
+  get selectedSession(): string | null {
+    return this._selectedSession;
+  }
+
+  set selectedSession(name: string | null) {
+    if (name === this._selectedSession) return;
+    this._selectedSession = name;
+    this.onStateChange?.();
+  }
+
+  get isTmuxThread(): boolean {
+    return this._isTmuxThread;
+  }
+
+  set isTmuxThread(on: boolean) {
+    if (on === this._isTmuxThread) return;
+    this._isTmuxThread = on;
+    this.onStateChange?.();
+  }
+
+  /** Use another tmux server; the selected session belonged to the old one */
+  setSocket(tmuxSocket: string): void {
+    if (tmuxSocket === this.tmuxSocket) return;
+    this.tmuxSocket = tmuxSocket;
+    this.selectedSession = null;
+  }
+
+  /** Put back saved state without reporting it as a change */
+  restore(selectedSession: string | null, isTmuxThread: boolean): void {
+    this._selectedSession = selectedSession;
+    this._isTmuxThread = isTmuxThread;
   }
 
   private get maxTextChars(): number {
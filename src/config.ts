@@ -1,4 +1,4 @@
-import { loadModels, type ModelRegistry, type ThinkingLevel } from "./models.js";
+import { ModelsFile, type ModelRegistry, type ThinkingLevel } from "./models.js";
 
 export interface Config {
   telegramToken: string;
@@ -11,9 +11,20 @@ export interface Config {
   sessionDir: string;
   dataDir: string;
   permissionsDir: string;
-  modelRegistry: ModelRegistry;
+  auditFile: string;
+  usageFile: string;
+  quotaFile: string;
+  /** Per-conversation model, thinking and tmux choices */
+  conversationsFile: string;
+  /** Named project directories that `/project` binds a conversation to */
+  projectsFile: string;
+  /** models.json; reloaded when the file changes and edited by `/model add|remove|set-default` */
+  models: ModelsFile;
+  /** The current registry of `models`; read it each time rather than keeping it */
+  readonly modelRegistry: ModelRegistry;
   defaultThinkingLevel: ThinkingLevel;
-  presetOwnerId: number | null;
+  /** OWNER_ID as given: `platform:userId`, or a bare ID on the entry point's platform */
+  presetOwnerId: string | null;
   messageStoreEnabled: boolean;
   messageStoreMaxAgeDays: number;
   logLevel: string;
@@ -29,16 +40,21 @@ export async function loadConfig(): Promise<Config> {
   const dataDir = process.env.DATA_DIR ?? ".";
   const authFile = process.env.AUTH_FILE ?? `${dataDir}/auth.json`;
   const permissionsDir = process.env.PERMISSIONS_DIR ?? `${dataDir}/permissions`;
+  const auditFile = process.env.AUDIT_FILE ?? `${dataDir}/audit.jsonl`;
+  const usageFile = process.env.USAGE_FILE ?? `${dataDir}/usage.json`;
+  const quotaFile = process.env.QUOTA_FILE ?? `${dataDir}/quotas.json`;
+  const conversationsFile = process.env.CONVERSATIONS_FILE ?? `${dataDir}/conversations.json`;
+  const projectsFile = process.env.PROJECTS_FILE ?? `${dataDir}/projects.json`;
   const sessionDir = process.env.SESSION_DIR ?? `${dataDir}/sessions`;
   const defaultThinkingLevel = (process.env.THINKING_LEVEL ?? "medium") as ThinkingLevel;
 
-  const presetOwnerIdRaw = process.env.OWNER_ID;
-  const presetOwnerId = presetOwnerIdRaw ? Number(presetOwnerIdRaw) : null;
+  const presetOwnerId = process.env.OWNER_ID || null;
   const messageStoreEnabled = process.env.MESSAGE_STORE_ENABLED !== "false";
   const messageStoreMaxAgeDays = Number(process.env.MESSAGE_STORE_MAX_AGE_DAYS ?? "30");
   const logLevel = process.env.LOG_LEVEL ?? "info";
 
-  const modelRegistry = await loadModels(dataDir);
+  const models = await ModelsFile.load(dataDir);
+  models.watch();
 
   return {
     telegramToken,
@@ -51,7 +67,15 @@ export async function loadConfig(): Promise<Config> {
     sessionDir,
     dataDir,
     permissionsDir,
-    modelRegistry,
+    auditFile,
+    usageFile,
+    quotaFile,
+    conversationsFile,
+    projectsFile,
+    models,
+    get modelRegistry() {
+      return models.registry;
+    },
     defaultThinkingLevel,
     presetOwnerId,
     messageStoreEnabled,
@@ -0,0 +1,95 @@
+/**
+ * Persistent per-conversation settings.
+ *
+ * What a chat or topic has chosen — model, thinking level, reasoning
+ * display, auto routing and its tmux terminal state — would otherwise live
+ * only in its ChatController, which the router disposes after it sits idle
+ * and which a restart drops. Settings are saved per conversation key to one
+ * JSON file and read back when a controller is created.
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync } from "node:fs";
+import { dirname } from "node:path";
+import type { ThinkingLevel } from "./models.js";
+import type { Worktree } from "./git/worktree.js";
+
+export interface ConversationSettings {
+  /** Model key picked with `/model`; ignored if it is no longer in models.json */
+  model?: string;
+  /** Thinking level from `/thinking`, or the level of the picked model */
+  thinkingLevel?: ThinkingLevel;
+  /** `/thinking show|hide` */
+  showThinking?: boolean;
+  /** `/model auto on|off` */
+  autoRouting?: boolean;
+  /** Project from projects.json bound with `/project` */
+  project?: string;
+  /** Directory set with `/cd`; overrides the project's dir */
+  cwd?: string;
+  /** This conversation's worktree of the project, when the project has `worktree: true` */
+  worktree?: Worktree;
+  /** tmux session chosen with `/select` or in a terminal topic */
+  tmuxSession?: string;
+  /** The topic is a tmux terminal (`/tmux`): messages go to the pane */
+  tmuxThread?: boolean;
+}
+
+interface SettingsData {
+  /** Keyed by conversation key (`conversationId:threadId`) */
+  conversations: Record<string, ConversationSettings>;
+}
+
+export class ConversationSettingsStore {
+  private filePath: string;
+  private data: SettingsData;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.data = this.load();
+  }
+
+  private load(): SettingsData {
+    try {
+      if (existsSync(this.filePath)) {
+        const raw = JSON.parse(readFileSync(this.filePath, "utf-8"));
+        return { conversations: raw.conversations ?? {} };
+      }
+    } catch (e) {
+      console.error(`Failed to load conversation settings ${this.filePath}:`, e);
+    }
+    return { conversations: {} };
+  }
+
+  private save(): void {
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      writeFileSync(tmpPath, JSON.stringify(this.data, null, 2) + "\n", "utf-8");
+      renameSync(tmpPath, this.filePath);
+    } catch (e) {
+      console.error(`Failed to save conversation settings ${this.filePath}:`, e);
+    }
+  }
+
+  /** Saved settings of a conversation; empty if it never changed any */
+  get(conversationKey: string): ConversationSettings {
+    return { ...this.data.conversations[conversationKey] };
+  }
+
+  /**
+   * Merge changes into a conversation's settings and save. A field set to
+   * undefined is removed, so the conversation goes back to the default.
+   */
+  update(conversationKey: string, changes: Partial<ConversationSettings>): void {
+    const settings: Record<string, unknown> = { ...this.data.conversations[conversationKey], ...changes };
+    for (const [field, value] of Object.entries(settings)) {
+      if (value === undefined) delete settings[field];
+    }
+    if (Object.keys(settings).length) {
+      this.data.conversations[conversationKey] = settings as ConversationSettings;
+    } else {
+      delete this.data.conversations[conversationKey];
+    }
+    this.save();
+  }
+}
@@ -0,0 +1,149 @@
+/**
+ * git worktree helpers for per-topic isolation.
+ *
+ * A topic bound to a project with `worktree: true` works in its own
+ * worktree under `<project dir>/.worktrees/`, on its own branch started
+ * from the project's current branch. All git calls go through this module.
+ */
+
+import { execFile } from "node:child_process";
+import { appendFile, readFile, mkdir } from "node:fs/promises";
+import { dirname, join, resolve } from "node:path";
+import { promisify } from "node:util";
+
+const exec = promisify(execFile);
+
+/** Worktrees live here, relative to the project directory; kept out of `git status` via info/exclude */
+const WORKTREES_DIR = ".worktrees";
+const BRANCH_PREFIX = "topic";
+const MAX_OUTPUT_BYTES = 16 * 1024 * 1024;
+
+export interface Worktree {
+  path: string;
+  branch: string;
+  /** Branch the worktree was started from and merges back into */
+  base: string;
+}
+
+export interface WorktreeStatus {
+  /** Commits on the worktree branch that the base doesn't have */
+  ahead: number;
+  /** Commits on the base since the worktree branched off */
+  behind: number;
+  /** `git status --short` of the worktree: uncommitted changes */
+  changes: string;
+  /** `git diff --stat` from the merge base, including uncommitted changes */
+  diffStat: string;
+  /** The full diff behind `diffStat` */
+  diff: string;
+}
+
+async function git(cwd: string, args: string[]): Promise<string> {
+  const { stdout } = await exec("git", ["-C", cwd, ...args], { maxBuffer: MAX_OUTPUT_BYTES });
+  return stdout;
+}
+
+/** What a failed git call printed (merge conflicts go to stdout), which says more than the exception message */
+export function gitError(e: unknown): string {
+  const { stderr, stdout } = (e ?? {}) as { stderr?: string; stdout?: string };
+  const output = stderr?.trim() || stdout?.trim();
+  if (output) return output;
+  return e instanceof Error ? e.message : String(e);
+}
+
+export async function isRepo(dir: string): Promise<boolean> {
+  try {
+    return (await git(dir, ["rev-parse", "--is-inside-work-tree"])).trim() === "true";
+  } catch {
+    return false;
+  }
+}
+
+export async function currentBranch(dir: string): Promise<string> {
+  return (await git(dir, ["rev-parse", "--abbrev-ref", "HEAD"])).trim();
+}
+
+async function branchExists(dir: string, branch: string): Promise<boolean> {
+  try {
+    await git(dir, ["rev-parse", "--verify", "--quiet", `refs/heads/${branch}`]);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** Keep the worktrees directory out of the main checkout's `git status` */
+async function excludeWorktreesDir(repoDir: string): Promise<void> {
+  const excludePath = resolve(repoDir, (await git(repoDir, ["rev-parse", "--git-path", "info/exclude"])).trim());
+  const entry = `/${WORKTREES_DIR}/`;
+  const current = await readFile(excludePath, "utf-8").catch(() => "");
+  if (current.split("\n").includes(entry)) return;
+  await mkdir(dirname(excludePath), { recursive: true });
+  await appendFile(excludePath, `${current && !current.endsWith("\n") ? "\n" : ""}${entry}\n`);
+}
+
+/**
+ * Create the worktree for `name` (a conversation slug) from the project's
+ * current branch. A worktree or branch left from an earlier binding is
+ * reused, with the project's current branch as its base.
+ */
+export async function createWorktree(repoDir: string, name: string): Promise<Worktree> {
+  const base = await currentBranch(repoDir);
+  if (base === "HEAD") throw new Error("The project has a detached HEAD; check out a branch first");
+
+  const worktree: Worktree = {
+    path: join(repoDir, WORKTREES_DIR, name),
+    branch: `${BRANCH_PREFIX}/${name}`,
+    base,
+  };
+  if ((await isRepo(worktree.path)) && (await currentBranch(worktree.path)) === worktree.branch) return worktree;
+
+  await excludeWorktreesDir(repoDir);
+  if (await branchExists(repoDir, worktree.branch)) {
+    await git(repoDir, ["worktree", "add", worktree.path, worktree.branch]);
+  } else {
+    await git(repoDir, ["worktree", "add", "-b", worktree.branch, worktree.path, base]);
+  }
+  return worktree;
+}
+
+export async function worktreeStatus(worktree: Worktree): Promise<WorktreeStatus> {
+  const [behind, ahead] = (await git(worktree.path, ["rev-list", "--left-right", "--count", `${worktree.base}...HEAD`]))
+    .trim()
+    .split(/\s+/)
+    .map(Number);
+  const mergeBase = (await git(worktree.path, ["merge-base", worktree.base, "HEAD"])).trim();
+  const [changes, diffStat, diff] = await Promise.all([
+    git(worktree.path, ["status", "--short"]),
+    git(worktree.path, ["diff", "--stat", mergeBase]),
+    git(worktree.path, ["diff", mergeBase]),
+  ]);
+  return { ahead, behind, changes: changes.trimEnd(), diffStat: diffStat.trimEnd(), diff };
+}
+
+/**
+ * Merge the worktree branch into its base in the project checkout. Refuses
+ * when the worktree has uncommitted changes or the checkout isn't on the
+ * base; a merge that conflicts is aborted.
+ */
+export async function mergeWorktree(repoDir: string, worktree: Worktree): Promise<string> {
+  if ((await git(worktree.path, ["status", "--porcelain"])).trim()) {
+    throw new Error("The worktree has uncommitted changes; commit or discard them first");
+  }
+  const checkedOut = await currentBranch(repoDir);
+  if (checkedOut !== worktree.base) {
+    throw new Error(`The project checkout is on ${checkedOut}, not ${worktree.base}`);
+  }
+  try {
+    return (await git(repoDir, ["merge", "--no-ff", "--no-edit", worktree.branch])).trim();
+  } catch (e) {
+    await git(repoDir, ["merge", "--abort"]).catch(() => {});
+    throw new Error(`Merge failed and was aborted: ${gitError(e)}`);
+  }
+}
+
+/** Delete the worktree, its uncommitted changes and its branch */
+export async function removeWorktree(repoDir: string, worktree: Worktree): Promise<void> {
+  await git(repoDir, ["worktree", "remove", "--force", worktree.path]);
+  await git(repoDir, ["branch", "-D", worktree.branch]);
+}
@@ -1,9 +1,19 @@
+/** Inline styles that can be combined on one run of text */
+export interface TextStyle {
+  bold?: boolean;
+  italic?: boolean;
+  strike?: boolean;
+}
+
 export interface Formatter {
   bold(text: string): string;
   italic(text: string): string;
   code(text: string): string;
   pre(text: string, language?: string): string;
   link(text: string, url: string): string;
+  quote(text: string, expandable?: boolean): string;
   escape(text: string): string;
+  /** Apply `style` to markup that is already rendered (escaped text, code or a link) */
+  styled(markup: string, style: TextStyle): string;
   chunkText(text: string, maxLen: number): string[];
 }
@@ -7,3 +7,4 @@ export * from "./types.js";
 export * from "./messenger.js";
 export * from "./stream-sink.js";
 export * from "./formatter.js";
+export * from "./markdown.js";
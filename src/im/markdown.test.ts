@@ -0,0 +1,112 @@
+import { describe, expect, test } from "bun:test";
+import { markdownCuts, renderMarkdown, renderMarkdownChunks } from "./markdown.js";
+import { TelegramFormatter } from "../platforms/telegram/formatter.js";
+import { WxWorkFormatter } from "../platforms/wxwork/formatter.js";
+
+const tg = new TelegramFormatter();
+const wx = new WxWorkFormatter();
+
+/** Every tag opened in a chunk is closed in it, innermost first */
+function balanced(html: string): boolean {
+  const open: string[] = [];
+  for (const [, close, name] of html.matchAll(/<(\/?)([a-z]+)[^>]*>/g)) {
+    if (!close) open.push(name);
+    else if (open.pop() !== name) return false;
+  }
+  return open.length === 0;
+}
+
+describe("renderMarkdown", () => {
+  test("renders strikethrough and nested formatting", () => {
+    expect(renderMarkdown("~~gone~~", tg)).toBe("<s>gone</s>");
+    expect(renderMarkdown("**bold _and italic_**", tg)).toBe("<b>bold </b><b><i>and italic</i></b>");
+    expect(renderMarkdown("**see [docs](https://x.io) and `a<b`**", tg)).toBe(
+      '<b>see <a href="https://x.io">docs</a> and <code>a&lt;b</code></b>',
+    );
+    expect(renderMarkdown("# Title `x`", tg)).toBe("<b>Title <code>x</code></b>");
+  });
+
+  test("shares one wrapper on WxWork, which can't nest emphasis", () => {
+    expect(renderMarkdown("**bold _and italic_ text**", wx)).toBe("**bold and italic text**");
+    expect(renderMarkdown("~~gone~~", wx)).toBe("gone");
+  });
+});
+
+describe("renderMarkdownChunks", () => {
+  const maxLen = 100;
+
+  test("splits an oversized inline code span into balanced chunks", () => {
+    const chunks = renderMarkdownChunks(`\`${"x".repeat(350)}\``, tg, maxLen);
+    expect(chunks.length).toBeGreaterThan(1);
+    for (const chunk of chunks) {
+      expect(chunk.length).toBeLessThanOrEqual(maxLen);
+      expect(chunk).toMatch(/^<code>x+<\/code>$/);
+    }
+    expect(chunks.join("").replace(/<\/?code>/g, "")).toBe("x".repeat(350));
+  });
+
+  test("splits oversized bold text, links and headings", () => {
+    for (const src of [
+      `**${"word ".repeat(80).trim()}**`,
+      `[${"a".repeat(300)}](https://example.com)`,
+      `# ${"long heading ".repeat(30)}`,
+    ]) {
+      for (const chunk of renderMarkdownChunks(src, tg, maxLen)) {
+        expect(chunk.length).toBeLessThanOrEqual(maxLen);
+        expect(balanced(chunk)).toBe(true);
+      }
+    }
+  });
+
+  test("accounts for escaping when splitting", () => {
+    const chunks = renderMarkdownChunks("<".repeat(300), tg, maxLen);
+    for (const chunk of chunks) expect(chunk.length).toBeLessThanOrEqual(maxLen);
+    expect(chunks.join("")).toBe("&lt;".repeat(300));
+
+    const code = renderMarkdownChunks("```\n" + "&".repeat(300) + "\n```", tg, maxLen);
+    for (const chunk of code) {
+      expect(chunk.length).toBeLessThanOrEqual(maxLen);
+      expect(chunk).toMatch(/^<pre>(&amp;)+<\/pre>$/);
+    }
+  });
+
+  test("doesn't split a surrogate pair", () => {
+    const chunks = renderMarkdownChunks(`\`${"😀".repeat(100)}\``, tg, maxLen);
+    for (const chunk of chunks) expect(chunk).toMatch(/^<code>(😀)+<\/code>$/u);
+  });
+});
+
+describe("markdownCuts", () => {
+  const cutAt = (src: string) => markdownCuts(src).map((cut) => [src.slice(cut.offset, cut.offset + 6), cut.reopen]);
+
+  test("cuts after blank lines and before top-level list items", () => {
+    expect(cutAt("one **two\nthree** four\n\nfive\n- six\n  - seven\n- eight\n")).toEqual([
+      ["five\n-", ""],
+      ["- six\n", ""],
+      ["- eigh", ""],
+    ]);
+    // A rule isn't a list item, and a line still streaming could become anything
+    expect(cutAt("para\n- - -\nmore")).toEqual([]);
+    expect(cutAt("para\n- ite")).toEqual([]);
+    expect(cutAt("para\n\n  ")).toEqual([]);
+  });
+
+  test("cuts between code lines and reopens the fence", () => {
+    expect(cutAt("```ts\na\n\nb\n```\n\nc")).toEqual([
+      ["\nb\n```", "```ts\n"],
+      ["b\n```\n", "```ts\n"],
+      ["c", ""],
+    ]);
+  });
+
+  test("splits into parts that render like the whole", () => {
+    const src = "Intro **bold\ntext**\n\n```py\nx = 1\ny = 2\n```\n\n- a\n- **b**";
+    const fmt = new TelegramFormatter();
+    const visible = (md: string) => renderMarkdown(md, fmt).replace(/<[^>]+>/g, "").replace(/\s+/g, "");
+    const cuts = markdownCuts(src);
+    expect(cuts.length).toBe(3);
+    for (const cut of cuts) {
+      expect(visible(src.slice(0, cut.offset)) + visible(cut.reopen + src.slice(cut.offset))).toBe(visible(src));
+    }
+  });
+});
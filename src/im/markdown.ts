@@ -0,0 +1,597 @@
+/**
+ * Markdown → platform rendering pipeline.
+ *
+ * Agent replies are Markdown. They are parsed into a small document AST
+ * and rendered through the platform's Formatter, so Telegram gets HTML
+ * and WxWork gets its own Markdown subset. Only what chat clients can
+ * display is modelled: headings collapse to bold, nested emphasis is
+ * flattened into styled runs, tables degrade to preformatted text.
+ *
+ * Chunking works on rendered blocks and whole inline runs, so a chunk
+ * boundary never falls inside a code block or a formatting tag. A run or
+ * line too long for one message is split and each piece re-wrapped.
+ */
+
+import type { Formatter, TextStyle } from "./formatter.js";
+
+export type MdInline =
+  | { type: "text"; text: string }
+  | { type: "code"; text: string }
+  | { type: "bold"; children: MdInline[] }
+  | { type: "italic"; children: MdInline[] }
+  | { type: "strike"; children: MdInline[] }
+  | { type: "link"; url: string; children: MdInline[] };
+
+export interface MdListItem {
+  depth: number;
+  ordered: boolean;
+  marker: string;
+  inlines: MdInline[];
+}
+
+export type MdBlock =
+  | { type: "paragraph"; inlines: MdInline[] }
+  | { type: "heading"; level: number; inlines: MdInline[] }
+  | { type: "code"; language?: string; text: string }
+  | { type: "list"; items: MdListItem[] }
+  | { type: "quote"; text: string }
+  | { type: "table"; header: string[]; rows: string[][] }
+  | { type: "rule" };
+
+export interface MdDocument {
+  blocks: MdBlock[];
+}
+
+// ── Block parsing ────────────────────────────────────────────────────
+
+const FENCE_RE = /^\s{0,3}(`{3,}|~{3,})\s*([^\s`]*)/;
+const HEADING_RE = /^\s{0,3}(#{1,6})\s+(.*?)\s*#*\s*$/;
+const RULE_RE = /^\s{0,3}([-*_])(\s*\1){2,}\s*$/;
+const QUOTE_RE = /^\s{0,3}>\s?(.*)$/;
+const LIST_RE = /^(\s*)([-*+]|\d{1,9}[.)])\s+(.*)$/;
+const TABLE_SEP_RE = /^\s*\|?\s*:?-{1,}:?\s*(\|\s*:?-{1,}:?\s*)*\|?\s*$/;
+
+function isTableStart(lines: string[], i: number): boolean {
+  const next = lines[i + 1];
+  return lines[i].includes("|") && next !== undefined && next.includes("|") && TABLE_SEP_RE.test(next);
+}
+
+function startsBlock(lines: string[], i: number): boolean {
+  const line = lines[i];
+  return (
+    FENCE_RE.test(line) ||
+    HEADING_RE.test(line) ||
+    RULE_RE.test(line) ||
+    QUOTE_RE.test(line) ||
+    LIST_RE.test(line) ||
+    isTableStart(lines, i)
+  );
+}
+
+/** Matches the line that closes a code block opened with `marker` */
+function fenceCloseRe(marker: string): RegExp {
+  return new RegExp(`^\\s{0,3}${marker[0] === "`" ? "`" : "~"}{${marker.length},}\\s*$`);
+}
+
+function splitTableRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith("|")) row = row.slice(1);
+  if (row.endsWith("|") && !row.endsWith("\\|")) row = row.slice(0, -1);
+  return row.split(/(?<!\\)\|/).map((cell) => cell.trim().replace(/\\\|/g, "|"));
+}
+
+/**
+ * Parse Markdown into a document. Unterminated constructs (e.g. an open
+ * code fence while the reply is still streaming) run to the end of input.
+ */
+export function parseMarkdown(src: string): MdDocument {
+  const lines = src.replace(/\r\n?/g, "\n").split("\n");
+  const blocks: MdBlock[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (!line.trim()) {
+      i++;
+      continue;
+    }
+
+    const fence = line.match(FENCE_RE);
+    if (fence) {
+      const closeRe = fenceCloseRe(fence[1]);
+      const body: string[] = [];
+      i++;
+      while (i < lines.length && !closeRe.test(lines[i])) {
+        body.push(lines[i]);
+        i++;
+      }
+      i++; // closing fence
+      blocks.push({ type: "code", language: fence[2] || undefined, text: body.join("\n") });
+      continue;
+    }
+
+    const heading = line.match(HEADING_RE);
+    if (heading) {
+      blocks.push({ type: "heading", level: heading[1].length, inlines: parseInline(heading[2]) });
+      i++;
+      continue;
+    }
+
+    if (RULE_RE.test(line)) {
+      blocks.push({ type: "rule" });
+      i++;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitTableRow(line);
+      const rows: string[][] = [];
+      i += 2;
+      while (i < lines.length && lines[i].includes("|") && lines[i].trim()) {
+        rows.push(splitTableRow(lines[i]));
+        i++;
+      }
+      blocks.push({ type: "table", header, rows });
+      continue;
+    }
+
+    if (QUOTE_RE.test(line)) {
+      const body: string[] = [];
+      let m: RegExpMatchArray | null;
+      while (i < lines.length && (m = lines[i].match(QUOTE_RE))) {
+        body.push(m[1]);
+        i++;
+      }
+      blocks.push({ type: "quote", text: plainText(parseInline(body.join("\n"))) });
+      continue;
+    }
+
+    if (LIST_RE.test(line)) {
+      const items: MdListItem[] = [];
+      const baseIndent = line.match(/^\s*/)![0].length;
+      while (i < lines.length) {
+        const m = lines[i].match(LIST_RE);
+        if (m) {
+          const indent = m[1].replace(/\t/g, "    ").length;
+          items.push({
+            depth: Math.max(0, Math.floor((indent - baseIndent) / 2)),
+            ordered: /\d/.test(m[2]),
+            marker: m[2],
+            inlines: parseInline(m[3]),
+          });
+          i++;
+          continue;
+        }
+        // Indented continuation of the previous item
+        if (lines[i].trim() && /^\s+/.test(lines[i]) && !startsBlock(lines, i)) {
+          const last = items[items.length - 1];
+          last.inlines.push({ type: "text", text: "\n" }, ...parseInline(lines[i].trim()));
+          i++;
+          continue;
+        }
+        break;
+      }
+      blocks.push({ type: "list", items });
+      continue;
+    }
+
+    const body: string[] = [line];
+    i++;
+    while (i < lines.length && lines[i].trim() && !startsBlock(lines, i)) {
+      body.push(lines[i]);
+      i++;
+    }
+    blocks.push({ type: "paragraph", inlines: parseInline(body.join("\n")) });
+  }
+
+  return { blocks };
+}
+
+/** A point where Markdown can be split without changing how either side renders */
+export interface MarkdownCut {
+  /** Offset of the first line after the cut */
+  offset: number;
+  /** Fence line to put before the rest when the cut falls inside a code block, else "" */
+  reopen: string;
+}
+
+/**
+ * Points where `src` can be split so the text before renders on its own
+ * exactly as it does in the whole, even while more text is appended: after
+ * a blank line outside a code block (no block or inline span crosses one),
+ * before a top-level list item, and between lines of a code block (the
+ * rest reopens the fence). Cuts with only whitespace after them are left
+ * out. In order of offset.
+ */
+export function markdownCuts(src: string): MarkdownCut[] {
+  const cuts: MarkdownCut[] = [];
+  const lines = src.split("\n");
+  const textEnd = src.trimEnd().length;
+  let fence: { line: string; closeRe: RegExp; body: number } | null = null;
+  let afterBlank = false;
+  let offset = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    const start = offset;
+    offset += line.length + 1;
+    // The last line may still be growing, so it can't tell what it will be
+    const complete = i < lines.length - 1;
+
+    if (i > 0 && start < textEnd) {
+      if (fence) {
+        if (fence.body > 0 && complete && !fence.closeRe.test(line)) {
+          cuts.push({ offset: start, reopen: `${fence.line}\n` });
+        }
+      } else if (afterBlank || (complete && /^[-*+\d]/.test(line) && LIST_RE.test(line) && !RULE_RE.test(line))) {
+        cuts.push({ offset: start, reopen: "" });
+      }
+    }
+
+    if (fence) {
+      if (fence.closeRe.test(line)) fence = null;
+      else fence.body++;
+      afterBlank = false;
+      continue;
+    }
+    const open = line.match(FENCE_RE);
+    if (open) {
+      fence = { line, closeRe: fenceCloseRe(open[1]), body: 0 };
+    }
+    afterBlank = !line.trim();
+  }
+  return cuts;
+}
+
+// ── Inline parsing ───────────────────────────────────────────────────
+
+const ESCAPABLE = "\\`*_{}[]()#+-.!|~<>";
+
+function isWordChar(ch: string | undefined): boolean {
+  return !!ch && /[\p{L}\p{N}]/u.test(ch);
+}
+
+/** Find a closing delimiter that is not preceded by whitespace. */
+function findClose(text: string, delim: string, from: number): number {
+  let idx = text.indexOf(delim, from);
+  while (idx !== -1) {
+    const before = text[idx - 1];
+    const doubled = delim.length === 1 && (text[idx + 1] === delim || before === delim);
+    const intraword = delim[0] === "_" && isWordChar(text[idx + delim.length]);
+    if (idx > from && before && !/\s/.test(before) && !doubled && !intraword) return idx;
+    idx = text.indexOf(delim, idx + 1);
+  }
+  return -1;
+}
+
+export function parseInline(text: string): MdInline[] {
+  const out: MdInline[] = [];
+  let buf = "";
+  let i = 0;
+
+  const flush = () => {
+    if (buf) out.push({ type: "text", text: buf });
+    buf = "";
+  };
+
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === "\\" && i + 1 < text.length && ESCAPABLE.includes(text[i + 1])) {
+      buf += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === "`") {
+      let run = 1;
+      while (text[i + run] === "`") run++;
+      const ticks = "`".repeat(run);
+      const close = text.indexOf(ticks, i + run);
+      if (close !== -1) {
+        flush();
+        let code = text.slice(i + run, close);
+        if (/^ .* $/.test(code)) code = code.slice(1, -1);
+        out.push({ type: "code", text: code });
+        i = close + run;
+        continue;
+      }
+      buf += ticks;
+      i += run;
+      continue;
+    }
+
+    if (ch === "[") {
+      const closeBracket = text.indexOf("]", i + 1);
+      if (closeBracket !== -1 && text[closeBracket + 1] === "(") {
+        const closeParen = text.indexOf(")", closeBracket + 2);
+        if (closeParen !== -1) {
+          const url = text.slice(closeBracket + 2, closeParen).trim().split(/\s+/)[0];
+          if (url) {
+            flush();
+            out.push({ type: "link", url, children: parseInline(text.slice(i + 1, closeBracket)) });
+            i = closeParen + 1;
+            continue;
+          }
+        }
+      }
+    }
+
+    if (ch === "<") {
+      const m = text.slice(i).match(/^<(https?:\/\/[^\s>]+)>/);
+      if (m) {
+        flush();
+        out.push({ type: "link", url: m[1], children: [{ type: "text", text: m[1] }] });
+        i += m[0].length;
+        continue;
+      }
+    }
+
+    if (ch === "*" || ch === "_" || ch === "~") {
+      const double = text[i + 1] === ch;
+      const delim = double ? ch + ch : ch;
+      const next = text[i + delim.length];
+      const leftFlanking = next !== undefined && !/\s/.test(next);
+      const wordStart = ch !== "_" || !isWordChar(text[i - 1]);
+      if (leftFlanking && wordStart && (ch !== "~" || double)) {
+        const close = findClose(text, delim, i + delim.length);
+        if (close !== -1) {
+          flush();
+          const children = parseInline(text.slice(i + delim.length, close));
+          const type = ch === "~" ? "strike" : double ? "bold" : "italic";
+          out.push({ type, children });
+          i = close + delim.length;
+          continue;
+        }
+      }
+      buf += delim;
+      i += delim.length;
+      continue;
+    }
+
+    buf += ch;
+    i++;
+  }
+
+  flush();
+  return out;
+}
+
+/** Flatten inline nodes to their visible text. */
+export function plainText(nodes: MdInline[]): string {
+  return nodes
+    .map((n) => (n.type === "text" || n.type === "code" ? n.text : plainText(n.children)))
+    .join("");
+}
+
+// ── Rendering ────────────────────────────────────────────────────────
+
+const RULE_TEXT = "──────────";
+
+/**
+ * A stretch of inline text with one set of attributes: what the inline
+ * tree flattens to, so `**bold _and italic_**` keeps both styles
+ */
+interface InlineRun {
+  text: string;
+  style: TextStyle;
+  code?: boolean;
+  url?: string;
+}
+
+function inlineRuns(nodes: MdInline[], style: TextStyle = {}, url?: string): InlineRun[] {
+  return nodes.flatMap((n): InlineRun[] => {
+    switch (n.type) {
+      case "text":
+        return [{ text: n.text, style, url }];
+      case "code":
+        return [{ text: n.text, style, code: true, url }];
+      case "bold":
+      case "italic":
+      case "strike":
+        return inlineRuns(n.children, { ...style, [n.type]: true }, url);
+      case "link":
+        return inlineRuns(n.children, style, n.url);
+    }
+  });
+}
+
+function renderRunText(run: InlineRun, fmt: Formatter): string {
+  return run.url ? fmt.link(run.text, run.url) : run.code ? fmt.code(run.text) : fmt.escape(run.text);
+}
+
+/**
+ * Split `text` into slices that each render to at most `maxLen`
+ * characters, cutting at whitespace where possible. A slice is at least
+ * one character (never half a surrogate pair), so markup that can't fit
+ * at all still makes progress.
+ */
+function fitSlices(text: string, render: (t: string) => string, maxLen: number): string[] {
+  const slices: string[] = [];
+  let rest = text;
+  do {
+    let len = rest.length;
+    let rendered = render(rest).length;
+    while (rendered > maxLen && len > 1) {
+      // Escaping expands unevenly, so shrink in proportion and re-measure
+      len = Math.max(1, Math.min(len - 1, Math.floor((len * maxLen) / rendered)));
+      if (len > 1 && /[\uD800-\uDBFF]/.test(rest[len - 1])) len--;
+      rendered = render(rest.slice(0, len)).length;
+    }
+    if (len < rest.length) {
+      const space = rest.slice(0, len).search(/\s\S*$/);
+      if (space > len * 0.3) len = space + 1;
+    }
+    slices.push(rest.slice(0, len));
+    rest = rest.slice(len);
+  } while (rest);
+  return slices;
+}
+
+/**
+ * Render inline nodes as a list of atoms. Each atom is balanced markup
+ * (or escaped text) of at most `maxLen` characters, so atoms can be packed
+ * into chunks without ever cutting through a tag. Plain text is split at
+ * whitespace. Adjacent runs whose styles render the same way share one
+ * wrapper (WxWork has only `**` for bold and italic, and can't nest it);
+ * a styled stretch is split only when it doesn't fit on its own.
+ */
+function inlineAtoms(nodes: MdInline[], fmt: Formatter, maxLen: number, style: TextStyle = {}): string[] {
+  const atoms: string[] = [];
+  const pieceLen = Math.min(maxLen, Math.max(16, Math.floor(maxLen / 2)));
+  const groups: Array<{ wrapper: string; style: TextStyle; runs: InlineRun[] }> = [];
+  for (const run of inlineRuns(nodes, style)) {
+    const wrapper = fmt.styled("", run.style);
+    const last = groups[groups.length - 1];
+    if (last && last.wrapper === wrapper && wrapper) {
+      last.runs.push(run);
+    } else {
+      groups.push({ wrapper, style: run.style, runs: [run] });
+    }
+  }
+
+  for (const group of groups) {
+    const wrap = (markup: string) => (group.wrapper ? fmt.styled(markup, group.style) : markup);
+    const whole = wrap(group.runs.map((run) => renderRunText(run, fmt)).join(""));
+    if (group.wrapper && whole.length <= maxLen) {
+      atoms.push(whole);
+      continue;
+    }
+    for (const run of group.runs) {
+      const render = (text: string) => wrap(renderRunText({ ...run, text }, fmt));
+      if (run.code || run.url || group.wrapper) {
+        atoms.push(...fitSlices(run.text, render, maxLen).map(render));
+        continue;
+      }
+      for (const token of run.text.split(/(\s+)/)) {
+        if (token) atoms.push(...fitSlices(token, render, pieceLen).map(render));
+      }
+    }
+  }
+
+  return atoms;
+}
+
+export function renderInline(nodes: MdInline[], fmt: Formatter): string {
+  return inlineAtoms(nodes, fmt, Infinity).join("");
+}
+
+/**
+ * Wrap `text` with `wrap`, splitting on line boundaries into several
+ * wrapped pieces when the result would exceed `maxLen`. Lines too long for
+ * one piece are split themselves.
+ */
+function wrappedPieces(text: string, wrap: (t: string) => string, maxLen: number): string[] {
+  const whole = wrap(text);
+  if (whole.length <= maxLen) return [whole];
+
+  const pieces: string[] = [];
+  let cur: string[] = [];
+
+  const push = () => {
+    if (cur.length) pieces.push(wrap(cur.join("\n")));
+    cur = [];
+  };
+
+  for (const line of text.split("\n")) {
+    for (const part of fitSlices(line, wrap, maxLen)) {
+      if (cur.length && wrap([...cur, part].join("\n")).length > maxLen) push();
+      cur.push(part);
+    }
+  }
+  push();
+  return pieces;
+}
+
+function formatTable(header: string[], rows: string[][]): string {
+  const all = [header, ...rows];
+  const cols = Math.max(...all.map((r) => r.length));
+  const widths: number[] = [];
+  for (let c = 0; c < cols; c++) {
+    widths.push(Math.max(...all.map((r) => (r[c] ?? "").length)));
+  }
+  const fmtRow = (r: string[]) =>
+    widths.map((w, c) => (r[c] ?? "").padEnd(w)).join(" | ").trimEnd();
+  const sep = widths.map((w) => "-".repeat(Math.max(1, w))).join("-+-");
+  return [fmtRow(header), sep, ...rows.map(fmtRow)].join("\n");
+}
+
+function blockAtoms(block: MdBlock, fmt: Formatter, maxLen: number): string[] {
+  switch (block.type) {
+    case "paragraph":
+      return inlineAtoms(block.inlines, fmt, maxLen);
+    case "heading":
+      return inlineAtoms(block.inlines, fmt, maxLen, { bold: true });
+    case "code":
+      return interleave(wrappedPieces(block.text, (t) => fmt.pre(t, block.language), maxLen));
+    case "table":
+      return interleave(wrappedPieces(formatTable(block.header, block.rows), (t) => fmt.pre(t), maxLen));
+    case "quote":
+      return interleave(wrappedPieces(block.text, (t) => fmt.quote(t), maxLen));
+    case "rule":
+      return [fmt.escape(RULE_TEXT)];
+    case "list": {
+      const atoms: string[] = [];
+      block.items.forEach((item, idx) => {
+        if (idx > 0) atoms.push("\n");
+        const bullet = item.ordered ? item.marker : "•";
+        atoms.push(fmt.escape(`${"  ".repeat(item.depth)}${bullet} `));
+        atoms.push(...inlineAtoms(item.inlines, fmt, maxLen));
+      });
+      return atoms;
+    }
+  }
+}
+
+function interleave(pieces: string[]): string[] {
+  return pieces.flatMap((p, idx) => (idx > 0 ? ["\n", p] : [p]));
+}
+
+export function renderDocument(doc: MdDocument, fmt: Formatter): string {
+  return doc.blocks.map((b) => blockAtoms(b, fmt, Infinity).join("")).join("\n\n");
+}
+
+export function renderMarkdown(src: string, fmt: Formatter): string {
+  return renderDocument(parseMarkdown(src), fmt);
+}
+
+/**
+ * Render Markdown and split the result into messages of at most `maxLen`
+ * characters. Blocks are packed whole where possible; oversized blocks are
+ * split between inline atoms, and code blocks are re-wrapped per piece.
+ */
+export function renderMarkdownChunks(src: string, fmt: Formatter, maxLen: number): string[] {
+  const chunks: string[] = [];
+  let cur = "";
+
+  const push = () => {
+    if (cur.trim()) chunks.push(cur.trimEnd());
+    cur = "";
+  };
+
+  for (const block of parseMarkdown(src).blocks) {
+    const atoms = blockAtoms(block, fmt, maxLen);
+    const rendered = atoms.join("");
+    const sep = cur ? "\n\n" : "";
+
+    if (cur.length + sep.length + rendered.length <= maxLen) {
+      cur += sep + rendered;
+      continue;
+    }
+    push();
+    if (rendered.length <= maxLen) {
+      cur = rendered;
+      continue;
+    }
+
+    for (const atom of atoms) {
+      if (!cur && !atom.trim()) continue;
+      if (cur.length + atom.length > maxLen) push();
+      if (!cur && !atom.trim()) continue;
+      cur += atom;
+    }
+  }
+
+  push();
+  return chunks;
+}
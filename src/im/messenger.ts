@@ -32,7 +32,10 @@ export interface Messenger {
   readonly capabilities: MessengerCapabilities;
   send(convo: ConversationRef, msg: OutMessage): Promise<SendResult>;
   edit?(convo: ConversationRef, messageRef: string, msg: OutMessage): Promise<void>;
+  sendDraft?(convo: ConversationRef, draftId: number, msg: OutMessage): Promise<void>;
   deleteMessage?(convo: ConversationRef, messageRef: string): Promise<void>;
   ackAction?(ackHandle: unknown, text?: string, alert?: boolean): Promise<void>;
   sendTyping?(convo: ConversationRef): Promise<void>;
+  /** Leave a group chat */
+  leave?(convo: ConversationRef): Promise<void>;
 }
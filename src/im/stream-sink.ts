@@ -1,7 +1,9 @@
 export interface StreamSink {
   start(): void;
   onDelta(delta: string): void;
+  onThinkingDelta(delta: string): void;
   toolNotice(text: string): Promise<void>;
+  seal(): Promise<void>;
   finalize(error?: string): Promise<string | null>;
   resetState(): void;
   readonly buffer: string;
@@ -17,8 +17,19 @@ export interface ImageData {
   mimeType: string;
 }
 
+/** The chat an event came from; events without one are treated as direct */
+export interface ChatInfo {
+  kind: "direct" | "group";
+  title?: string;
+}
+
+/**
+ * `addressed` is set on group messages that @mention the bot or reply to it.
+ * `joined` is sent when the bot is added to a chat.
+ */
 export type InboundEvent =
-  | { type: "text"; convo: ConversationRef; from: UserRef; text: string; raw?: unknown }
-  | { type: "command"; convo: ConversationRef; from: UserRef; command: string; args: string; raw?: unknown }
-  | { type: "image"; convo: ConversationRef; from: UserRef; image: ImageData; caption?: string; raw?: unknown }
-  | { type: "action"; convo: ConversationRef; from: UserRef; actionId: string; data?: string; ackHandle?: unknown; raw?: unknown };
+  | { type: "text"; convo: ConversationRef; from: UserRef; chat?: ChatInfo; text: string; addressed?: boolean; raw?: unknown }
+  | { type: "command"; convo: ConversationRef; from: UserRef; chat?: ChatInfo; command: string; args: string; raw?: unknown }
+  | { type: "image"; convo: ConversationRef; from: UserRef; chat?: ChatInfo; image: ImageData; caption?: string; addressed?: boolean; raw?: unknown }
+  | { type: "action"; convo: ConversationRef; from: UserRef; chat?: ChatInfo; actionId: string; data?: string; ackHandle?: unknown; raw?: unknown }
+  | { type: "joined"; convo: ConversationRef; from: UserRef; chat: ChatInfo; raw?: unknown };
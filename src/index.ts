@@ -17,7 +17,7 @@
 import { readFileSync, writeFileSync, renameSync, mkdirSync } from "node:fs";
 import { dirname } from "node:path";
 import { loadConfig } from "./config.js";
-import { AuthStore } from "./auth.js";
+import { AuthStore, identityOf, parseIdentity } from "./auth.js";
 import { createTelegramClient, scopedClient, type TgUpdate } from "./telegram/client.js";
 import { escapeHtml } from "./telegram/format.js";
 import { ChatController } from "./session/controller.js";
@@ -102,6 +102,10 @@ function enqueueForController(chatId: number, threadId: number | undefined, fn:
 
 // ── Pairing & auth commands (handled before controller routing) ────
 
+function tgIdentity(userId: number): string {
+  return identityOf({ platform: "telegram", userId: String(userId) });
+}
+
 async function handleAuthCommand(
   chatId: number,
   userId: number,
@@ -118,7 +122,7 @@ async function handleAuthCommand(
       await send.sendMessage(chatId, "🔒 Owner pairing must be done in a private chat with the bot.");
       return true;
     }
-    auth.pair(userId, username);
+    auth.pair(tgIdentity(userId), username);
     await send.sendMessage(
       chatId,
       [
@@ -146,7 +150,7 @@ async function handleAuthCommand(
   }
 
   // Owner-only user management commands
-  if (auth.isOwner(userId)) {
+  if (auth.isOwner(tgIdentity(userId))) {
     switch (command) {
       case "/adduser": {
         const targetId = Number(args.trim());
@@ -154,7 +158,7 @@ async function handleAuthCommand(
           await send.sendMessage(chatId, "Usage: /adduser &lt;user_id&gt;\n\nAsk the user to message @userinfobot to find their ID.", { parse_mode: "HTML" });
           return true;
         }
-        if (auth.addUser(targetId)) {
+        if (auth.addUser(tgIdentity(targetId))) {
           await send.sendMessage(chatId, `✅ User <code>${targetId}</code> added.`, { parse_mode: "HTML" });
         } else {
           await send.sendMessage(chatId, `User <code>${targetId}</code> is already allowed.`, { parse_mode: "HTML" });
@@ -168,9 +172,9 @@ async function handleAuthCommand(
           await send.sendMessage(chatId, "Usage: /removeuser &lt;user_id&gt;", { parse_mode: "HTML" });
           return true;
         }
-        if (auth.removeUser(targetId)) {
+        if (auth.removeUser(tgIdentity(targetId))) {
           await send.sendMessage(chatId, `✅ User <code>${targetId}</code> removed.`, { parse_mode: "HTML" });
-        } else if (auth.isOwner(targetId)) {
+        } else if (auth.isOwner(tgIdentity(targetId))) {
           await send.sendMessage(chatId, "Cannot remove the owner.");
         } else {
           await send.sendMessage(chatId, `User <code>${targetId}</code> is not in the allowed list.`, { parse_mode: "HTML" });
@@ -230,7 +234,7 @@ async function handleUpdate(update: TgUpdate): Promise<void> {
   // Handle callback queries
   if (update.callback_query) {
     const cb = update.callback_query;
-    if (!auth.isAuthorized(cb.from.id)) {
+    if (!auth.isAuthorized(tgIdentity(cb.from.id))) {
       await tg.answerCallbackQuery(cb.id, { text: "Unauthorized.", show_alert: true });
       return;
     }
@@ -257,7 +261,7 @@ async function handleUpdate(update: TgUpdate): Promise<void> {
 
     // Handle photo messages
     if (msg.photo && msg.photo.length > 0) {
-      if (!auth.isAuthorized(userId)) return;
+      if (!auth.isAuthorized(tgIdentity(userId))) return;
       const largestPhoto = msg.photo[msg.photo.length - 1];
       enqueueForController(msgChatId, msgThreadId, async () => {
         const ctrl = getController(msgChatId, msgThreadId);
@@ -284,7 +288,7 @@ async function handleUpdate(update: TgUpdate): Promise<void> {
 
     // /tmux topic: non-command messages go directly to tmux
     if (isTmuxTopic && !command) {
-      if (!auth.isAuthorized(userId)) return;
+      if (!auth.isAuthorized(tgIdentity(userId))) return;
       enqueueForController(msgChatId, msgThreadId, async () => {
         const ctrl = getController(msgChatId, msgThreadId);
         await ctrl.handleTmuxTopicMessage(text);
@@ -299,7 +303,7 @@ async function handleUpdate(update: TgUpdate): Promise<void> {
     }
 
     // Auth check for all other interactions
-    if (!auth.isAuthorized(userId)) {
+    if (!auth.isAuthorized(tgIdentity(userId))) {
       if (command === "/start") {
         const sc = scopedClient(tg, msgThreadId);
         await sc.sendMessage(msgChatId, "🔒 This bot is already paired to another user. Contact the owner for access.");
@@ -343,8 +347,9 @@ async function poll(): Promise<void> {
 
   const modelCount = config.modelRegistry.list().length;
   const defaultModel = config.modelRegistry.getDefault();
-  if (config.presetOwnerId && !auth.isPaired()) {
-    auth.pair(config.presetOwnerId);
+  const presetOwner = config.presetOwnerId ? parseIdentity(config.presetOwnerId, "telegram") : null;
+  if (presetOwner && !auth.isPaired()) {
+    auth.pair(presetOwner);
     rootLogger.info({ ownerId: config.presetOwnerId }, "Owner pre-configured via OWNER_ID");
   }
 
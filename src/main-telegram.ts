@@ -1,6 +1,11 @@
 import { loadConfig } from "./config.js";
-import { AuthStore } from "./auth.js";
+import { AuthStore, parseIdentity } from "./auth.js";
 import { PermissionStore } from "./permissions-store.js";
+import { AuditLog } from "./audit-log.js";
+import { UsageStore } from "./usage-store.js";
+import { QuotaStore } from "./quota-store.js";
+import { ConversationSettingsStore } from "./conversation-settings-store.js";
+import { ProjectStore } from "./project-store.js";
 import { createTelegramClient } from "./telegram/client.js";
 import { TelegramMessenger } from "./platforms/telegram/messenger.js";
 import { TelegramFormatter } from "./platforms/telegram/formatter.js";
@@ -15,6 +20,11 @@ async function main(): Promise<void> {
   const config = await loadConfig();
   const auth = new AuthStore(config.authFile);
   const permissions = new PermissionStore(config.permissionsDir);
+  const audit = new AuditLog(config.auditFile);
+  const usage = new UsageStore(config.usageFile);
+  const quotas = new QuotaStore(config.quotaFile);
+  const settings = new ConversationSettingsStore(config.conversationsFile);
+  const projects = new ProjectStore(config.projectsFile);
   const tg = createTelegramClient(config.telegramToken);
   const messenger = new TelegramMessenger(tg);
   const fmt = new TelegramFormatter();
@@ -25,13 +35,23 @@ async function main(): Promise<void> {
   });
 
   const createStreamSink = (convo: ConversationRef) =>
-    new TelegramStreamSink(messenger, convo);
+    new TelegramStreamSink(messenger, convo, { editThrottleMs: config.editThrottleMs });
 
-  const router = new Router({ config, auth, permissions, messenger, fmt, createStreamSink });
+  // Only needed for invite deep links; invites still work as `/start CODE` without it
+  const botUsername = await tg.getMe().then(
+    (me) => me.username,
+    (e) => {
+      rootLogger.warn({ err: e }, "Failed to get bot username, invite links disabled");
+      return undefined;
+    },
+  );
+
+  const router = new Router({ config, auth, permissions, audit, usage, quotas, settings, projects, messenger, fmt, createStreamSink, botUsername });
 
-  if (config.presetOwnerId && !auth.isPaired()) {
-    auth.pair(config.presetOwnerId);
-    rootLogger.info({ ownerId: config.presetOwnerId }, "Owner pre-configured via OWNER_ID");
+  const presetOwner = config.presetOwnerId ? parseIdentity(config.presetOwnerId, "telegram") : null;
+  if (presetOwner && !auth.isPaired()) {
+    auth.pair(presetOwner);
+    rootLogger.info({ ownerId: presetOwner }, "Owner pre-configured via OWNER_ID");
   }
 
   const modelCount = config.modelRegistry.list().length;
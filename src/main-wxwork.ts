@@ -13,13 +13,21 @@
  *   AGENT_CWD             — Working directory for the agent (default: cwd)
  *   TMUX_SOCKET_DIR       — tmux socket directory
  *   AUTH_FILE              — Path to auth.json
+ *   AUDIT_FILE            — Path to the tool call audit log (audit.jsonl)
+ *   USAGE_FILE            — Path to the token usage totals (usage.json)
+ *   QUOTA_FILE            — Path to spending quotas and rate limits (quotas.json)
  *   DATA_DIR              — Data directory
- *   OWNER_ID              — Pre-configured owner ID
+ *   OWNER_ID              — Pre-configured owner (WxWork user ID, or platform:user_id)
  */
 
-import { loadModels, type ThinkingLevel } from "./models.js";
-import { AuthStore } from "./auth.js";
+import { ModelsFile, type ThinkingLevel } from "./models.js";
+import { AuthStore, parseIdentity } from "./auth.js";
 import { PermissionStore } from "./permissions-store.js";
+import { AuditLog } from "./audit-log.js";
+import { UsageStore } from "./usage-store.js";
+import { QuotaStore } from "./quota-store.js";
+import { ConversationSettingsStore } from "./conversation-settings-store.js";
+import { ProjectStore } from "./project-store.js";
 import { WxWorkClient } from "./platforms/wxwork/client.js";
 import { WxWorkMessenger } from "./platforms/wxwork/messenger.js";
 import { WxWorkFormatter } from "./platforms/wxwork/formatter.js";
@@ -52,13 +60,18 @@ async function main(): Promise<void> {
   const dataDir = process.env.DATA_DIR ?? ".";
   const authFile = process.env.AUTH_FILE ?? `${dataDir}/auth.json`;
   const permissionsDir = process.env.PERMISSIONS_DIR ?? `${dataDir}/permissions`;
+  const auditFile = process.env.AUDIT_FILE ?? `${dataDir}/audit.jsonl`;
+  const usageFile = process.env.USAGE_FILE ?? `${dataDir}/usage.json`;
+  const quotaFile = process.env.QUOTA_FILE ?? `${dataDir}/quotas.json`;
+  const conversationsFile = process.env.CONVERSATIONS_FILE ?? `${dataDir}/conversations.json`;
+  const projectsFile = process.env.PROJECTS_FILE ?? `${dataDir}/projects.json`;
   const sessionDir = process.env.SESSION_DIR ?? `${dataDir}/sessions`;
   const defaultThinkingLevel = (process.env.THINKING_LEVEL ?? "medium") as ThinkingLevel;
 
-  const presetOwnerIdRaw = process.env.OWNER_ID;
-  const presetOwnerId = presetOwnerIdRaw ? Number(presetOwnerIdRaw) : null;
+  const presetOwnerId = process.env.OWNER_ID || null;
 
-  const modelRegistry = await loadModels(dataDir);
+  const models = await ModelsFile.load(dataDir);
+  models.watch();
 
   const config: Config = {
     telegramToken: "",
@@ -71,15 +84,28 @@ async function main(): Promise<void> {
     sessionDir,
     dataDir,
     permissionsDir,
-    modelRegistry,
+    auditFile,
+    usageFile,
+    quotaFile,
+    conversationsFile,
+    projectsFile,
+    models,
+    get modelRegistry() {
+      return models.registry;
+    },
     defaultThinkingLevel,
     presetOwnerId,
     messageStoreEnabled: false,
     messageStoreMaxAgeDays: 0,
   };
 
-  const auth = new AuthStore(config.authFile);
+  const auth = new AuthStore(config.authFile, "wxwork");
   const permissions = new PermissionStore(config.permissionsDir);
+  const audit = new AuditLog(config.auditFile);
+  const usage = new UsageStore(config.usageFile);
+  const quotas = new QuotaStore(config.quotaFile);
+  const settings = new ConversationSettingsStore(config.conversationsFile);
+  const projects = new ProjectStore(config.projectsFile);
   const wxClient = new WxWorkClient({ corpId, corpSecret, agentId });
   const messenger = new WxWorkMessenger(wxClient);
   const fmt = new WxWorkFormatter();
@@ -87,15 +113,16 @@ async function main(): Promise<void> {
   const createStreamSink = (convo: ConversationRef) =>
     new WxWorkStreamSink(messenger, convo);
 
-  const router = new Router({ config, auth, permissions, messenger, fmt, createStreamSink });
+  const router = new Router({ config, auth, permissions, audit, usage, quotas, settings, projects, messenger, fmt, createStreamSink });
 
-  if (presetOwnerId && !auth.isPaired()) {
-    auth.pair(presetOwnerId);
-    rootLogger.info({ ownerId: presetOwnerId }, "Owner pre-configured via OWNER_ID");
+  const presetOwner = presetOwnerId ? parseIdentity(presetOwnerId, "wxwork") : null;
+  if (presetOwner && !auth.isPaired()) {
+    auth.pair(presetOwner);
+    rootLogger.info({ ownerId: presetOwner }, "Owner pre-configured via OWNER_ID");
   }
 
-  const modelCount = modelRegistry.list().length;
-  const defaultModel = modelRegistry.getDefault();
+  const modelCount = config.modelRegistry.list().length;
+  const defaultModel = config.modelRegistry.getDefault();
 
   rootLogger.info("🤖 Pi Agent WxWork Bot started");
   rootLogger.info({
@@ -0,0 +1,90 @@
+import { describe, expect, test } from "bun:test";
+import {
+  createAssistantMessageEventStream,
+  type AssistantMessage,
+  type AssistantMessageEvent,
+  type Context,
+  type Model,
+  type Api,
+  type SimpleStreamOptions,
+} from "@mariozechner/pi-ai";
+import { streamWithRequestOptions, type ModelConfig } from "./models.js";
+
+const model = (api: Api): Model<Api> => ({
+  id: "m",
+  name: "m",
+  api,
+  provider: "test",
+  baseUrl: "",
+  reasoning: false,
+  input: ["text"],
+  cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0 },
+  contextWindow: 1000,
+  maxTokens: 100,
+});
+
+const config: ModelConfig = { key: "m", label: "m", provider: "test", id: "m", timeoutMs: 200 };
+const context: Context = { messages: [] };
+
+const message = (api: Api, stopReason: AssistantMessage["stopReason"]): AssistantMessage => ({
+  role: "assistant",
+  content: [],
+  api,
+  provider: "test",
+  model: "m",
+  usage: {
+    input: 0,
+    output: 0,
+    cacheRead: 0,
+    cacheWrite: 0,
+    totalTokens: 0,
+    cost: { input: 0, output: 0, cacheRead: 0, cacheWrite: 0, total: 0 },
+  },
+  stopReason,
+  timestamp: Date.now(),
+});
+
+/** A provider that ignores timeoutMs: sends `deltas` text deltas `gapMs` apart, and stops when aborted */
+function slowProvider(deltas: number, gapMs: number) {
+  return (m: Model<Api>, _context: Context, options?: SimpleStreamOptions) => {
+    const stream = createAssistantMessageEventStream();
+    void (async () => {
+      for (let i = 0; i < deltas; i++) {
+        await new Promise((resolve) => setTimeout(resolve, gapMs));
+        if (options?.signal?.aborted) {
+          stream.push({ type: "error", reason: "aborted", error: message(m.api, "aborted") });
+          return;
+        }
+        stream.push({ type: "text_delta", contentIndex: 0, delta: `${i}`, partial: message(m.api, "stop") });
+      }
+      stream.push({ type: "done", reason: "stop", message: message(m.api, "stop") });
+    })();
+    return stream;
+  };
+}
+
+async function collect(api: Api, deltas: number, gapMs: number): Promise<AssistantMessageEvent[]> {
+  const events: AssistantMessageEvent[] = [];
+  for await (const event of await streamWithRequestOptions(slowProvider(deltas, gapMs), model(api), context, config)) {
+    events.push(event);
+  }
+  return events;
+}
+
+describe("streamWithRequestOptions", () => {
+  test("lets a provider that ignores timeoutMs stream for longer than it", async () => {
+    const events = await collect("google-generative-ai", 6, 80);
+    expect(events.filter((e) => e.type === "text_delta")).toHaveLength(6);
+    expect(events.at(-1)?.type).toBe("done");
+  });
+
+  test("aborts a provider that ignores timeoutMs when it goes quiet", async () => {
+    const events = await collect("google-generative-ai", 2, 300);
+    expect(events.map((e) => e.type)).toEqual(["error"]);
+  });
+
+  test("leaves the timeout to SDKs that apply timeoutMs", async () => {
+    const events = await collect("openai-completions", 2, 300);
+    expect(events.at(-1)?.type).toBe("done");
+  });
+});
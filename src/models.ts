@@ -1,10 +1,41 @@
 import { readFile } from "node:fs/promises";
-import { getModel } from "@mariozechner/pi-ai";
-import type { Model, Api } from "@mariozechner/pi-ai";
+import { readFileSync, writeFileSync, mkdirSync, renameSync, watch } from "node:fs";
+import { dirname, basename } from "node:path";
+import { createAssistantMessageEventStream, getModel } from "@mariozechner/pi-ai";
+import type { AssistantMessageEventStream, Context, Model, Api, SimpleStreamOptions } from "@mariozechner/pi-ai";
 import { AuthStorage } from "@mariozechner/pi-coding-agent";
 
 export type ThinkingLevel = "off" | "minimal" | "low" | "medium" | "high" | "xhigh";
-export type ApiFormat = "anthropic-messages" | "openai-completions";
+export type ApiFormat = "anthropic-messages" | "openai-completions" | "openai-responses" | "google-generative-ai";
+
+export const API_FORMATS: readonly ApiFormat[] = [
+  "anthropic-messages",
+  "openai-completions",
+  "openai-responses",
+  "google-generative-ai",
+];
+
+/** What a model is good for, used by auto routing */
+export type ModelCapability = "vision" | "long-context" | "reasoning" | "cheap";
+
+export const MODEL_CAPABILITIES: readonly ModelCapability[] = ["vision", "long-context", "reasoning", "cheap"];
+
+/** Why auto routing picked a model other than the chosen one */
+export type RouteReason = "vision" | "long-context";
+
+/** What a prompt asks of the model: image input and an estimate of the context it fills */
+export interface RouteNeed {
+  images: boolean;
+  tokens: number;
+}
+
+/** USD per million tokens; missing fields keep the built-in price or 0 */
+export interface ModelCost {
+  input?: number;
+  output?: number;
+  cacheRead?: number;
+  cacheWrite?: number;
+}
 
 export interface ModelConfig {
   key: string;
@@ -17,6 +48,19 @@ export interface ModelConfig {
   contextWindow?: number;
   maxTokens?: number;
   thinkingLevel?: ThinkingLevel;
+  cost?: ModelCost;
+  /** Keys of models to try, in order, when this one fails; defaults to the default model */
+  fallbacks?: string[];
+  /** Extra HTTP headers; values support `env:VAR_NAME` like apiKey */
+  headers?: Record<string, string>;
+  /** Sampling temperature, 0-2 */
+  temperature?: number;
+  /** Nucleus sampling, above 0 and at most 1 */
+  topP?: number;
+  /** Timeout of each request in milliseconds */
+  timeoutMs?: number;
+  /** Replaces the capabilities implied by the SDK model (vision from image input, reasoning from thinking) */
+  capabilities?: ModelCapability[];
 }
 
 export interface ModelsConfig {
@@ -40,12 +84,135 @@ function validateModel(m: ModelConfig): ModelConfig {
   if (!m.label || !m.provider || !m.id) {
     throw new Error(`Model "${m.key}" missing required fields (label, provider, id)`);
   }
+  for (const [field, value] of Object.entries(m.cost ?? {})) {
+    if (typeof value !== "number" || !Number.isFinite(value) || value < 0) {
+      throw new Error(`Model "${m.key}" has invalid cost.${field}: must be a non-negative number`);
+    }
+  }
+  if (m.apiFormat !== undefined && !API_FORMATS.includes(m.apiFormat)) {
+    throw new Error(`Model "${m.key}" has unknown apiFormat "${m.apiFormat}" (expected one of: ${API_FORMATS.join(", ")})`);
+  }
+  if (m.headers !== undefined) {
+    if (!m.headers || typeof m.headers !== "object" || Array.isArray(m.headers) ||
+        Object.values(m.headers).some((v) => typeof v !== "string")) {
+      throw new Error(`Model "${m.key}" has invalid headers: must be an object of strings`);
+    }
+  }
+  if (m.temperature !== undefined && !isNumberIn(m.temperature, 0, 2)) {
+    throw new Error(`Model "${m.key}" has invalid temperature: must be between 0 and 2`);
+  }
+  if (m.topP !== undefined && (!isNumberIn(m.topP, 0, 1) || m.topP === 0)) {
+    throw new Error(`Model "${m.key}" has invalid topP: must be above 0 and at most 1`);
+  }
+  if (m.timeoutMs !== undefined && (!Number.isInteger(m.timeoutMs) || m.timeoutMs <= 0)) {
+    throw new Error(`Model "${m.key}" has invalid timeoutMs: must be a positive number of milliseconds`);
+  }
+  if (m.capabilities !== undefined) {
+    if (!Array.isArray(m.capabilities) || m.capabilities.some((c) => !MODEL_CAPABILITIES.includes(c))) {
+      throw new Error(`Model "${m.key}" has invalid capabilities (expected any of: ${MODEL_CAPABILITIES.join(", ")})`);
+    }
+  }
+  if (m.fallbacks !== undefined) {
+    if (!Array.isArray(m.fallbacks) || m.fallbacks.some((k) => typeof k !== "string")) {
+      throw new Error(`Model "${m.key}" has invalid fallbacks: must be an array of model keys`);
+    }
+    if (m.fallbacks.includes(m.key)) {
+      throw new Error(`Model "${m.key}" lists itself in fallbacks`);
+    }
+  }
   return {
     ...m,
     apiKey: resolveApiKey(m.apiKey),
+    ...(m.headers && {
+      headers: Object.fromEntries(Object.entries(m.headers).map(([name, value]) => [name, resolveApiKey(value) ?? ""])),
+    }),
   };
 }
 
+function isNumberIn(value: unknown, min: number, max: number): boolean {
+  return typeof value === "number" && Number.isFinite(value) && value >= min && value <= max;
+}
+
+/**
+ * Add a model's sampling and timeout settings to the options of a request.
+ * top_p has no stream option, so it is written into the provider payload.
+ */
+export function applyRequestOptions(config: ModelConfig | undefined, options: SimpleStreamOptions = {}): SimpleStreamOptions {
+  if (!config) return options;
+  const { temperature, topP, timeoutMs } = config;
+  return {
+    ...options,
+    ...(temperature !== undefined && { temperature }),
+    ...(timeoutMs !== undefined && { timeoutMs }),
+    ...(topP !== undefined && {
+      onPayload: async (payload: unknown, model: Model<Api>) => {
+        const next = (await options.onPayload?.(payload, model)) ?? payload;
+        if (!next || typeof next !== "object") return next;
+        const params = next as Record<string, any>;
+        return model.api === "google-generative-ai"
+          ? { ...params, config: { ...params.config, topP } }
+          : { ...params, top_p: topP };
+      },
+    }),
+  };
+}
+
+/** API formats whose SDK clients apply timeoutMs while waiting for the response */
+const SDK_TIMEOUT_APIS: ReadonlySet<string> = new Set(["anthropic-messages", "openai-completions", "openai-responses", "azure-openai-responses"]);
+
+type StreamFunction = (
+  model: Model<Api>,
+  context: Context,
+  options?: SimpleStreamOptions,
+) => AssistantMessageEventStream | Promise<AssistantMessageEventStream>;
+
+/**
+ * Stream a request with the model's request options applied. Providers
+ * that ignore timeoutMs get an idle timer instead: the request is aborted
+ * when no event arrives for timeoutMs, so a long answer that keeps
+ * streaming is never cut off.
+ */
+export async function streamWithRequestOptions(
+  streamFn: StreamFunction,
+  model: Model<Api>,
+  context: Context,
+  config: ModelConfig | undefined,
+  options?: SimpleStreamOptions,
+): Promise<AssistantMessageEventStream> {
+  const requestOptions = applyRequestOptions(config, options);
+  const timeoutMs = config?.timeoutMs;
+  if (timeoutMs === undefined || SDK_TIMEOUT_APIS.has(model.api)) {
+    return streamFn(model, context, requestOptions);
+  }
+
+  const idle = new AbortController();
+  const onIdle = () => idle.abort(new Error(`No response for ${timeoutMs}ms`));
+  let timer = setTimeout(onIdle, timeoutMs);
+  const signal = requestOptions.signal ? AbortSignal.any([requestOptions.signal, idle.signal]) : idle.signal;
+
+  let inner: AssistantMessageEventStream;
+  try {
+    inner = await streamFn(model, context, { ...requestOptions, signal });
+  } catch (e) {
+    clearTimeout(timer);
+    throw e;
+  }
+  const outer = createAssistantMessageEventStream();
+  void (async () => {
+    try {
+      for await (const event of inner) {
+        clearTimeout(timer);
+        timer = setTimeout(onIdle, timeoutMs);
+        outer.push(event);
+      }
+    } finally {
+      clearTimeout(timer);
+      outer.end();
+    }
+  })();
+  return outer;
+}
+
 export class ModelRegistry {
   readonly models: ModelConfig[];
   readonly defaultKey: string;
@@ -59,6 +226,12 @@ export class ModelRegistry {
     if (!this.get(this.defaultKey)) {
       throw new Error(`Default model key "${this.defaultKey}" not found in models`);
     }
+    for (const m of this.models) {
+      const unknown = m.fallbacks?.find((k) => !this.get(k));
+      if (unknown) {
+        throw new Error(`Model "${m.key}" falls back to unknown model "${unknown}"`);
+      }
+    }
   }
 
   get(key: string): ModelConfig | undefined {
@@ -76,27 +249,51 @@ export class ModelRegistry {
   keys(): string[] {
     return this.models.map((m) => m.key);
   }
+
+  /** Models to try after `key` fails: its `fallbacks`, or else the default model */
+  fallbacksFor(key: string): string[] {
+    const model = this.get(key);
+    if (!model) return [];
+    if (model.fallbacks) return model.fallbacks;
+    return key === this.defaultKey ? [] : [this.defaultKey];
+  }
 }
 
 export class ModelStore {
   private sdkModelCache: Map<string, Model<Api>> = new Map();
-  private readonly _registry: ModelRegistry;
+  private readonly source: () => ModelRegistry;
+  private loaded: ModelRegistry;
   private readonly authStorage: AuthStorage;
 
-  constructor(registry: ModelRegistry, authStorage: AuthStorage) {
-    this._registry = registry;
+  /**
+   * `source` returns the current registry; when models.json is reloaded it
+   * returns a new one and the cached SDK models and API keys are rebuilt.
+   */
+  constructor(source: () => ModelRegistry, authStorage: AuthStorage) {
+    this.source = source;
+    this.loaded = source();
     this.authStorage = authStorage;
   }
 
   get registry(): ModelRegistry {
-    return this._registry;
+    this.sync();
+    return this.loaded;
+  }
+
+  private sync(): void {
+    const current = this.source();
+    if (current === this.loaded) return;
+    this.loaded = current;
+    this.sdkModelCache.clear();
+    this.registerApiKeys();
   }
 
   getSdkModel(key: string): Model<Api> {
+    this.sync();
     const cached = this.sdkModelCache.get(key);
     if (cached) return cached;
 
-    const config = this._registry.get(key);
+    const config = this.loaded.get(key);
     if (!config) {
       throw new Error(`Model key "${key}" not found in registry`);
     }
@@ -119,10 +316,12 @@ export class ModelStore {
         ...(config.contextWindow !== undefined && { contextWindow: config.contextWindow }),
         ...(config.maxTokens !== undefined && { maxTokens: config.maxTokens }),
         ...(config.apiFormat !== undefined && { api: config.apiFormat as Api }),
+        ...(config.cost !== undefined && { cost: { ...builtin.cost, ...config.cost } }),
+        ...(config.headers !== undefined && { headers: { ...builtin.headers, ...config.headers } }),
       };
     } else {
       if (!config.apiFormat) {
-        throw new Error(`Model "${key}" is not a known built-in and requires apiFormat to be set`);
+        throw new Error(`Model "${key}" is not a known built-in and requires apiFormat (${API_FORMATS.join(", ")})`);
       }
       model = {
         id: config.id,
@@ -132,9 +331,10 @@ export class ModelStore {
         baseUrl: config.baseUrl ?? "",
         reasoning,
         input: defaultInput,
-        cost: defaultCost,
+        cost: { ...defaultCost, ...config.cost },
         contextWindow: config.contextWindow ?? 200000,
         maxTokens: config.maxTokens ?? 64000,
+        ...(config.headers !== undefined && { headers: config.headers }),
       };
     }
 
@@ -142,13 +342,74 @@ export class ModelStore {
     return model;
   }
 
+  /** Declared capabilities, or those implied by the SDK model when none are declared */
+  capabilitiesOf(key: string): Set<ModelCapability> {
+    const config = this.registry.get(key);
+    if (config?.capabilities) return new Set(config.capabilities);
+    const caps = new Set<ModelCapability>();
+    try {
+      const model = this.getSdkModel(key);
+      if (model.input.includes("image")) caps.add("vision");
+      if (model.reasoning) caps.add("reasoning");
+    } catch {
+      // An unusable entry has no capabilities
+    }
+    return caps;
+  }
+
+  /** Whether a model takes images (when there are any) and has room for the prompt */
+  fits(key: string, need: RouteNeed): boolean {
+    if (need.images && !this.capabilitiesOf(key).has("vision")) return false;
+    try {
+      return this.getSdkModel(key).contextWindow >= need.tokens;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Auto routing policy: keep the chosen model when it can take the prompt,
+   * otherwise pick one that can — a vision model for images, a bigger
+   * context window for prompts that don't fit. Among those that fit, models
+   * declared for the need come first, then ones that keep reasoning if the
+   * chosen model reasons, then cheap ones, then models.json order. Returns
+   * null when the chosen model is fine or nothing fits better.
+   */
+  route(
+    currentKey: string,
+    need: RouteNeed,
+    usable: (key: string) => boolean = () => true,
+  ): { key: string; reason: RouteReason } | null {
+    if (this.fits(currentKey, need)) return null;
+    const currentCaps = this.capabilitiesOf(currentKey);
+    const reason: RouteReason = need.images && !currentCaps.has("vision") ? "vision" : "long-context";
+
+    const candidates = this.registry.list()
+      .map((m, index) => ({ key: m.key, index, caps: this.capabilitiesOf(m.key) }))
+      .filter((c) => c.key !== currentKey && usable(c.key) && this.fits(c.key, need));
+    if (!candidates.length) return null;
+
+    const score = (c: (typeof candidates)[number]): number[] => [
+      c.caps.has(reason) ? 0 : 1,
+      currentCaps.has("reasoning") && !c.caps.has("reasoning") ? 1 : 0,
+      c.caps.has("cheap") ? 0 : 1,
+      c.index,
+    ];
+    candidates.sort((a, b) => {
+      const [sa, sb] = [score(a), score(b)];
+      const i = sa.findIndex((v, j) => v !== sb[j]);
+      return i < 0 ? 0 : sa[i] - sb[i];
+    });
+    return { key: candidates[0].key, reason };
+  }
+
   getDefaultSdkModel(): Model<Api> {
-    return this.getSdkModel(this._registry.defaultKey);
+    return this.getSdkModel(this.registry.defaultKey);
   }
 
   registerApiKeys(): void {
     const seen = new Map<string, string>();
-    for (const config of this._registry.list()) {
+    for (const config of this.loaded.list()) {
       if (!config.apiKey) continue;
       const existing = seen.get(config.provider);
       if (existing) {
@@ -169,23 +430,158 @@ export class ModelStore {
   }
 }
 
-export async function loadModels(dataDir: string): Promise<ModelRegistry> {
-  const filePath = `${dataDir}/models.json`;
-  try {
-    const raw = await readFile(filePath, "utf-8");
-    const parsed: ModelsConfig = JSON.parse(raw);
-    if (!Array.isArray(parsed.models) || !parsed.defaultModel) {
-      throw new Error("models.json must have 'defaultModel' and 'models' array");
-    }
-    const validated: ModelsConfig = {
-      defaultModel: parsed.defaultModel,
-      models: parsed.models.map(validateModel),
-    };
-    return new ModelRegistry(validated);
-  } catch (err: unknown) {
-    if (err && typeof err === "object" && "code" in err && (err as { code: string }).code === "ENOENT") {
-      throw new Error(`models.json not found at ${filePath}. Create it from models.json.example.`);
-    }
-    throw err;
+/** Validate a parsed models.json and build its registry; throws on any problem */
+function buildRegistry(parsed: ModelsConfig): ModelRegistry {
+  if (!parsed || !Array.isArray(parsed.models) || !parsed.defaultModel) {
+    throw new Error("models.json must have 'defaultModel' and 'models' array");
+  }
+  const keys = new Set<string>();
+  for (const m of parsed.models) {
+    if (keys.has(m.key)) throw new Error(`Duplicate model key "${m.key}"`);
+    keys.add(m.key);
+  }
+  return new ModelRegistry({
+    defaultModel: parsed.defaultModel,
+    models: parsed.models.map(validateModel),
+  });
+}
+
+/** Header names whose values are credentials */
+const SECRET_HEADER = /auth|key|token|secret|cookie/i;
+
+/** A secret as it may be shown in chat: `env:` references as-is, anything else hidden */
+function redactSecret(value: string): string {
+  return value.startsWith("env:") ? value : "[REDACTED]";
+}
+
+/** A models.json entry as it may be shown in chat, with API keys and credential headers hidden */
+export function redactModelConfig(m: ModelConfig): ModelConfig {
+  return {
+    ...m,
+    ...(m.apiKey !== undefined && { apiKey: redactSecret(String(m.apiKey)) }),
+    ...(m.headers && {
+      headers: Object.fromEntries(
+        Object.entries(m.headers).map(([name, value]) => [name, SECRET_HEADER.test(name) ? redactSecret(String(value)) : value]),
+      ),
+    }),
+  };
+}
+
+/**
+ * The field of an entry that holds a credential written out instead of as
+ * an `env:` reference, if any
+ */
+export function findLiteralSecret(m: ModelConfig): string | undefined {
+  if (m.apiKey !== undefined && !String(m.apiKey).startsWith("env:")) return "apiKey";
+  const header = Object.entries(m.headers ?? {}).find(
+    ([name, value]) => SECRET_HEADER.test(name) && !String(value).startsWith("env:"),
+  );
+  return header ? `headers.${header[0]}` : undefined;
+}
+
+/**
+ * models.json on disk and the registry built from it.
+ *
+ * The file is kept as written, so `env:` API key references are saved back
+ * unresolved. Edits and external changes are validated first and the new
+ * registry is swapped in as a whole; an invalid file keeps the old one.
+ */
+export class ModelsFile {
+  readonly filePath: string;
+  private raw: ModelsConfig;
+  private _registry: ModelRegistry;
+  /** File content the registry was built from, so our own saves and repeated watch events are skipped */
+  private lastText: string;
+
+  private constructor(filePath: string, text: string) {
+    this.filePath = filePath;
+    this.raw = JSON.parse(text);
+    this._registry = buildRegistry(this.raw);
+    this.lastText = text;
+  }
+
+  static async load(dataDir: string): Promise<ModelsFile> {
+    const filePath = `${dataDir}/models.json`;
+    try {
+      return new ModelsFile(filePath, await readFile(filePath, "utf-8"));
+    } catch (err: unknown) {
+      if (err && typeof err === "object" && "code" in err && (err as { code: string }).code === "ENOENT") {
+        throw new Error(`models.json not found at ${filePath}. Create it from models.json.example.`);
+      }
+      throw err;
+    }
+  }
+
+  get registry(): ModelRegistry {
+    return this._registry;
+  }
+
+  /** A model's entry as written in the file, with `env:` references unresolved */
+  getRaw(key: string): ModelConfig | undefined {
+    return this.raw.models.find((m) => m.key === key);
+  }
+
+  /** Reload the registry whenever the file changes on disk */
+  watch(): void {
+    try {
+      const dir = dirname(this.filePath);
+      const fileName = basename(this.filePath);
+      watch(dir, { persistent: false }, (_event, changedFile) => {
+        if (changedFile === fileName) this.reload();
+      });
+    } catch (e) {
+      console.error(`Failed to watch models directory:`, e);
+    }
+  }
+
+  private reload(): void {
+    try {
+      const text = readFileSync(this.filePath, "utf-8");
+      if (text === this.lastText) return;
+      const raw: ModelsConfig = JSON.parse(text);
+      this._registry = buildRegistry(raw);
+      this.raw = raw;
+      this.lastText = text;
+      console.log(`Models config reloaded (${this._registry.list().length} models)`);
+    } catch (e) {
+      console.error(`Invalid models file ${this.filePath}, keeping previous models:`, e);
+    }
+  }
+
+  /** Add a model; throws if the key is taken or the result doesn't validate */
+  add(model: ModelConfig): void {
+    if (this.getRaw(model.key)) {
+      throw new Error(`Model "${model.key}" already exists`);
+    }
+    this.apply({ ...this.raw, models: [...this.raw.models, model] });
+  }
+
+  /** Remove a model; the default model and fallback targets can't be removed */
+  remove(key: string): void {
+    if (!this.getRaw(key)) throw new Error(`Model "${key}" not found`);
+    if (key === this.raw.defaultModel) {
+      throw new Error(`"${key}" is the default model; set another default first`);
+    }
+    const referrer = this.raw.models.find((m) => m.fallbacks?.includes(key));
+    if (referrer) {
+      throw new Error(`"${key}" is a fallback of "${referrer.key}"; remove it there first`);
+    }
+    this.apply({ ...this.raw, models: this.raw.models.filter((m) => m.key !== key) });
+  }
+
+  setDefault(key: string): void {
+    this.apply({ ...this.raw, defaultModel: key });
+  }
+
+  private apply(next: ModelsConfig): void {
+    const registry = buildRegistry(next);
+    const text = JSON.stringify(next, null, 2) + "\n";
+    mkdirSync(dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    writeFileSync(tmpPath, text, "utf-8");
+    renameSync(tmpPath, this.filePath);
+    this.lastText = text;
+    this.raw = next;
+    this._registry = registry;
   }
 }
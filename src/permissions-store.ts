@@ -1,30 +1,88 @@
 /**
  * Persistent permission store for per-conversation tool permissions.
  *
- * Each conversation (chat + thread) has its own permission configuration
- * stored as a JSON file. Config is hot-reloaded on file changes.
+ * Permissions are layered:
+ *   1. `_global.json` — applies to every conversation
+ *   2. a named profile from `profiles/<name>.json` (or a built-in one),
+ *      selected by the conversation's `extends` field
+ *   3. the conversation's own JSON file (chat + thread)
+ *
+ * Rules from all layers are combined (deny -> ask -> allow still holds
+ * across layers); defaultMode comes from the most specific layer that sets
+ * it. Config is hot-reloaded on file changes.
  */
 
 import { readFileSync, writeFileSync, existsSync, mkdirSync, watch, renameSync, readdirSync } from "node:fs";
-import { dirname, basename, join } from "node:path";
-import type { PermissionConfig, PermissionMode } from "./bot/permissions.js";
+import { join } from "node:path";
+import type { PermissionConfig, PermissionLayer } from "./bot/permissions.js";
 
-const DEFAULT_PERMISSION_CONFIG: Required<PermissionConfig> = {
-  defaultMode: "default",
+const DEFAULT_PERMISSION_CONFIG: PermissionConfig = {
   allow: [],
   ask: [],
   deny: [],
 };
 
+const GLOBAL_KEY = "_global";
+
+/** Profiles available without a file; a file with the same name replaces them */
+const BUILTIN_PROFILES: Record<string, PermissionConfig> = {
+  readonly: {
+    defaultMode: "dontAsk",
+    allow: [
+      "read",
+      "bash(ls *)",
+      "bash(cat *)",
+      "bash(grep *)",
+      "bash(git status *)",
+      "bash(git diff *)",
+      "bash(git log *)",
+      "tmux_capture_pane",
+    ],
+    deny: ["write", "edit"],
+  },
+  dev: {
+    defaultMode: "acceptEdits",
+    allow: [
+      "read",
+      "bash(ls *)",
+      "bash(git status *)",
+      "bash(git diff *)",
+      "bash(git log *)",
+      "bash(npm test *)",
+      "bash(npm run *)",
+    ],
+    ask: ["bash(git push *)"],
+    deny: ["read(./.env)", "read(./.env.*)", "edit(./.env)", "write(./.env)"],
+  },
+  ops: {
+    defaultMode: "default",
+    allow: [
+      "read",
+      "tmux_capture_pane",
+      "bash(systemctl status *)",
+      "bash(journalctl *)",
+      "bash(docker ps *)",
+      "bash(docker logs *)",
+      "bash(kubectl get *)",
+      "bash(kubectl describe *)",
+      "bash(kubectl logs *)",
+    ],
+    deny: ["bash(rm -rf /*)"],
+  },
+};
+
 export class PermissionStore {
   private baseDir: string;
+  private profilesDir: string;
   private configs = new Map<string, PermissionConfig>();
-  private watchers = new Map<string, ReturnType<typeof watch>>();
+  private profiles = new Map<string, PermissionConfig>();
 
   constructor(baseDir: string) {
     this.baseDir = baseDir;
+    this.profilesDir = join(baseDir, "profiles");
     this.ensureDir();
     this.loadAll();
+    this.loadProfiles();
     this.watchDir();
   }
 
@@ -36,6 +94,18 @@ export class PermissionStore {
     }
   }
 
+  private parseConfig(raw: string): PermissionConfig {
+    const parsed = JSON.parse(raw);
+    const config: PermissionConfig = {
+      allow: parsed.allow ?? [],
+      ask: parsed.ask ?? [],
+      deny: parsed.deny ?? [],
+    };
+    if (parsed.defaultMode) config.defaultMode = parsed.defaultMode;
+    if (parsed.extends) config.extends = parsed.extends;
+    return config;
+  }
+
   private getFilePath(conversationKey: string): string {
     // Sanitize the key to be a valid filename
     const safeKey = conversationKey.replace(/[^a-zA-Z0-9_-]/g, "_");
@@ -59,14 +129,7 @@ export class PermissionStore {
     const filePath = this.getFilePath(conversationKey);
     try {
       if (existsSync(filePath)) {
-        const raw = readFileSync(filePath, "utf-8");
-        const parsed = JSON.parse(raw);
-        const config: PermissionConfig = {
-          defaultMode: parsed.defaultMode ?? DEFAULT_PERMISSION_CONFIG.defaultMode,
-          allow: parsed.allow ?? [],
-          ask: parsed.ask ?? [],
-          deny: parsed.deny ?? [],
-        };
+        const config = this.parseConfig(readFileSync(filePath, "utf-8"));
         this.configs.set(conversationKey, config);
         return config;
       }
@@ -79,6 +142,31 @@ export class PermissionStore {
     return defaultConfig;
   }
 
+  private loadProfiles(): void {
+    this.profiles.clear();
+    try {
+      if (!existsSync(this.profilesDir)) return;
+      for (const file of readdirSync(this.profilesDir).filter((f) => f.endsWith(".json"))) {
+        this.loadProfile(file.replace(/\.json$/, ""));
+      }
+    } catch (e) {
+      console.error(`Failed to load permission profiles from ${this.profilesDir}:`, e);
+    }
+  }
+
+  private loadProfile(name: string): void {
+    const filePath = join(this.profilesDir, `${name}.json`);
+    try {
+      if (existsSync(filePath)) {
+        this.profiles.set(name, this.parseConfig(readFileSync(filePath, "utf-8")));
+      } else {
+        this.profiles.delete(name);
+      }
+    } catch (e) {
+      console.error(`Failed to load permission profile ${filePath}:`, e);
+    }
+  }
+
   private save(conversationKey: string): void {
     const config = this.configs.get(conversationKey);
     if (!config) return;
@@ -110,9 +198,24 @@ export class PermissionStore {
     } catch (e) {
       console.error(`Failed to watch permissions directory ${this.baseDir}:`, e);
     }
+
+    try {
+      if (!existsSync(this.profilesDir)) return;
+      this.profilesWatcher = watch(this.profilesDir, { persistent: false }, (_event, filename) => {
+        if (!filename || !filename.endsWith(".json")) return;
+        const name = filename.replace(/\.json$/, "");
+        setTimeout(() => {
+          console.log(`Permission profile reloaded: ${name}`);
+          this.loadProfile(name);
+        }, 100);
+      });
+    } catch (e) {
+      console.error(`Failed to watch permission profiles ${this.profilesDir}:`, e);
+    }
   }
 
   private watcher?: ReturnType<typeof watch>;
+  private profilesWatcher?: ReturnType<typeof watch>;
 
   /**
    * Get permission config for a conversation.
@@ -148,7 +251,48 @@ export class PermissionStore {
    * List all conversations with custom permission configs.
    */
   listConversations(): string[] {
-    return Array.from(this.configs.keys());
+    return Array.from(this.configs.keys()).filter((key) => key !== GLOBAL_KEY);
+  }
+
+  /**
+   * Get the global permission layer (`_global.json`).
+   */
+  getGlobal(): PermissionConfig {
+    return { ...(this.configs.get(GLOBAL_KEY) ?? DEFAULT_PERMISSION_CONFIG) };
+  }
+
+  /**
+   * Get a named profile; files in `profiles/` take precedence over built-ins.
+   */
+  getProfile(name: string): PermissionConfig | undefined {
+    const profile = this.profiles.get(name) ?? (Object.hasOwn(BUILTIN_PROFILES, name) ? BUILTIN_PROFILES[name] : undefined);
+    return profile ? { ...profile } : undefined;
+  }
+
+  listProfiles(): string[] {
+    return Array.from(new Set([...Object.keys(BUILTIN_PROFILES), ...this.profiles.keys()])).sort();
+  }
+
+  /**
+   * Resolve the layers a conversation inherits from, most general first:
+   * global, then the profile chain named by `extends`.
+   */
+  getInherited(extendsName?: string): PermissionLayer[] {
+    const chain: PermissionLayer[] = [];
+    const seen = new Set<string>();
+    let name = extendsName;
+    // Profiles may extend other profiles; stop on unknown names and cycles
+    while (name && !seen.has(name)) {
+      seen.add(name);
+      const profile = this.getProfile(name);
+      if (!profile) {
+        console.error(`Unknown permission profile: ${name}`);
+        break;
+      }
+      chain.unshift({ name, config: profile });
+      name = profile.extends;
+    }
+    return [{ name: "global", config: this.getGlobal() }, ...chain];
   }
 
   /**
@@ -159,5 +303,9 @@ export class PermissionStore {
       this.watcher.close();
       this.watcher = undefined;
     }
+    if (this.profilesWatcher) {
+      this.profilesWatcher.close();
+      this.profilesWatcher = undefined;
+    }
   }
 }
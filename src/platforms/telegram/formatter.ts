@@ -1,4 +1,4 @@
-import type { Formatter } from "../../im/formatter.js";
+import type { Formatter, TextStyle } from "../../im/formatter.js";
 
 const HTML_ESCAPE_MAP: Record<string, string> = {
   "&": "&amp;",
@@ -34,10 +34,22 @@ export class TelegramFormatter implements Formatter {
     return `<a href="${escapeHtml(url)}">${escapeHtml(text)}</a>`;
   }
 
+  quote(text: string, expandable?: boolean): string {
+    return `<blockquote${expandable ? " expandable" : ""}>${escapeHtml(text)}</blockquote>`;
+  }
+
   escape(text: string): string {
     return escapeHtml(text);
   }
 
+  styled(markup: string, style: TextStyle): string {
+    let out = markup;
+    if (style.strike) out = `<s>${out}</s>`;
+    if (style.italic) out = `<i>${out}</i>`;
+    if (style.bold) out = `<b>${out}</b>`;
+    return out;
+  }
+
   chunkText(text: string, maxLen: number): string[] {
     if (text.length <= maxLen) return [text];
 
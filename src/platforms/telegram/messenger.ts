@@ -33,7 +33,7 @@ function parseThreadId(convo: ConversationRef): number | undefined {
 export class TelegramMessenger implements Messenger {
   readonly capabilities: MessengerCapabilities = {
     supportsEdit: true,
-    supportsDraft: false,
+    supportsDraft: true,
     supportsButtons: true,
     supportsThreads: true,
     supportsDelete: true,
@@ -91,6 +91,15 @@ export class TelegramMessenger implements Messenger {
     });
   }
 
+  async sendDraft(convo: ConversationRef, draftId: number, msg: OutMessage): Promise<void> {
+    if (msg.type !== "text") return;
+    const chatId = parseChatId(convo);
+    await this.tg.sendMessageDraft(chatId, draftId, msg.text, {
+      parse_mode: msg.parseMode === "none" ? undefined : "HTML",
+      message_thread_id: parseThreadId(convo),
+    });
+  }
+
   async deleteMessage(convo: ConversationRef, messageRef: string): Promise<void> {
     const chatId = parseChatId(convo);
     const messageId = Number(messageRef);
@@ -113,4 +122,7 @@ export class TelegramMessenger implements Messenger {
     });
   }
 
+  async leave(convo: ConversationRef): Promise<void> {
+    await this.tg.leaveChat(parseChatId(convo));
+  }
 }
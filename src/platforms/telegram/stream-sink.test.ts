@@ -0,0 +1,89 @@
+import { describe, expect, test } from "bun:test";
+import type { Messenger, OutMessage } from "../../im/messenger.js";
+import type { ConversationRef } from "../../im/types.js";
+import { renderMarkdown } from "../../im/markdown.js";
+import { TelegramFormatter } from "./formatter.js";
+import { TelegramStreamSink } from "./stream-sink.js";
+
+const MAX_CHARS = 200;
+const convo = { platform: "telegram", conversationId: "1" } as ConversationRef;
+
+/** A chat that keeps the messages still visible, in order */
+function fakeChat() {
+  const messages = new Map<string, string>();
+  let next = 1;
+  const messenger: Messenger = {
+    capabilities: {
+      supportsEdit: true,
+      supportsDraft: false,
+      supportsButtons: false,
+      supportsThreads: false,
+      supportsDelete: true,
+      maxTextChars: MAX_CHARS,
+    },
+    async send(_convo, msg: OutMessage) {
+      const ref = String(next++);
+      if (msg.type === "text") messages.set(ref, msg.text);
+      return { messageRef: ref };
+    },
+    async edit(_convo, ref, msg: OutMessage) {
+      if (!messages.has(ref)) throw new Error("message to edit not found");
+      if (msg.type === "text") messages.set(ref, msg.text);
+    },
+    async deleteMessage(_convo, ref) {
+      messages.delete(ref);
+    },
+  };
+  return { messenger, messages: () => [...messages.values()] };
+}
+
+/** Visible text with tags, entities and whitespace removed, to compare content across message splits */
+const visible = (html: string) =>
+  html.replace(/<[^>]+>/g, "").replace(/&lt;/g, "<").replace(/&gt;/g, ">").replace(/&amp;/g, "&").replace(/\s+/g, "");
+
+async function stream(markdown: string, step: number): Promise<string[]> {
+  const chat = fakeChat();
+  const sink = new TelegramStreamSink(chat.messenger, convo, { editThrottleMs: 1 });
+  sink.start();
+  for (let i = 0; i < markdown.length; i += step) {
+    sink.onDelta(markdown.slice(i, i + step));
+    await new Promise((resolve) => setTimeout(resolve, 3));
+  }
+  await sink.finalize();
+  return chat.messages();
+}
+
+const words = (n: number, word: string) => Array.from({ length: n }, (_, i) => `${word}${i}`).join(" ");
+
+describe("TelegramStreamSink", () => {
+  test("posts a long streamed reply once, without repeating or dropping text", async () => {
+    const markdown = [
+      words(12, "intro"),
+      `**${words(30, "bold")}** then ${words(10, "plain")}`,
+      words(25, "middle"),
+      `- ${words(8, "item")}\n- **${words(6, "strong")}**\n- ${words(8, "last")}`,
+      words(20, "outro"),
+    ].join("\n\n");
+
+    for (const step of [3, 11, 40]) {
+      const messages = await stream(markdown, step);
+      expect(messages.length).toBeGreaterThan(1);
+      expect(messages.join("")).not.toContain("▌");
+      for (const message of messages) expect(message.length).toBeLessThanOrEqual(MAX_CHARS);
+      expect(visible(messages.join(""))).toBe(visible(renderMarkdown(markdown, new TelegramFormatter())));
+      // Bold spanning more than one message stays bold instead of showing its markers
+      expect(messages.join("")).not.toContain("**");
+    }
+  });
+
+  test("reopens a code block that is split across messages", async () => {
+    const code = Array.from({ length: 30 }, (_, i) => `const value${i} = ${i};`).join("\n");
+    const markdown = `Here:\n\n\`\`\`ts\n${code}\n\`\`\`\n\nDone.`;
+    const messages = await stream(markdown, 9);
+    expect(messages.length).toBeGreaterThan(2);
+    expect(visible(messages.join(""))).toBe(visible(renderMarkdown(markdown, new TelegramFormatter())));
+    for (const message of messages.slice(1, -1)) {
+      expect(message).toStartWith('<pre><code class="language-ts">');
+    }
+  });
+});
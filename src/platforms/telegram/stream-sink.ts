@@ -1,93 +1,364 @@
 import type { StreamSink } from "../../im/stream-sink.js";
 import type { ConversationRef } from "../../im/types.js";
 import type { Messenger } from "../../im/messenger.js";
-import { escapeHtml } from "../../telegram/format.js";
+import type { Formatter } from "../../im/formatter.js";
+import { markdownCuts, renderMarkdownChunks } from "../../im/markdown.js";
+import { TelegramFormatter } from "./formatter.js";
+import { createLogger, type Logger } from "../../logger.js";
 
+const CURSOR = " ▌";
+
+export interface TelegramStreamSinkOptions {
+  /** Minimum interval between live updates. 0 disables live streaming. */
+  editThrottleMs?: number;
+}
+
+/**
+ * Streams agent output into Telegram as it is generated.
+ *
+ * Draft mode (preferred): the partial reply is pushed with sendMessageDraft
+ * and the final text is sent as a regular message.
+ * Edit mode (fallback): a placeholder is posted on the first delta and edited
+ * in place every `editThrottleMs`. Once the rendered text outgrows
+ * `maxTextChars` the message is sealed and a new one is started.
+ *
+ * The buffer is Markdown, rendered to Telegram HTML so chunk boundaries
+ * follow the renderer and never split a tag or code block. Once the live
+ * text outgrows one message, the Markdown up to a point where it can be
+ * cut cleanly (see `markdownCuts`) is posted in final form and only the
+ * rest is re-rendered on later updates, so committed text never shifts.
+ *
+ * Reasoning (when forwarded via onThinkingDelta) is posted as its own
+ * message in an expandable blockquote once the thinking phase ends, ahead
+ * of the answer text it precedes.
+ *
+ * All outbound calls go through a single promise chain so edits, tool
+ * notices and the final flush never race each other.
+ */
 export class TelegramStreamSink implements StreamSink {
   private messenger: Messenger;
   private convo: ConversationRef;
+  private fmt: Formatter = new TelegramFormatter();
+  private editThrottleMs: number;
+  private logger: Logger;
 
   private _buffer = "";
+  private thinking = "";
+  /** Offset into the buffer of the first Markdown not yet posted in final form. */
+  private segmentStart = 0;
+  /** Fence line that reopens the code block a commit cut through, else "". */
+  private reopen = "";
+  private liveMsgRef: string | null = null;
+  private lastRendered = "";
+  private draftId = 0;
+  private draftUnsupported = false;
+  private liveDisabled = false;
+  private flushTimer: ReturnType<typeof setTimeout> | null = null;
+  private chain: Promise<void> = Promise.resolve();
 
-  constructor(messenger: Messenger, convo: ConversationRef) {
+  constructor(messenger: Messenger, convo: ConversationRef, opts: TelegramStreamSinkOptions = {}) {
     this.messenger = messenger;
     this.convo = convo;
+    this.editThrottleMs = opts.editThrottleMs ?? 0;
+    this.logger = createLogger({
+      component: "stream-sink",
+      platform: "telegram",
+      conversationId: convo.conversationId,
+    });
   }
 
   get buffer(): string {
     return this._buffer;
   }
 
+  private get liveEnabled(): boolean {
+    return this.editThrottleMs > 0 && !this.liveDisabled;
+  }
+
+  private get useDraft(): boolean {
+    return this.draftId !== 0 && !!this.messenger.sendDraft;
+  }
+
   start(): void {
-    this._buffer = "";
+    this.resetState();
+    if (this.messenger.capabilities.supportsDraft && !this.draftUnsupported) {
+      this.draftId = 1 + Math.floor(Math.random() * 0x7ffffffe);
+    }
     // Send typing indicator at the start of streaming
     this.messenger.sendTyping?.(this.convo).catch(() => {});
   }
 
   onDelta(delta: string): void {
+    const first = this._buffer.length === 0;
+    if (this.thinking) {
+      // Reasoning ended: seal text written before it, then post it above the answer
+      const thinking = this.takeThinking();
+      const end = this._buffer.length;
+      this.enqueue(async () => {
+        if (this.liveEnabled) await this.sealSegment(end);
+        await this.postThinking(thinking);
+      });
+    }
     this._buffer += delta;
-    // Buffer the content but don't send - we'll send the full message at the end
+    if (!this.liveEnabled) return;
+
+    if (first && !this.useDraft && this.messenger.capabilities.supportsEdit) {
+      this.enqueue(() => this.postPlaceholder());
+    }
+    if (!this.flushTimer) {
+      this.flushTimer = setTimeout(() => {
+        this.flushTimer = null;
+        this.enqueue(() => this.flushLive());
+      }, this.editThrottleMs);
+    }
+  }
+
+  onThinkingDelta(delta: string): void {
+    this.thinking += delta;
   }
 
   async toolNotice(text: string): Promise<void> {
-    try {
-      await this.messenger.send(this.convo, { type: "text", text });
-    } catch { /* best effort */ }
+    // Seal the live message first so the notice lands after the text it follows.
+    await this.seal();
+    return this.enqueue(async () => {
+      try {
+        await this.messenger.send(this.convo, { type: "text", text });
+      } catch { /* best effort */ }
+    });
+  }
+
+  /** Finish the live message so later output starts a new one below. */
+  async seal(): Promise<void> {
+    this.clearTimer();
+    const thinking = this.takeThinking();
+    return this.enqueue(async () => {
+      if (this.liveEnabled) {
+        await this.sealSegment();
+      }
+      await this.postThinking(thinking);
+    });
   }
 
   async finalize(error?: string): Promise<string | null> {
+    this.clearTimer();
+    await this.chain;
+    await this.postThinking(this.takeThinking());
+
     if (error && this._buffer.length === 0) {
-      await this.messenger.send(this.convo, { type: "text", text: `⚠️ <b>Model error:</b> ${escapeHtml(error)}` });
+      await this.messenger.send(this.convo, { type: "text", text: `⚠️ ${this.fmt.bold("Model error:")} ${this.fmt.escape(error)}` });
       return null;
     }
 
-    if (this._buffer) {
-      const finalText = escapeHtml(this._buffer);
-      const maxChars = this.messenger.capabilities.maxTextChars;
-
-      if (finalText.length > maxChars) {
-        const chunks = chunkText(finalText, maxChars);
-        for (const chunk of chunks) {
-          await this.messenger.send(this.convo, { type: "text", text: chunk }).catch(() => {});
-        }
-      } else {
-        await this.messenger.send(this.convo, { type: "text", text: finalText }).catch(() => {});
+    const chunks = this.renderSegment();
+    if (chunks.length > 0) {
+      for (const chunk of chunks) {
+        await this.commit(chunk);
       }
+    } else if (this.liveMsgRef && !this.lastRendered) {
+      // Only the placeholder was posted — nothing to show.
+      await this.messenger.deleteMessage?.(this.convo, this.liveMsgRef).catch(() => {});
     }
 
     const pending = this._buffer;
-    this._buffer = "";
+    this.resetState();
     return pending || null;
   }
 
   resetState(): void {
+    this.clearTimer();
     this._buffer = "";
+    this.thinking = "";
+    this.segmentStart = 0;
+    this.reopen = "";
+    this.liveMsgRef = null;
+    this.lastRendered = "";
+    this.draftId = 0;
+    this.liveDisabled = false;
   }
-}
 
-function chunkText(text: string, maxLen: number): string[] {
-  if (text.length <= maxLen) return [text];
+  // ── Live updates ───────────────────────────────────────────────────
+
+  private enqueue(fn: () => Promise<void>): Promise<void> {
+    this.chain = this.chain.then(fn).catch((err) => {
+      this.logger.warn({ err }, "Stream update failed");
+    });
+    return this.chain;
+  }
+
+  private clearTimer(): void {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+    }
+  }
+
+  private async postPlaceholder(): Promise<void> {
+    if (this.liveMsgRef) return;
+    try {
+      const result = await this.messenger.send(this.convo, { type: "text", text: `✍️ ${this.fmt.italic("Thinking…")}` });
+      this.liveMsgRef = result.messageRef ?? null;
+    } catch (err) {
+      this.logger.warn({ err }, "Failed to post placeholder, disabling live streaming");
+      this.liveDisabled = true;
+    }
+  }
+
+  private takeThinking(): string {
+    const thinking = this.thinking;
+    this.thinking = "";
+    return thinking;
+  }
+
+  /** Post reasoning as a collapsed blockquote, keeping the most recent part if too long. */
+  private async postThinking(thinking: string): Promise<void> {
+    const text = thinking.trim();
+    if (!text) return;
+    const header = `🧠 ${this.fmt.italic("Reasoning")}`;
+    const budget = this.messenger.capabilities.maxTextChars - header.length - 1;
+    let body = this.fmt.quote(text, true);
+    for (let keep = text.length; body.length > budget; ) {
+      keep = Math.floor(keep * 0.9);
+      body = this.fmt.quote("…" + text.slice(-keep), true);
+    }
+    await this.messenger.send(this.convo, { type: "text", text: `${header}\n${body}` }).catch(() => {});
+  }
+
+  /** Markdown not yet posted in final form, up to `end` */
+  private segmentSource(end = this._buffer.length): string {
+    const segment = this._buffer.slice(this.segmentStart, end);
+    return segment.trim() ? this.reopen + segment : "";
+  }
+
+  private render(source: string): string[] {
+    if (!source.trim()) return [];
+    // Leave room for the cursor so the live chunk matches its final form
+    const maxChars = this.messenger.capabilities.maxTextChars - CURSOR.length;
+    return renderMarkdownChunks(source, this.fmt, maxChars);
+  }
+
+  private renderSegment(end = this._buffer.length): string[] {
+    return this.render(this.segmentSource(end));
+  }
+
+  private async flushLive(): Promise<void> {
+    if (!this.liveEnabled) return;
+
+    let chunks = this.renderSegment();
+    if (chunks.length > 1 && (await this.commitSettled())) {
+      chunks = this.renderSegment();
+    }
+
+    // Text with no clean cut yet stays in the live message until there is one
+    const live = chunks[0];
+    if (!live) return;
+    await this.updateLive(live + CURSOR);
+  }
+
+  /**
+   * The live text no longer fits one message: post the Markdown before the
+   * furthest cut whose text still fits one (or else the nearest cut) in final
+   * form, and keep the rest live. Returns false when there is no cut yet.
+   */
+  private async commitSettled(): Promise<boolean> {
+    const source = this.segmentSource();
+    const cuts = markdownCuts(source).filter((cut) => cut.offset > this.reopen.length);
+    if (cuts.length === 0) return false;
+
+    const before = (i: number) => this.render(source.slice(0, cuts[i].offset - 1));
+    let lo = 0;
+    let hi = cuts.length - 1;
+    while (lo < hi) {
+      const mid = Math.ceil((lo + hi) / 2);
+      if (before(mid).length <= 1) lo = mid;
+      else hi = mid - 1;
+    }
+
+    const cut = cuts[lo];
+    for (const chunk of before(lo)) {
+      await this.commit(chunk);
+    }
+    this.segmentStart += cut.offset - this.reopen.length;
+    this.reopen = cut.reopen;
+    return true;
+  }
 
-  const chunks: string[] = [];
-  let remaining = text;
+  private async updateLive(html: string): Promise<void> {
+    if (html === this.lastRendered) return;
 
-  while (remaining.length > 0) {
-    if (remaining.length <= maxLen) {
-      chunks.push(remaining);
-      break;
+    if (this.useDraft) {
+      try {
+        await this.messenger.sendDraft!(this.convo, this.draftId, { type: "text", text: html });
+        this.lastRendered = html;
+        return;
+      } catch (err) {
+        this.logger.info({ err }, "Draft streaming unavailable, falling back to edit mode");
+        this.draftId = 0;
+        this.draftUnsupported = true;
+      }
     }
 
-    let splitAt = remaining.lastIndexOf("\n", maxLen);
-    if (splitAt < maxLen * 0.3) {
-      splitAt = remaining.lastIndexOf(" ", maxLen);
+    if (!this.messenger.capabilities.supportsEdit) return;
+
+    if (this.liveMsgRef && (await this.tryEdit(this.liveMsgRef, html))) {
+      this.lastRendered = html;
+      return;
     }
-    if (splitAt < maxLen * 0.3) {
-      splitAt = maxLen;
+
+    // No live message yet, or it can no longer be edited: start a new one
+    const stale = this.liveMsgRef;
+    try {
+      const result = await this.messenger.send(this.convo, { type: "text", text: html });
+      this.liveMsgRef = result.messageRef ?? null;
+      this.lastRendered = html;
+    } catch (err) {
+      this.logger.warn({ err }, "Failed to send live message, disabling live streaming");
+      this.liveDisabled = true;
+      return;
     }
+    if (stale) {
+      await this.messenger.deleteMessage?.(this.convo, stale).catch(() => {});
+    }
+  }
 
-    chunks.push(remaining.slice(0, splitAt));
-    remaining = remaining.slice(splitAt).replace(/^\n/, "");
+  private async tryEdit(messageRef: string, html: string): Promise<boolean> {
+    try {
+      await this.messenger.edit!(this.convo, messageRef, { type: "text", text: html });
+      return true;
+    } catch (err) {
+      this.logger.debug({ err, messageRef }, "Live edit failed");
+      return false;
+    }
+  }
+
+  /** Write rendered `html` as the final content of the live message (or a new one). */
+  private async commit(html: string): Promise<void> {
+    const ref = this.liveMsgRef;
+    this.liveMsgRef = null;
+    this.lastRendered = "";
+    if (ref && (await this.tryEdit(ref, html))) return;
+    await this.messenger.send(this.convo, { type: "text", text: html }).catch((err) => {
+      this.logger.error({ err, chars: html.length }, "Failed to send reply chunk");
+    });
+    if (ref) {
+      await this.messenger.deleteMessage?.(this.convo, ref).catch(() => {});
+    }
   }
 
-  return chunks;
+  /** Finish the live message so the next delta starts a fresh one. */
+  private async sealSegment(end = this._buffer.length): Promise<void> {
+    // A commit may already have posted text beyond `end`
+    end = Math.max(end, this.segmentStart);
+    const chunks = this.renderSegment(end);
+    if (chunks.length > 0) {
+      for (const chunk of chunks) {
+        await this.commit(chunk);
+      }
+    } else if (this.liveMsgRef) {
+      // Drop a bare placeholder rather than leave it above the notice
+      await this.messenger.deleteMessage?.(this.convo, this.liveMsgRef).catch(() => {});
+      this.liveMsgRef = null;
+    }
+    this.segmentStart = end;
+    this.reopen = "";
+  }
 }
@@ -1,7 +1,7 @@
 import { readFileSync, writeFileSync, renameSync, mkdirSync } from "node:fs";
 import { dirname } from "node:path";
-import type { ConversationRef, UserRef, InboundEvent } from "../../im/types.js";
-import type { TelegramClient, TgUpdate } from "../../telegram/client.js";
+import type { ConversationRef, UserRef, InboundEvent, ChatInfo } from "../../im/types.js";
+import type { TelegramClient, TgChat, TgMessage, TgUpdate, TgUser } from "../../telegram/client.js";
 import { createTelegramClient } from "../../telegram/client.js";
 
 function buildConvo(chatId: number, threadId?: number): ConversationRef {
@@ -20,10 +20,49 @@ function buildUser(from: { id: number; username?: string; first_name?: string })
   };
 }
 
+function buildChat(chat: TgChat): ChatInfo {
+  return {
+    kind: chat.type === "private" ? "direct" : "group",
+    title: chat.title,
+  };
+}
+
+/** Whether a message @mentions the bot or replies to one of its messages */
+function isAddressed(msg: TgMessage, me: TgUser | undefined): boolean {
+  if (!me) return false;
+  if (msg.reply_to_message?.from?.id === me.id && !msg.reply_to_message.forum_topic_created) return true;
+  const text = msg.text ?? msg.caption ?? "";
+  return !!me.username && text.toLowerCase().includes(`@${me.username.toLowerCase()}`);
+}
+
+function stripMention(text: string, me: TgUser | undefined): string {
+  if (!me?.username) return text;
+  return text.replace(new RegExp(`@${me.username}\\b`, "gi"), "").trim();
+}
+
+/**
+ * `me` is the bot's own user, used to tell whether group messages are
+ * addressed to it
+ */
 export async function parseTelegramUpdate(
   update: TgUpdate,
   tg: TelegramClient,
+  me?: TgUser,
 ): Promise<InboundEvent | null> {
+  if (update.my_chat_member) {
+    const change = update.my_chat_member;
+    const wasIn = !["left", "kicked"].includes(change.old_chat_member.status);
+    const isIn = !["left", "kicked"].includes(change.new_chat_member.status);
+    if (wasIn || !isIn || change.chat.type === "private" || change.chat.type === "channel") return null;
+    return {
+      type: "joined",
+      convo: buildConvo(change.chat.id),
+      from: buildUser(change.from),
+      chat: buildChat(change.chat),
+      raw: update,
+    };
+  }
+
   if (update.callback_query) {
     const cb = update.callback_query;
     const cbChat = cb.message?.chat;
@@ -56,6 +95,7 @@ export async function parseTelegramUpdate(
       type: "action",
       convo,
       from,
+      chat: buildChat(cbChat),
       actionId,
       data,
       ackHandle: cb.id,
@@ -71,6 +111,8 @@ export async function parseTelegramUpdate(
     const threadId = msg.message_thread_id;
     const convo = buildConvo(chatId, threadId);
     const from = buildUser(msg.from);
+    const chat = buildChat(msg.chat);
+    const addressed = chat.kind === "group" && isAddressed(msg, me);
 
     if (msg.photo && msg.photo.length > 0) {
       const largestPhoto = msg.photo[msg.photo.length - 1];
@@ -79,12 +121,15 @@ export async function parseTelegramUpdate(
         if (!file.file_path) return null;
         const bytes = await tg.downloadFile(file.file_path);
         const mimeType = file.file_path.endsWith(".png") ? "image/png" : "image/jpeg";
+        const caption = msg.caption ? stripMention(msg.caption, me) : undefined;
         return {
           type: "image",
           convo,
           from,
+          chat,
           image: { bytes, mimeType },
-          caption: msg.caption?.trim(),
+          caption: caption || undefined,
+          addressed,
           raw: update,
         };
       } catch (e) {
@@ -93,7 +138,7 @@ export async function parseTelegramUpdate(
       }
     }
 
-    const text = msg.text?.trim();
+    const text = msg.text ? stripMention(msg.text, me) : undefined;
     if (!text) return null;
 
     const topicName =
@@ -108,6 +153,7 @@ export async function parseTelegramUpdate(
         type: "command",
         convo,
         from,
+        chat,
         command,
         args,
         raw: isTmuxTopic ? { ...update, isTmuxTopic: true } : update,
@@ -119,6 +165,7 @@ export async function parseTelegramUpdate(
         type: "text",
         convo,
         from,
+        chat,
         text,
         raw: { ...update, isTmuxTopic: true },
       };
@@ -128,7 +175,9 @@ export async function parseTelegramUpdate(
       type: "text",
       convo,
       from,
+      chat,
       text,
+      addressed,
       raw: update,
     };
   }
@@ -176,15 +225,28 @@ export async function startTelegramPolling(opts: TelegramTransportOptions): Prom
     console.error("Failed to clear webhook:", e);
   }
 
+  let me: TgUser | undefined;
+  try {
+    me = await tg.getMe();
+  } catch (e) {
+    console.error("Failed to get bot user, group mentions won't be recognized:", e);
+  }
+
   await tg.setMyCommands([
     { command: "help", description: "Show all commands" },
     { command: "status", description: "Show bot and agent status" },
+    { command: "usage", description: "Token usage and cost" },
+    { command: "quota", description: "Show your budget and usage" },
     { command: "sessions", description: "List agent sessions" },
     { command: "resume", description: "Resume a previous session" },
     { command: "newsession", description: "Start a fresh session" },
     { command: "reset", description: "Full agent reset" },
     { command: "abort", description: "Abort current agent operation" },
+    { command: "project", description: "Bind this chat to a project" },
+    { command: "cd", description: "Agent working directory" },
+    { command: "worktree", description: "This topic's git worktree" },
     { command: "model", description: "Select model" },
+    { command: "models", description: "Model health checks" },
     { command: "thinking", description: "Set thinking level" },
     { command: "permissions", description: "Configure tool permissions" },
     { command: "tmux", description: "List tmux sessions" },
@@ -197,6 +259,8 @@ export async function startTelegramPolling(opts: TelegramTransportOptions): Prom
     { command: "users", description: "List allowed users (owner)" },
     { command: "adduser", description: "Allow a user (owner)" },
     { command: "removeuser", description: "Remove a user (owner)" },
+    { command: "invite", description: "Create an invite code (owner)" },
+    { command: "chat", description: "Allow this group chat (owner)" },
   ]);
 
   console.log("Polling for updates...");
@@ -208,7 +272,7 @@ export async function startTelegramPolling(opts: TelegramTransportOptions): Prom
         offset = update.update_id + 1;
 
         const chatId =
-          update.message?.chat.id ?? update.callback_query?.message?.chat.id;
+          update.message?.chat.id ?? update.callback_query?.message?.chat.id ?? update.my_chat_member?.chat.id;
         const threadId =
           update.message?.message_thread_id ??
           (update.callback_query?.message && "message_thread_id" in update.callback_query.message
@@ -220,7 +284,7 @@ export async function startTelegramPolling(opts: TelegramTransportOptions): Prom
         }
 
         try {
-          const event = await parseTelegramUpdate(update, tg);
+          const event = await parseTelegramUpdate(update, tg, me);
           if (event) {
             console.log(`[transport] Routing event: type=${event.type}, actionId=${event.type === 'action' ? event.actionId : 'n/a'}`);
             await opts.onEvent(event);
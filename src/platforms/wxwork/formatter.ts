@@ -1,4 +1,4 @@
-import type { Formatter } from "../../im/formatter.js";
+import type { Formatter, TextStyle } from "../../im/formatter.js";
 
 export class WxWorkFormatter implements Formatter {
   bold(text: string): string {
@@ -21,10 +21,19 @@ export class WxWorkFormatter implements Formatter {
     return `[${text}](${url})`;
   }
 
+  quote(text: string, _expandable?: boolean): string {
+    return text.split("\n").map((line) => `> ${line}`).join("\n");
+  }
+
   escape(text: string): string {
     return text;
   }
 
+  /** WxWork Markdown only has bold, which stands in for italic; strikethrough stays plain */
+  styled(markup: string, style: TextStyle): string {
+    return style.bold || style.italic ? `**${markup}**` : markup;
+  }
+
   chunkText(text: string, maxLen: number): string[] {
     if (text.length <= maxLen) return [text];
 
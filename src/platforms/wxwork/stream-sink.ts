@@ -1,11 +1,18 @@
 import type { StreamSink } from "../../im/stream-sink.js";
 import type { ConversationRef } from "../../im/types.js";
 import type { Messenger } from "../../im/messenger.js";
+import { renderMarkdownChunks } from "../../im/markdown.js";
+import { WxWorkFormatter } from "./formatter.js";
+
+/** Reasoning is only summarized on WxWork (no collapsible blocks). */
+const THINKING_SUMMARY_CHARS = 300;
 
 export class WxWorkStreamSink implements StreamSink {
   private messenger: Messenger;
   private convo: ConversationRef;
+  private fmt = new WxWorkFormatter();
   private _buffer = "";
+  private thinking = "";
 
   constructor(messenger: Messenger, convo: ConversationRef) {
     this.messenger = messenger;
@@ -18,19 +25,30 @@ export class WxWorkStreamSink implements StreamSink {
 
   start(): void {
     this._buffer = "";
+    this.thinking = "";
   }
 
   onDelta(delta: string): void {
     this._buffer += delta;
   }
 
+  onThinkingDelta(delta: string): void {
+    this.thinking += delta;
+  }
+
   async toolNotice(text: string): Promise<void> {
     try {
       await this.messenger.send(this.convo, { type: "text", text });
     } catch { /* best effort */ }
   }
 
+  async seal(): Promise<void> {
+    // Output is only sent on finalize, nothing to seal
+  }
+
   async finalize(error?: string): Promise<string | null> {
+    await this.sendThinkingSummary();
+
     if (error && this._buffer.length === 0) {
       await this.messenger.send(this.convo, {
         type: "text",
@@ -39,19 +57,13 @@ export class WxWorkStreamSink implements StreamSink {
       return null;
     }
 
-    if (this._buffer) {
+    if (this._buffer.trim()) {
       const maxChars = this.messenger.capabilities.maxTextChars;
-      const text = this._buffer;
-
-      if (text.length > maxChars) {
-        const chunks = chunkText(text, maxChars);
-        for (const chunk of chunks) {
-          try {
-            await this.messenger.send(this.convo, { type: "text", text: chunk });
-          } catch { /* best effort */ }
-        }
-      } else {
-        await this.messenger.send(this.convo, { type: "text", text });
+      const chunks = renderMarkdownChunks(this._buffer, this.fmt, maxChars);
+      for (const chunk of chunks) {
+        try {
+          await this.messenger.send(this.convo, { type: "text", text: chunk });
+        } catch { /* best effort */ }
       }
     }
 
@@ -62,32 +74,22 @@ export class WxWorkStreamSink implements StreamSink {
 
   resetState(): void {
     this._buffer = "";
+    this.thinking = "";
   }
-}
-
-function chunkText(text: string, maxLen: number): string[] {
-  if (text.length <= maxLen) return [text];
 
-  const chunks: string[] = [];
-  let remaining = text;
-
-  while (remaining.length > 0) {
-    if (remaining.length <= maxLen) {
-      chunks.push(remaining);
-      break;
-    }
-
-    let splitAt = remaining.lastIndexOf("\n", maxLen);
-    if (splitAt < maxLen * 0.3) {
-      splitAt = remaining.lastIndexOf(" ", maxLen);
-    }
-    if (splitAt < maxLen * 0.3) {
-      splitAt = maxLen;
-    }
-
-    chunks.push(remaining.slice(0, splitAt));
-    remaining = remaining.slice(splitAt).replace(/^\n/, "");
+  private async sendThinkingSummary(): Promise<void> {
+    const text = this.thinking.trim();
+    this.thinking = "";
+    if (!text) return;
+    // Keep the tail: the conclusion usually comes last
+    const summary = text.length > THINKING_SUMMARY_CHARS
+      ? "…" + text.slice(-THINKING_SUMMARY_CHARS)
+      : text;
+    try {
+      await this.messenger.send(this.convo, {
+        type: "text",
+        text: `🧠 ${this.fmt.bold("Reasoning")} (${text.length} chars)\n${this.fmt.quote(summary)}`,
+      });
+    } catch { /* best effort */ }
   }
-
-  return chunks;
 }
@@ -0,0 +1,117 @@
+/**
+ * Named projects a conversation can bind its agent to.
+ *
+ * Each project gives a working directory and optionally the model to
+ * switch to, the permission profile to extend, the tmux socket to use and
+ * whether each conversation gets its own git worktree, so different chats
+ * or forum topics can work on different repos, or apart in the same one.
+ * Projects are read from JSON and hot-reloaded when the file changes;
+ * entries that don't validate are logged and left out.
+ */
+
+import { readFileSync, existsSync, mkdirSync, watch } from "node:fs";
+import { dirname, basename, isAbsolute, join, resolve } from "node:path";
+import { homedir } from "node:os";
+
+export interface ProjectConfig {
+  name: string;
+  /** Agent working directory; absolute, or starting with `~` */
+  dir: string;
+  /** Model key switched to when a conversation binds to the project */
+  model?: string;
+  /** Permission profile the conversation extends */
+  permissions?: string;
+  /** Socket name under TMUX_SOCKET_DIR, or an absolute socket path */
+  tmuxSocket?: string;
+  /** Give each conversation bound to the project its own git worktree and branch */
+  worktree?: boolean;
+}
+
+const NAME_PATTERN = /^[a-zA-Z0-9._-]{1,32}$/;
+
+/** `~` and `~/…` relative to the home directory, other paths as given */
+export function expandHome(path: string): string {
+  if (path === "~") return homedir();
+  if (path.startsWith("~/")) return join(homedir(), path.slice(2));
+  return path;
+}
+
+function validateProject(name: string, raw: any): ProjectConfig {
+  if (!NAME_PATTERN.test(name)) {
+    throw new Error(`Project name "${name}" must be 1-32 letters, digits, ".", "_" or "-"`);
+  }
+  if (typeof raw?.dir !== "string" || !isAbsolute(expandHome(raw.dir))) {
+    throw new Error(`Project "${name}" needs an absolute dir`);
+  }
+  for (const field of ["model", "permissions", "tmuxSocket"] as const) {
+    if (raw[field] !== undefined && (typeof raw[field] !== "string" || !raw[field])) {
+      throw new Error(`Project "${name}" has invalid ${field}: must be a non-empty string`);
+    }
+  }
+  if (raw.worktree !== undefined && typeof raw.worktree !== "boolean") {
+    throw new Error(`Project "${name}" has invalid worktree: must be true or false`);
+  }
+  return {
+    name,
+    dir: resolve(expandHome(raw.dir)),
+    model: raw.model,
+    permissions: raw.permissions,
+    tmuxSocket: raw.tmuxSocket,
+    worktree: raw.worktree,
+  };
+}
+
+export class ProjectStore {
+  private filePath: string;
+  private projects = new Map<string, ProjectConfig>();
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.load();
+    this.watchFile();
+  }
+
+  private load(): void {
+    const projects = new Map<string, ProjectConfig>();
+    try {
+      if (existsSync(this.filePath)) {
+        const raw = JSON.parse(readFileSync(this.filePath, "utf-8"));
+        for (const [name, entry] of Object.entries(raw.projects ?? {})) {
+          try {
+            projects.set(name, validateProject(name, entry));
+          } catch (e) {
+            console.error(`Skipping project in ${this.filePath}:`, e instanceof Error ? e.message : e);
+          }
+        }
+      }
+    } catch (e) {
+      console.error(`Failed to load projects file ${this.filePath}:`, e);
+      return;
+    }
+    this.projects = projects;
+  }
+
+  private watchFile(): void {
+    try {
+      const dir = dirname(this.filePath);
+      mkdirSync(dir, { recursive: true });
+      const fileName = basename(this.filePath);
+      watch(dir, { persistent: false }, (_event, changedFile) => {
+        if (changedFile === fileName) {
+          this.load();
+          console.log("Projects reloaded");
+        }
+      });
+    } catch (e) {
+      console.error(`Failed to watch projects directory:`, e);
+    }
+  }
+
+  get(name: string): ProjectConfig | undefined {
+    return this.projects.get(name);
+  }
+
+  list(): ProjectConfig[] {
+    return Array.from(this.projects.values());
+  }
+}
@@ -0,0 +1,178 @@
+/**
+ * Spending quotas and prompt rate limits.
+ *
+ * A budget caps the tokens and/or cost a user may use per UTC day or
+ * calendar month. Budgets are set per role and can be overridden per user;
+ * a user's own budget replaces the role's for the periods it sets. The rate
+ * limit caps how many prompts a single conversation may send per minute.
+ * Config is stored as JSON and hot-reloaded when the file changes.
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync, watch, renameSync } from "node:fs";
+import { dirname, basename } from "node:path";
+import type { Role } from "./auth.js";
+import type { UsageStore } from "./usage-store.js";
+
+export type QuotaPeriod = "day" | "month";
+
+export const QUOTA_PERIODS: readonly QuotaPeriod[] = ["day", "month"];
+
+/** A cap is reached when either limit is; unset limits don't apply */
+export interface QuotaLimit {
+  /** All tokens: input, output, cache read and cache write */
+  tokens?: number;
+  /** USD */
+  cost?: number;
+}
+
+export type Budget = Partial<Record<QuotaPeriod, QuotaLimit>>;
+
+export interface QuotaData {
+  roles: Partial<Record<Role, Budget>>;
+  /** Keyed by identity (`platform:userId`) */
+  users: Record<string, Budget>;
+  /** Prompts per minute per conversation, null for no limit */
+  promptsPerMinute: number | null;
+}
+
+/** The limit a user has gone over, with how much they used */
+export interface QuotaExceeded {
+  period: QuotaPeriod;
+  kind: "tokens" | "cost";
+  used: number;
+  limit: number;
+}
+
+const DEFAULT_QUOTAS: QuotaData = {
+  roles: {},
+  users: {},
+  promptsPerMinute: null,
+};
+
+export class QuotaStore {
+  private filePath: string;
+  private data: QuotaData;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.data = this.load();
+    this.watchFile();
+  }
+
+  private load(): QuotaData {
+    try {
+      if (existsSync(this.filePath)) {
+        return { ...DEFAULT_QUOTAS, ...JSON.parse(readFileSync(this.filePath, "utf-8")) };
+      }
+    } catch (e) {
+      console.error(`Failed to load quota file ${this.filePath}:`, e);
+    }
+    return { ...DEFAULT_QUOTAS };
+  }
+
+  private save(): void {
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      writeFileSync(tmpPath, JSON.stringify(this.data, null, 2) + "\n", "utf-8");
+      renameSync(tmpPath, this.filePath);
+    } catch (e) {
+      console.error(`Failed to save quota file ${this.filePath}:`, e);
+    }
+  }
+
+  private watchFile(): void {
+    try {
+      const dir = dirname(this.filePath);
+      mkdirSync(dir, { recursive: true });
+      const fileName = basename(this.filePath);
+      watch(dir, { persistent: false }, (_event, changedFile) => {
+        if (changedFile === fileName) {
+          this.data = this.load();
+          console.log("Quota config reloaded");
+        }
+      });
+    } catch (e) {
+      console.error(`Failed to watch quota directory:`, e);
+    }
+  }
+
+  /** The budget that applies to a user: their own periods, else their role's */
+  budgetFor(identity: string, role: Role): Budget {
+    const own = this.data.users[identity] ?? {};
+    const byRole = this.data.roles[role] ?? {};
+    return { day: own.day ?? byRole.day, month: own.month ?? byRole.month };
+  }
+
+  /**
+   * The first limit the user has reached in the current day or month, or
+   * null if they are within budget
+   */
+  check(identity: string, role: Role, usage: UsageStore, now = new Date()): QuotaExceeded | null {
+    const budget = this.budgetFor(identity, role);
+    for (const period of QUOTA_PERIODS) {
+      const limit = budget[period];
+      if (!limit) continue;
+      const totals = usage.userUsage(identity, period, now);
+      const tokens = totals.input + totals.output + totals.cacheRead + totals.cacheWrite;
+      if (limit.tokens !== undefined && tokens >= limit.tokens) {
+        return { period, kind: "tokens", used: tokens, limit: limit.tokens };
+      }
+      if (limit.cost !== undefined && totals.cost >= limit.cost) {
+        return { period, kind: "cost", used: totals.cost, limit: limit.cost };
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Set one limit of a role's or user's budget. `target` is a role name or
+   * an identity.
+   */
+  setLimit(target: { role: Role } | { user: string }, period: QuotaPeriod, kind: "tokens" | "cost", value: number): void {
+    const update = (budget: Budget = {}): Budget => ({ ...budget, [period]: { ...budget[period], [kind]: value } });
+    if ("role" in target) {
+      this.data.roles = { ...this.data.roles, [target.role]: update(this.data.roles[target.role]) };
+    } else {
+      this.data.users = { ...this.data.users, [target.user]: update(this.data.users[target.user]) };
+    }
+    this.save();
+  }
+
+  /**
+   * Remove a role's or user's budget for one period, or entirely. Returns
+   * false if there was nothing to remove.
+   */
+  clearLimit(target: { role: Role } | { user: string }, period?: QuotaPeriod): boolean {
+    const clear = (budget: Budget | undefined): Budget | undefined => {
+      if (!period) return undefined;
+      const { [period]: _removed, ...rest } = budget ?? {};
+      return Object.keys(rest).length ? rest : undefined;
+    };
+    const key = "role" in target ? target.role : target.user;
+    const map: Record<string, Budget> = "role" in target ? { ...this.data.roles } : { ...this.data.users };
+    if (!map[key] || (period && !map[key][period])) return false;
+
+    const next = clear(map[key]);
+    if (next) map[key] = next;
+    else delete map[key];
+    if ("role" in target) this.data.roles = map;
+    else this.data.users = map;
+    this.save();
+    return true;
+  }
+
+  get promptsPerMinute(): number | null {
+    return this.data.promptsPerMinute;
+  }
+
+  setPromptsPerMinute(value: number | null): void {
+    this.data.promptsPerMinute = value;
+    this.save();
+  }
+
+  /** Get a copy of the current quota config */
+  getData(): Readonly<QuotaData> {
+    return { ...this.data };
+  }
+}
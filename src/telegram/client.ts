@@ -1,7 +1,7 @@
 /**
  * Minimal Telegram Bot API client using fetch.
- * Supports: sendMessage, editMessageText, sendPhoto, sendDocument,
- * answerCallbackQuery, deleteMessage, getUpdates.
+ * Supports: sendMessage, editMessageText, sendMessageDraft, sendPhoto,
+ * sendDocument, answerCallbackQuery, deleteMessage, getUpdates.
  */
 
 const API_BASE = "https://api.telegram.org";
@@ -16,6 +16,7 @@ export interface TgFile {
 export interface TelegramClient {
   sendMessage(chatId: number, text: string, options?: SendMessageOptions): Promise<TgMessage>;
   editMessageText(chatId: number, messageId: number, text: string, options?: EditMessageOptions): Promise<TgMessage | boolean>;
+  sendMessageDraft(chatId: number, draftId: number, text: string, options?: SendDraftOptions): Promise<boolean>;
   deleteMessage(chatId: number, messageId: number): Promise<boolean>;
   sendPhoto(chatId: number, photo: Uint8Array | string, options?: SendPhotoOptions): Promise<TgMessage>;
   sendDocument(chatId: number, doc: Uint8Array, filename: string, options?: SendDocOptions): Promise<TgMessage>;
@@ -26,6 +27,8 @@ export interface TelegramClient {
   setMyCommands(commands: Array<{ command: string; description: string }>): Promise<boolean>;
   getFile(fileId: string): Promise<TgFile>;
   downloadFile(filePath: string): Promise<Uint8Array>;
+  getMe(): Promise<TgUser>;
+  leaveChat(chatId: number): Promise<boolean>;
 }
 
 export interface InlineKeyboardButton {
@@ -47,6 +50,11 @@ export interface EditMessageOptions {
   reply_markup?: { inline_keyboard: InlineKeyboardButton[][] };
 }
 
+export interface SendDraftOptions {
+  message_thread_id?: number;
+  parse_mode?: "MarkdownV2" | "HTML";
+}
+
 export interface SendPhotoOptions {
   message_thread_id?: number;
   caption?: string;
@@ -154,12 +162,26 @@ export interface TgCallbackQuery {
   game_short_name?: string;
 }
 
+export interface TgChatMember {
+  status: "creator" | "administrator" | "member" | "restricted" | "left" | "kicked";
+  user: TgUser;
+}
+
+export interface TgChatMemberUpdated {
+  chat: TgChat;
+  from: TgUser;
+  date: number;
+  old_chat_member: TgChatMember;
+  new_chat_member: TgChatMember;
+}
+
 export interface TgUpdate {
   update_id: number;
   message?: TgMessage;
   edited_message?: TgMessage;
   channel_post?: TgMessage;
   callback_query?: TgCallbackQuery;
+  my_chat_member?: TgChatMemberUpdated;
 }
 
 export function scopedClient(client: TelegramClient, threadId: number | undefined): TelegramClient {
@@ -169,6 +191,8 @@ export function scopedClient(client: TelegramClient, threadId: number | undefine
       client.sendMessage(chatId, text, { ...options, message_thread_id: threadId }),
     editMessageText: (chatId, messageId, text, options?) =>
       client.editMessageText(chatId, messageId, text, { ...options, message_thread_id: threadId }),
+    sendMessageDraft: (chatId, draftId, text, options?) =>
+      client.sendMessageDraft(chatId, draftId, text, { ...options, message_thread_id: threadId }),
     deleteMessage: (chatId, messageId) =>
       client.deleteMessage(chatId, messageId),
     sendPhoto: (chatId, photo, options?) =>
@@ -185,6 +209,8 @@ export function scopedClient(client: TelegramClient, threadId: number | undefine
     setMyCommands: (commands) => client.setMyCommands(commands),
     getFile: (fileId) => client.getFile(fileId),
     downloadFile: (filePath) => client.downloadFile(filePath),
+    getMe: () => client.getMe(),
+    leaveChat: (chatId) => client.leaveChat(chatId),
   };
 }
 
@@ -316,6 +342,15 @@ export function createTelegramClient(token: string): TelegramClient {
       }
     },
 
+    async sendMessageDraft(chatId, draftId, text, options) {
+      return (await call("sendMessageDraft", {
+        chat_id: chatId,
+        draft_id: draftId,
+        text,
+        ...options,
+      })) as boolean;
+    },
+
     async deleteMessage(chatId, messageId) {
       return (await call("deleteMessage", { chat_id: chatId, message_id: messageId })) as boolean;
     },
@@ -355,7 +390,7 @@ export function createTelegramClient(token: string): TelegramClient {
       const result = await call("getUpdates", {
         offset,
         timeout,
-        allowed_updates: ["message", "callback_query"],
+        allowed_updates: ["message", "callback_query", "my_chat_member"],
       });
       return result as TgUpdate[];
     },
@@ -384,5 +419,13 @@ export function createTelegramClient(token: string): TelegramClient {
       }
       return new Uint8Array(await res.arrayBuffer());
     },
+
+    async getMe() {
+      return (await call("getMe", {})) as TgUser;
+    },
+
+    async leaveChat(chatId: number) {
+      return (await call("leaveChat", { chat_id: chatId })) as boolean;
+    },
   };
 }
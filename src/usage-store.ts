@@ -0,0 +1,195 @@
+/**
+ * Token usage and cost accounting.
+ *
+ * Every assistant message the agent receives carries the tokens it used;
+ * the controller records them here together with the conversation, the user
+ * whose message started the turn and the model key. Totals are kept per UTC
+ * day, broken down by conversation, user and model, and saved as JSON.
+ */
+
+import { readFileSync, writeFileSync, existsSync, mkdirSync, renameSync } from "node:fs";
+import { dirname } from "node:path";
+
+export interface UsageTotals {
+  /** Assistant messages (one per model request) */
+  requests: number;
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+  /** USD, from the model's cost per million tokens */
+  cost: number;
+}
+
+export interface UsageEntry {
+  conversation: string;
+  user: string | null;
+  model: string;
+  input: number;
+  output: number;
+  cacheRead: number;
+  cacheWrite: number;
+  cost: number;
+}
+
+export interface UsageBreakdown {
+  total: UsageTotals;
+  conversations: Record<string, UsageTotals>;
+  users: Record<string, UsageTotals>;
+  models: Record<string, UsageTotals>;
+}
+
+export type UsagePeriod = "today" | "week" | "month";
+
+export const USAGE_PERIODS: readonly UsagePeriod[] = ["today", "week", "month"];
+
+/** Days covered by each period, including today */
+const PERIOD_DAYS: Record<UsagePeriod, number> = { today: 1, week: 7, month: 30 };
+
+/** Days kept in the file; older ones are dropped when a new day starts */
+const RETENTION_DAYS = 90;
+
+const UNKNOWN_USER = "unknown";
+
+interface UsageData {
+  /** Keyed by UTC date, YYYY-MM-DD */
+  days: Record<string, UsageBreakdown>;
+}
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, input: 0, output: 0, cacheRead: 0, cacheWrite: 0, cost: 0 };
+}
+
+function emptyBreakdown(): UsageBreakdown {
+  return { total: emptyTotals(), conversations: {}, users: {}, models: {} };
+}
+
+function addTotals(into: UsageTotals, from: UsageTotals): void {
+  into.requests += from.requests;
+  into.input += from.input;
+  into.output += from.output;
+  into.cacheRead += from.cacheRead;
+  into.cacheWrite += from.cacheWrite;
+  into.cost += from.cost;
+}
+
+function addTo(map: Record<string, UsageTotals>, key: string, totals: UsageTotals): void {
+  map[key] ??= emptyTotals();
+  addTotals(map[key], totals);
+}
+
+/** 1234 → "1.2k", 1200000 → "1.2M" */
+export function formatTokens(n: number): string {
+  if (n >= 1_000_000) return `${(n / 1_000_000).toFixed(1)}M`;
+  if (n >= 1_000) return `${(n / 1_000).toFixed(1)}k`;
+  return String(n);
+}
+
+export function formatCost(cost: number): string {
+  if (cost > 0 && cost < 0.01) return "<$0.01";
+  return `$${cost.toFixed(2)}`;
+}
+
+function dayKey(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export class UsageStore {
+  private filePath: string;
+  private data: UsageData;
+
+  constructor(filePath: string) {
+    this.filePath = filePath;
+    this.data = this.load();
+  }
+
+  private load(): UsageData {
+    try {
+      if (existsSync(this.filePath)) {
+        const raw = JSON.parse(readFileSync(this.filePath, "utf-8"));
+        return { days: raw.days ?? {} };
+      }
+    } catch (e) {
+      console.error(`Failed to load usage file ${this.filePath}:`, e);
+    }
+    return { days: {} };
+  }
+
+  private save(): void {
+    try {
+      mkdirSync(dirname(this.filePath), { recursive: true });
+      const tmpPath = `${this.filePath}.tmp`;
+      writeFileSync(tmpPath, JSON.stringify(this.data) + "\n", "utf-8");
+      renameSync(tmpPath, this.filePath);
+    } catch (e) {
+      console.error(`Failed to save usage file ${this.filePath}:`, e);
+    }
+  }
+
+  /** Add the usage of one assistant message to today's totals */
+  record(entry: UsageEntry, now = new Date()): void {
+    const today = dayKey(now);
+    if (!this.data.days[today]) {
+      this.data.days[today] = emptyBreakdown();
+      this.prune(now);
+    }
+    const day = this.data.days[today];
+    const totals: UsageTotals = {
+      requests: 1,
+      input: entry.input,
+      output: entry.output,
+      cacheRead: entry.cacheRead,
+      cacheWrite: entry.cacheWrite,
+      cost: entry.cost,
+    };
+    addTotals(day.total, totals);
+    addTo(day.conversations, entry.conversation, totals);
+    addTo(day.users, entry.user ?? UNKNOWN_USER, totals);
+    addTo(day.models, entry.model, totals);
+    this.save();
+  }
+
+  /**
+   * Totals over the last day, 7 days or 30 days (UTC). Filtered to one
+   * conversation or user, only `total` is filled in.
+   */
+  report(period: UsagePeriod, filter: { conversation?: string; user?: string } = {}, now = new Date()): UsageBreakdown {
+    const since = dayKey(new Date(now.getTime() - (PERIOD_DAYS[period] - 1) * 86_400_000));
+    const result = emptyBreakdown();
+    for (const [day, usage] of Object.entries(this.data.days)) {
+      if (day < since) continue;
+      if (filter.conversation || filter.user) {
+        const totals = filter.conversation ? usage.conversations[filter.conversation] : usage.users[filter.user!];
+        if (totals) addTotals(result.total, totals);
+        continue;
+      }
+      addTotals(result.total, usage.total);
+      for (const [key, totals] of Object.entries(usage.conversations)) addTo(result.conversations, key, totals);
+      for (const [key, totals] of Object.entries(usage.users)) addTo(result.users, key, totals);
+      for (const [key, totals] of Object.entries(usage.models)) addTo(result.models, key, totals);
+    }
+    return result;
+  }
+
+  /**
+   * A user's totals for the current UTC day or calendar month, which is
+   * what quotas are measured against
+   */
+  userUsage(user: string, period: "day" | "month", now = new Date()): UsageTotals {
+    const today = dayKey(now);
+    const since = period === "day" ? today : `${today.slice(0, 7)}-01`;
+    const result = emptyTotals();
+    for (const [day, usage] of Object.entries(this.data.days)) {
+      const totals = usage.users[user];
+      if (day >= since && totals) addTotals(result, totals);
+    }
+    return result;
+  }
+
+  private prune(now: Date): void {
+    const cutoff = dayKey(new Date(now.getTime() - RETENTION_DAYS * 86_400_000));
+    for (const day of Object.keys(this.data.days)) {
+      if (day < cutoff) delete this.data.days[day];
+    }
+  }
+}